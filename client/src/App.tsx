@@ -7,6 +7,7 @@ import NotFound from "@/pages/not-found";
 import ClusteringPage from "@/pages/clustering";
 import MockTestPage from "@/pages/mock-test";
 import IndustryMapPage from "@/pages/industry-map";
+import RunsPage from "@/pages/runs";
 
 function Router() {
   return (
@@ -14,6 +15,7 @@ function Router() {
       <Route path="/" component={ClusteringPage} />
       <Route path="/mock-test" component={MockTestPage} />
       <Route path="/industry-map" component={IndustryMapPage} />
+      <Route path="/runs" component={RunsPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useClusteringStore } from "@/lib/clustering-store";
+import type { AutoKCriterion } from "@/lib/auto-k";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+interface AutoKPopoverProps {
+  onDetected: (k: number) => void;
+}
+
+const criteria: { value: AutoKCriterion; label: string }[] = [
+  { value: "silhouette", label: "Silhouette (max)" },
+  { value: "elbow", label: "Elbow knee (inertia)" },
+  { value: "gap", label: "Gap statistic" },
+];
+
+export default function AutoKPopover({ onDetected }: AutoKPopoverProps) {
+  const { apiConfig, isRunning, autoDetectK } = useClusteringStore();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [kMin, setKMin] = useState(2);
+  const [kMax, setKMax] = useState(8);
+  const [criterion, setCriterion] = useState<AutoKCriterion>("silhouette");
+  const [target, setTarget] = useState<"backend" | "local">("backend");
+
+  const localEndpoint = `${window.location.origin}/api/clustering`;
+  const { isSuccess: localAvailable } = useQuery({
+    queryKey: ["/api/clustering/meta"],
+    enabled: open,
+  });
+
+  // Prefer the local engine when it is up and no other backend is configured
+  useEffect(() => {
+    if (localAvailable && (!apiConfig.endpoint || apiConfig.endpoint === localEndpoint)) {
+      setTarget("local");
+    }
+  }, [localAvailable, apiConfig.endpoint, localEndpoint]);
+
+  const endpoint = target === "local" ? localEndpoint : apiConfig.endpoint;
+  const rangeValid = Number.isInteger(kMin) && Number.isInteger(kMax) && kMin >= 2 && kMax <= 20 && kMax - kMin >= (criterion === "elbow" ? 2 : 1);
+
+  const runSweep = async () => {
+    setOpen(false);
+    const k = await autoDetectK({ kMin, kMax, criterion, endpoint });
+    if (k !== null) {
+      onDetected(k);
+      toast({ title: "Optimal k Detected", description: `k = ${k} (${criterion})` });
+    } else {
+      toast({ title: "Auto-detect Failed", description: "See the logs for details", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          title="Auto-detect optimal k"
+          disabled={isRunning}
+          data-testid="button-auto-k"
+        >
+          ✨
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="end">
+        <h4 className="text-sm font-medium">Auto-detect optimal k</h4>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="auto-k-min" className="text-xs">k from</Label>
+            <Input
+              id="auto-k-min"
+              type="number"
+              min={2}
+              max={19}
+              value={kMin}
+              onChange={(e) => setKMin(parseInt(e.target.value))}
+              data-testid="input-auto-k-min"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auto-k-max" className="text-xs">to</Label>
+            <Input
+              id="auto-k-max"
+              type="number"
+              min={3}
+              max={20}
+              value={kMax}
+              onChange={(e) => setKMax(parseInt(e.target.value))}
+              data-testid="input-auto-k-max"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Criterion</Label>
+          <Select value={criterion} onValueChange={(value) => setCriterion(value as AutoKCriterion)}>
+            <SelectTrigger data-testid="select-auto-k-criterion">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {criteria.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs">Sweep against</Label>
+          <Select value={target} onValueChange={(value) => setTarget(value as "backend" | "local")}>
+            <SelectTrigger data-testid="select-auto-k-target">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="backend" disabled={!apiConfig.endpoint}>Configured backend</SelectItem>
+              <SelectItem value="local" disabled={!localAvailable}>
+                Local engine{localAvailable ? "" : " (unavailable)"}
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          {criterion === "gap" && target === "backend" && (
+            <p className="text-xs text-muted-foreground">
+              The gap statistic needs a backend that reports it; the local engine does.
+            </p>
+          )}
+        </div>
+
+        {!rangeValid && (
+          <p className="text-xs text-red-600">
+            Use 2 ≤ k ≤ 20 and at least {criterion === "elbow" ? 3 : 2} values of k
+          </p>
+        )}
+
+        <Button
+          type="button"
+          className="w-full"
+          onClick={runSweep}
+          disabled={!rangeValid || !endpoint}
+          data-testid="button-run-auto-k"
+        >
+          Sweep k = {kMin}..{kMax}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
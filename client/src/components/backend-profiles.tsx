@@ -0,0 +1,284 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Trash2, Wifi, WifiOff } from "lucide-react";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiConfigSchema, backendProfileSchema, type BackendProfile } from "@shared/schema";
+
+const profileFormSchema = z.object({
+  name: backendProfileSchema.shape.name,
+  endpoint: apiConfigSchema.shape.endpoint,
+  authType: z.enum(["none", "api_key", "bearer"]),
+  apiKey: z.string(),
+}).refine((values) => values.authType === "none" || values.apiKey.trim().length > 0, {
+  path: ["apiKey"],
+  message: "Enter the API key or token",
+});
+
+type ProfileFormValues = z.infer<typeof profileFormSchema>;
+
+function formValues(profile: BackendProfile): ProfileFormValues {
+  return {
+    name: profile.name,
+    endpoint: profile.endpoint,
+    authType: profile.apiKey ? profile.authType ?? "api_key" : "none",
+    apiKey: profile.apiKey ?? "",
+  };
+}
+
+const statusDot: Record<string, string> = {
+  connected: "bg-green-500",
+  checking: "bg-yellow-500 animate-pulse",
+  failed: "bg-red-500",
+};
+
+/**
+ * Saved backend profiles: pick the backend requests go to, edit its endpoint
+ * and credentials, and check the connection through /meta
+ */
+export default function BackendProfiles() {
+  const {
+    profiles, activeProfileId, profileStatus, isRunning,
+    selectProfile, saveProfile, deleteProfile, checkProfile,
+  } = useClusteringStore();
+  const { toast } = useToast();
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0];
+  const status = profileStatus[activeProfile.id];
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: formValues(activeProfile),
+  });
+  const authType = form.watch("authType");
+
+  useEffect(() => {
+    form.reset(formValues(activeProfile));
+  }, [activeProfile, form]);
+
+  // Check the profile in use once when the page opens
+  useEffect(() => {
+    if (!useClusteringStore.getState().profileStatus[activeProfileId]) checkProfile(activeProfileId);
+  }, []);
+
+  const notifyCleared = (cleared: boolean, profileName: string) => {
+    if (!cleared) return;
+    toast({
+      title: "Results Cleared",
+      description: `The previous results came from a different backend than "${profileName}". Run clustering again.`,
+    });
+  };
+
+  const onSelect = (id: string) => {
+    const profile = profiles.find((candidate) => candidate.id === id);
+    if (!profile) return;
+    notifyCleared(selectProfile(id), profile.name);
+    if (!profileStatus[id]) checkProfile(id);
+  };
+
+  const onSave = async (values: ProfileFormValues) => {
+    const profile: BackendProfile = {
+      id: activeProfile.id,
+      name: values.name.trim(),
+      endpoint: values.endpoint.replace(/\/+$/, ""),
+      ...(values.authType !== "none" && { apiKey: values.apiKey.trim(), authType: values.authType }),
+    };
+    notifyCleared(saveProfile(profile), profile.name);
+
+    if (!(await checkProfile(profile.id))) {
+      toast({
+        title: "Connection Failed",
+        description: useClusteringStore.getState().profileStatus[profile.id]?.message ?? "Unknown connection error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const onAdd = () => {
+    const id = `profile-${Date.now().toString(36)}`;
+    saveProfile({ id, name: `Backend ${profiles.length + 1}`, endpoint: activeProfile.endpoint });
+    selectProfile(id);
+  };
+
+  const onDelete = () => {
+    const remaining = profiles.filter((profile) => profile.id !== activeProfile.id);
+    notifyCleared(deleteProfile(activeProfile.id), remaining[0]?.name ?? "");
+  };
+
+  return (
+    <div className="space-y-4" data-testid="backend-profiles">
+      <div className="space-y-1">
+        <Label>Backend profile</Label>
+        <div className="flex gap-2">
+          <Select value={activeProfile.id} onValueChange={onSelect} disabled={isRunning}>
+            <SelectTrigger className="flex-1" data-testid="select-backend-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((profile) => (
+                <SelectItem key={profile.id} value={profile.id}>
+                  <span className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${statusDot[profileStatus[profile.id]?.state] ?? "bg-gray-400"}`} />
+                    {profile.name}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={onAdd}
+            disabled={isRunning}
+            title="Add profile"
+            data-testid="button-add-profile"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={onDelete}
+            disabled={isRunning || profiles.length <= 1}
+            title="Delete profile"
+            data-testid="button-delete-profile"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSave)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Profile name</FormLabel>
+                <FormControl>
+                  <Input placeholder="staging" {...field} data-testid="input-profile-name" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="endpoint"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Endpoint URL</FormLabel>
+                <FormControl>
+                  <Input
+                    type="url"
+                    placeholder="https://api.clustering-service.com"
+                    {...field}
+                    data-testid="input-endpoint"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            <FormField
+              control={form.control}
+              name="authType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Authentication</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-auth-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="api_key">API key (X-API-Key)</SelectItem>
+                      <SelectItem value="bearer">Bearer token</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="apiKey"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{authType === "bearer" ? "Token" : "API key"}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      autoComplete="off"
+                      disabled={authType === "none"}
+                      {...field}
+                      data-testid="input-api-key"
+                    />
+                  </FormControl>
+                  <FormDescription className="text-xs" data-testid="text-api-key-storage">
+                    Saved unencrypted in this browser's local storage. Avoid it on shared computers, or set
+                    CLUSTERING_BACKEND_TOKEN on the server and use the backend proxy instead.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          {/* Connection Status */}
+          <div className="flex items-center space-x-2" data-testid="profile-connection-status">
+            {status?.state === "connected" ? (
+              <>
+                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                <Wifi className="h-4 w-4 text-green-600" />
+                <span className="text-sm text-green-600">Connected</span>
+              </>
+            ) : status?.state === "checking" ? (
+              <>
+                <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse" />
+                <span className="text-sm text-yellow-600">Checking connection...</span>
+              </>
+            ) : (
+              <>
+                <div className={`w-2 h-2 rounded-full ${status ? "bg-red-500" : "bg-gray-400"}`} />
+                <WifiOff className="h-4 w-4 text-gray-400" />
+                <span className="text-sm text-gray-600 truncate" title={status?.message}>
+                  {status ? status.message ?? "Disconnected" : "Not checked"}
+                </span>
+              </>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1" disabled={isRunning} data-testid="button-update-config">
+              Save Profile
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => checkProfile(activeProfile.id)}
+              disabled={status?.state === "checking"}
+              data-testid="button-check-connection"
+            >
+              Test Connection
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useMemo, useState } from "react";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { buildClusterProfiles, type ClusterProfile, type FeatureProfile } from "@/lib/cluster-profiles";
+import { formatQualityValue } from "@/lib/data-quality";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ClusterMetrics } from "@shared/schema";
+
+type ClusterInfo = ClusterMetrics["clusters"][number];
+
+const colors = ['bg-blue-500', 'bg-green-500', 'bg-red-500', 'bg-yellow-500', 'bg-purple-500', 'bg-orange-500'];
+
+function formatValue(value: number): string {
+  return Number.isFinite(value) ? formatQualityValue(value) : "—";
+}
+
+// Signed bar of a feature's effect size, clipped at ±2 standard deviations
+function EffectBar({ feature }: { feature: FeatureProfile }) {
+  const width = Math.min(1, Math.abs(feature.effect) / 2) * 50;
+  return (
+    <div className="relative h-2 w-16 bg-muted rounded-sm shrink-0" title={`effect ${feature.effect.toFixed(2)} sd`}>
+      <div className="absolute inset-y-0 left-1/2 w-px bg-border" />
+      <div
+        className={`absolute inset-y-0 rounded-sm ${feature.effect > 0 ? "bg-green-500" : "bg-red-500"}`}
+        style={feature.effect > 0 ? { left: "50%", width: `${width}%` } : { right: "50%", width: `${width}%` }}
+      />
+    </div>
+  );
+}
+
+function ProfileCard({ profile, info, color }: { profile: ClusterProfile; info?: ClusterInfo; color: string }) {
+  const [showFeatures, setShowFeatures] = useState(false);
+  const peakBand = Math.max(1, ...profile.employees.map((band) => band.count));
+
+  return (
+    <Card data-testid={`cluster-${profile.cluster}`}>
+      <CardContent className="p-3 space-y-3 text-xs">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <div className={`w-3 h-3 ${color} rounded-full`} />
+            <span className="text-sm font-medium">Cluster {profile.cluster}</span>
+          </div>
+          <span className="text-muted-foreground">
+            {profile.size.toLocaleString()} points ({(profile.share * 100).toFixed(1)}%)
+          </span>
+        </div>
+        {info && (
+          <div className="text-muted-foreground space-y-1">
+            <div>Centroid: ({info.centroid.x.toFixed(2)}, {info.centroid.y.toFixed(2)})</div>
+            <div>Avg distance: {info.avgDistance.toFixed(2)} • Max: {info.maxDistance.toFixed(2)}</div>
+          </div>
+        )}
+
+        {profile.distinguishing.length > 0 && (
+          <div className="space-y-1" data-testid={`cluster-${profile.cluster}-features`}>
+            <div className="font-medium">Distinguishing features</div>
+            {profile.distinguishing.map((feature) => (
+              <div key={feature.column} className="flex items-center gap-2">
+                <span className="font-mono truncate flex-1" title={feature.column}>{feature.column}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {formatValue(feature.mean)} vs {formatValue(feature.overallMean)}
+                </span>
+                <EffectBar feature={feature} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {profile.sectors.length > 0 && (
+          <div className="space-y-1" data-testid={`cluster-${profile.cluster}-sectors`}>
+            <div className="font-medium">Dominant sectors</div>
+            {profile.sectors.map((sector) => (
+              <div key={sector.name} className="flex justify-between gap-2">
+                <span className="truncate" title={sector.name}>{sector.name}</span>
+                <span className="text-muted-foreground">{(sector.share * 100).toFixed(0)}%</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {profile.employees.length > 0 && (
+          <div className="space-y-1">
+            <div className="font-medium">Employees</div>
+            <div className="flex items-end gap-1 h-8">
+              {profile.employees.map((band) => (
+                <div key={band.label} className="flex-1 flex flex-col items-center justify-end h-full" title={`${band.label}: ${band.count.toLocaleString()}`}>
+                  <div
+                    className={`w-full rounded-sm ${band.label === "unknown" ? "bg-muted-foreground/30" : "bg-primary/60"}`}
+                    style={{ height: `${Math.max(band.count > 0 ? 8 : 0, (band.count / peakBand) * 100)}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-1 text-[10px] text-muted-foreground">
+              {profile.employees.map((band) => (
+                <span key={band.label} className="flex-1 text-center truncate">{band.label}</span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {profile.representatives.length > 0 && (
+          <div className="space-y-1" data-testid={`cluster-${profile.cluster}-representatives`}>
+            <div className="font-medium">Representative companies</div>
+            {profile.representatives.map((company) => (
+              <div key={`${company.taxcode}:${company.yearreport}`} className="flex justify-between gap-2">
+                <span className="truncate" title={company.name}>{company.name}</span>
+                <span className="text-muted-foreground font-mono whitespace-nowrap">
+                  {company.taxcode}{company.yearreport && ` · ${company.yearreport}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {profile.features.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-full text-xs"
+            onClick={() => setShowFeatures(!showFeatures)}
+            data-testid={`button-cluster-${profile.cluster}-all-features`}
+          >
+            {showFeatures ? "Hide features" : `All ${profile.features.length} features`}
+          </Button>
+        )}
+        {showFeatures && (
+          <div className="max-h-48 overflow-auto border rounded">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-6 px-1">Feature</TableHead>
+                  <TableHead className="h-6 px-1 text-right">Mean</TableHead>
+                  <TableHead className="h-6 px-1 text-right">Median</TableHead>
+                  <TableHead className="h-6 px-1 text-right">All (median)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profile.features.map((feature) => (
+                  <TableRow key={feature.column}>
+                    <TableCell className="py-0.5 px-1 font-mono truncate max-w-[90px]" title={feature.column}>{feature.column}</TableCell>
+                    <TableCell className="py-0.5 px-1 text-right">{formatValue(feature.mean)}</TableCell>
+                    <TableCell className="py-0.5 px-1 text-right">{formatValue(feature.median)}</TableCell>
+                    <TableCell className="py-0.5 px-1 text-right text-muted-foreground">{formatValue(feature.overallMedian)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * One card per cluster explaining what sets it apart from the population
+ */
+export default function ClusterProfiles() {
+  const { results } = useClusteringStore();
+  const [showAllClusters, setShowAllClusters] = useState(false);
+  const clusterResult = results?.clusterResult ?? null;
+  const computed = useMemo(() => (clusterResult ? buildClusterProfiles(clusterResult) : []), [clusterResult]);
+  let profiles = computed;
+  const clusters = results?.metrics?.clusters || [];
+
+  // Results without enterprise rows only get the size and 2D spread of each cluster
+  if (profiles.length === 0) {
+    const total = clusters.reduce((sum, cluster) => sum + cluster.size, 0);
+    profiles = clusters.map((cluster) => ({
+      cluster: cluster.id,
+      size: cluster.size,
+      share: total > 0 ? cluster.size / total : 0,
+      features: [],
+      distinguishing: [],
+      sectors: [],
+      employees: [],
+      representatives: [],
+    }));
+  }
+  if (profiles.length === 0) return null;
+  const visibleProfiles = showAllClusters ? profiles : profiles.slice(0, 3);
+
+  return (
+    <div className="space-y-3" data-testid="cluster-profiles">
+      <h4 className="text-sm font-medium text-foreground">Cluster Profiles</h4>
+
+      {visibleProfiles.map((profile, index) => (
+        <ProfileCard
+          key={profile.cluster}
+          profile={profile}
+          info={clusters.find((cluster) => cluster.id === profile.cluster)}
+          color={colors[index % colors.length]}
+        />
+      ))}
+
+      {profiles.length > 3 && (
+        <Button
+          variant="outline"
+          className="w-full text-sm"
+          onClick={() => setShowAllClusters(!showAllClusters)}
+          data-testid="button-show-all-clusters"
+        >
+          {showAllClusters ? 'Show fewer clusters' : `Show all ${profiles.length} clusters`}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Move, ZoomIn, Lasso, Maximize, Download, FileImage, Expand } from "lucide-react";
 import Plotly from "plotly.js-dist";
+import { enterprisePoints } from "@shared/enterprise-points";
+import { describeRenderPlan, planRender } from "@/lib/render-mode";
 
 export default function ClusterVisualization() {
   const { results, isRunning, parameters } = useClusteringStore();
@@ -24,57 +26,24 @@ export default function ClusterVisualization() {
     const clusterResult = results.clusterResult;
     console.log("✅ Processed cluster data:", clusterResult);
 
-    // Transform API data for visualization
-    let data: any[] = [];
-
-    if (clusterResult.companies && Array.isArray(clusterResult.companies)) {
-      // Process new API format with companies array
-      let pointIndex = 0;
-
-      clusterResult.companies.forEach((company: any) => {
-        if (company.enterprise && Array.isArray(company.enterprise)) {
-          company.enterprise.forEach((enterprise: any) => {
-            const clusterLabel = enterprise.cluster || enterprise.Label || 0;
-
-            // Get coordinates
-            let embX, embY;
-            if (enterprise.pca2_x !== undefined && enterprise.pca2_y !== undefined) {
-              embX = enterprise.pca2_x;
-              embY = enterprise.pca2_y;
-            } else if (enterprise.emb_x !== undefined && enterprise.emb_y !== undefined) {
-              embX = enterprise.emb_x;
-              embY = enterprise.emb_y;
-            } else {
-              embX = 0;
-              embY = 0;
-            }
-
-            // Calculate size based on employee count
-            let calculatedSize = 0.1;
-            if (enterprise.employee_quantity && enterprise.employee_quantity > 0) {
-              calculatedSize = Math.log10(enterprise.employee_quantity + 1) * 0.5;
-            }
-            calculatedSize = Math.max(0.1, calculatedSize);
-
-            data.push({
-              id: `company-${pointIndex}`,
-              name: enterprise.name || 'Unknown Company',
-              tax_code: enterprise.tax_code || '',
-              sector: enterprise.sector_name || '',
-              sector_unique_id: enterprise.sector_unique_id || company.sector_unique_id || '',
-              employees: enterprise.employee_quantity || 0,
-              x: embX,
-              y: embY,
-              size: calculatedSize,
-              cluster: clusterLabel
-            });
-            pointIndex++;
-          });
-        }
-      });
-    }
-
-    console.log("🎨 Creating visualization with", data.length, "data points");
+    const located = enterprisePoints(clusterResult).filter((point) => point.located);
+    // Above the high-volume threshold: one WebGL marker trace per cluster over a sample
+    const plan = planRender(located, (point) => point.cluster);
+    const data = plan.points
+      .map((point) => ({
+        id: point.id,
+        name: point.name,
+        tax_code: point.taxcode,
+        sector: point.sectorName,
+        sector_unique_id: point.sectorId,
+        employees: point.employees ?? 0,
+        x: point.x,
+        y: point.y,
+        size: point.markerSize,
+        cluster: point.cluster
+      }));
+
+    console.log("🎨 Creating visualization with", data.length, "data points:", describeRenderPlan(plan));
 
     if (data.length === 0) {
       console.log("⚠️ No data or plotRef:", { dataLength: data.length, plotRef: !!plotRef.current });
@@ -93,26 +62,48 @@ export default function ClusterVisualization() {
     // Create 3D bar/column traces for each cluster
     const traces: any[] = [];
 
+    // Create detailed hover text
+    const hoverTextOf = (point: typeof data[number]) => {
+      let hoverText = `<b>${point.name}</b><br>`;
+      hoverText += `Coordinates: (${point.x.toFixed(3)}, ${point.y.toFixed(3)})<br>`;
+      hoverText += `Scale Size: ${point.size.toFixed(2)}<br>`;
+      hoverText += `Tax Code: ${point.tax_code}<br>`;
+      hoverText += `Sector Name: ${point.sector}<br>`;
+      hoverText += `Sector ID: ${point.sector_unique_id}<br>`;
+      hoverText += `Employees: ${point.employees.toLocaleString()}`;
+      return hoverText;
+    };
+
     clusters.forEach((clusterId, index) => {
       const clusterPoints = data.filter(d => d.cluster === clusterId);
+      const clusterSize = located.filter(d => d.cluster === clusterId).length;
       const showCluster = selectedClusters.length === 0 || selectedClusters.includes(clusterId!);
       const clusterColor = colors[index % colors.length];
 
+      // Bar tops as markers: one trace instead of a mesh per enterprise
+      if (plan.highVolume) {
+        traces.push({
+          type: 'scatter3d',
+          mode: 'markers',
+          x: clusterPoints.map(d => d.x),
+          y: clusterPoints.map(d => d.y),
+          z: clusterPoints.map(d => Math.max(0.1, d.size * 1.5)),
+          marker: { color: clusterColor, size: 2, opacity: showCluster ? 0.8 : 0.1 },
+          name: `Cluster ${clusterId} (${clusterSize})`,
+          text: clusterPoints.map(hoverTextOf),
+          hoverinfo: 'text',
+          visible: showCluster,
+        });
+        return;
+      }
+
       clusterPoints.forEach((point, pointIndex) => {
         const x = point.x;
         const y = point.y;
         const height = Math.max(0.1, point.size * 1.5);
         const columnWidth = 0.002;
         const w = columnWidth / 2;
-
-        // Create detailed hover text
-        let hoverText = `<b>${point.name}</b><br>`;
-        hoverText += `Coordinates: (${x.toFixed(3)}, ${y.toFixed(3)})<br>`;
-        hoverText += `Scale Size: ${point.size.toFixed(2)}<br>`;
-        hoverText += `Tax Code: ${point.tax_code}<br>`;
-        hoverText += `Sector Name: ${point.sector}<br>`;
-        hoverText += `Sector ID: ${point.sector_unique_id}<br>`;
-        hoverText += `Employees: ${point.employees.toLocaleString()}`;
+        const hoverText = hoverTextOf(point);
 
         // 8 vertices of rectangular column
         const vertices = [
@@ -147,7 +138,7 @@ export default function ClusterVisualization() {
           color: clusterColor,
           opacity: showCluster ? 0.8 : 0.1,
           showlegend: pointIndex === 0,
-          name: pointIndex === 0 ? `Cluster ${clusterId} (${clusterPoints.length})` : undefined,
+          name: pointIndex === 0 ? `Cluster ${clusterId} (${clusterSize})` : undefined,
           text: hoverText,
           hoverinfo: 'text',
           visible: showCluster,
@@ -246,7 +237,8 @@ export default function ClusterVisualization() {
       doubleClick: 'reset',
     };
 
-    Plotly.newPlot(plotRef.current, traces, layout, config).then(() => {
+    // react diffs against the current plot instead of rebuilding it
+    Plotly.react(plotRef.current, traces, layout, config).then(() => {
       setPlotReady(true);
     });
 
@@ -266,12 +258,6 @@ export default function ClusterVisualization() {
           break;
       }
     }
-
-    return () => {
-      if (plotRef.current) {
-        Plotly.purge(plotRef.current);
-      }
-    };
   }, [results, selectedClusters, activeTool]);
 
   const handleClusterFilter = (value: string) => {
@@ -400,23 +386,8 @@ export default function ClusterVisualization() {
     );
   }
 
-  // Transform data for display
-  let processedData: any[] = [];
   const clusterResult = results.clusterResult;
-
-  if (clusterResult.companies && Array.isArray(clusterResult.companies)) {
-    let pointIndex = 0;
-    clusterResult.companies.forEach((company: any) => {
-      if (company.enterprise && Array.isArray(company.enterprise)) {
-        company.enterprise.forEach((enterprise: any) => {
-          processedData.push({
-            cluster: enterprise.cluster || enterprise.Label || 0
-          });
-          pointIndex++;
-        });
-      }
-    });
-  }
+  const processedData = enterprisePoints(clusterResult);
 
   return (
     <div className="w-full h-full" ref={containerRef}>
@@ -1,9 +1,10 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useClusteringStore } from "@/lib/clustering-store";
-import { clusteringParamsSchema, apiConfigSchema } from "../../../shared/schema";
+import { clusteringParamsSchema, gridSweepSchema } from "../../../shared/schema";
+import { fromZodError } from "zod-validation-error";
 import { z } from "zod";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,50 +13,111 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { Wifi, WifiOff, Download } from "lucide-react";
+import { Download } from "lucide-react";
 import IndustrySelector from "@/components/industry-selector";
+import AutoKPopover from "@/components/auto-k-popover";
+import BackendProfiles from "@/components/backend-profiles";
+import { Switch } from "@/components/ui/switch";
+import { parseNumberList, formatNumberList } from "@/lib/param-grid";
+import { describeEncoding } from "@/lib/encodings";
 import { Checkbox } from "@/components/ui/checkbox";
 
+// Text field holding one or more numbers, e.g. "6", "3-8" or "0.1, 0.5, 1" (see parseNumberList)
+const numberListSchema = (integers: boolean, min: number, max: number) =>
+  z.string().superRefine((text, ctx) => {
+    try {
+      parseNumberList(text, { integers, min, max });
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  });
+
 const parametersSchema = z.object({
   lambda: clusteringParamsSchema.shape.lambda,
-  k: z.number().int().min(2).max(20),
+  // Only used in grid sweep mode
+  lambda_values: z.string(),
+  k: numberListSchema(true, 2, 20),
   pca_dim: clusteringParamsSchema.shape.pca_dim,
   level_value: z.array(z.string()).min(1, "Chọn ít nhất 1 mã ngành"),
 });
 
-const apiSchema = z.object({
-  endpoint: apiConfigSchema.shape.endpoint,
-});
+type ParametersFormValues = z.infer<typeof parametersSchema>;
+
+// A single k stays a number; several become the k list sent to the backend
+function kFromText(text: string): number | number[] {
+  const values = parseNumberList(text, { integers: true });
+  return values.length === 1 ? values[0] : values;
+}
 
 export default function ClusteringForm() {
-  const { parameters, apiConfig, updateParameters, updateApiConfig, infoFile: storeInfoFile, results } = useClusteringStore();
+  const { parameters, updateParameters, infoFile, results, isRunning, runGridSweep, encoding } = useClusteringStore();
   const { toast } = useToast();
-  const [connectionStatus, setConnectionStatus] = useState<"connected" | "disconnected" | "checking">("disconnected");
-  const [infoFile, setInfoFile] = useState<File | null>(null);
   const [showOnlyAvailable, setShowOnlyAvailable] = useState(false);
   const [availableIndustries, setAvailableIndustries] = useState<string[]>([]);
+  const [gridMode, setGridMode] = useState(false);
 
-  const parametersForm = useForm<z.infer<typeof parametersSchema>>({
+  const parametersForm = useForm<ParametersFormValues>({
     resolver: zodResolver(parametersSchema),
     defaultValues: {
       lambda: parameters.lambda,
-      k: Array.isArray(parameters.k) ? parameters.k[0] : parameters.k,
+      lambda_values: String(parameters.lambda),
+      k: formatNumberList(parameters.k),
       pca_dim: parameters.pca_dim,
       level_value: Array.isArray(parameters.level_value) ? parameters.level_value : [],
     },
   });
 
-  const apiForm = useForm<z.infer<typeof apiSchema>>({
-    resolver: zodResolver(apiSchema),
-    defaultValues: {
-      endpoint: apiConfig.endpoint || "https://7d95bfb3774b.ngrok-free.app/",
-    },
-  });
+  const onGridSubmit = async (data: ParametersFormValues) => {
+    let lambdaValues: number[];
+    try {
+      lambdaValues = parseNumberList(data.lambda_values);
+    } catch (error) {
+      parametersForm.setError("lambda_values", { message: (error as Error).message });
+      return;
+    }
+
+    const parsed = gridSweepSchema.safeParse({
+      lambda_values: lambdaValues,
+      k_values: parseNumberList(data.k, { integers: true }),
+      pca_dim: data.pca_dim,
+      level_value: data.level_value,
+      exclude_columns: parameters.exclude_columns,
+      feature_columns: parameters.feature_columns,
+      feature_weights: parameters.feature_weights,
+      preprocessing: parameters.preprocessing,
+    });
+    if (!parsed.success) {
+      parametersForm.setError("lambda_values", { message: fromZodError(parsed.error, { prefix: null }).message });
+      return;
+    }
+
+    updateParameters({
+      lambda: parsed.data.lambda_values[0],
+      k: parsed.data.k_values,
+      pca_dim: data.pca_dim,
+      level_value: data.level_value,
+    });
+    console.log("🧮 Starting grid sweep:", parsed.data);
+    await runGridSweep(parsed.data);
+
+    const { gridSweep, error } = useClusteringStore.getState();
+    toast({
+      title: gridSweep ? "Grid Sweep Completed" : "Grid Sweep Failed",
+      description: gridSweep
+        ? `${gridSweep.cells.length} cells clustered. Open the Grid Sweep tab to browse them.`
+        : error ?? "See the logs for details",
+      variant: gridSweep ? "default" : "destructive",
+    });
+  };
+
+  const onParametersSubmit = (data: ParametersFormValues) => {
+    if (gridMode) {
+      return onGridSubmit(data);
+    }
 
-  const onParametersSubmit = (data: { lambda: number; k: number; pca_dim: number; level_value: string[] }) => {
     updateParameters({
       lambda: data.lambda,
-      k: data.k,
+      k: kFromText(data.k),
       pca_dim: data.pca_dim,
       level_value: data.level_value,
     });
@@ -72,39 +134,12 @@ export default function ClusteringForm() {
     console.log("📊 Current parameter values:");
     console.log({
       lambda: data.lambda,
-      k: data.k,
+      k: kFromText(data.k),
       pca_dim: data.pca_dim,
       level_value: data.level_value,
     });
   };
 
-  const onApiConfigSubmit = async (data: { endpoint: string }) => {
-    updateApiConfig({
-      endpoint: data.endpoint,
-    });
-    
-    // Real connection check using /meta endpoint
-    if (data.endpoint) {
-      setConnectionStatus("checking");
-      try {
-        const { clusteringApi } = await import("@/lib/clustering-api");
-        await clusteringApi.getMeta({ endpoint: data.endpoint });
-        setConnectionStatus("connected");
-      } catch (error) {
-        console.error("Connection failed:", error);
-        const errorMessage = error instanceof Error ? error.message : "Unknown connection error";
-        toast({
-          title: "Connection Failed",
-          description: errorMessage,
-          variant: "destructive",
-        });
-        setConnectionStatus("disconnected");
-      }
-    } else {
-      setConnectionStatus("disconnected");
-    }
-  };
-
   const parseIndustriesFromCSV = async (file: File): Promise<string[]> => {
     try {
       const text = await file.text();
@@ -163,42 +198,39 @@ export default function ClusteringForm() {
     }
   };
 
-  const handleInfoFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    console.log("📁 File selected:", file?.name, file?.type, file?.size);
-    
-    if (file && (file.type === 'text/csv' || file.name.endsWith('.csv'))) {
-      setInfoFile(file);
-      
-      // Update the store with the file
-      const { setInfoFile: setStoreInfoFile } = useClusteringStore.getState();
-      setStoreInfoFile(file);
-      
-      // Parse available industries from the CSV
-      const industries = await parseIndustriesFromCSV(file);
-      setAvailableIndustries(industries);
-      
-      console.log("✅ Info file uploaded to store:", file.name);
-      console.log("📊 Found industries in CSV:", industries.length, industries.slice(0, 10));
-      
-      toast({
-        title: "File Uploaded",
-        description: `${file.name} uploaded. Found ${industries.length} industry codes.`,
-        variant: "default",
-      });
-    } else {
-      setInfoFile(null);
+  // Industry codes for the filter come from the uploaded info file
+  useEffect(() => {
+    if (!infoFile) {
       setAvailableIndustries([]);
-      console.log("❌ Invalid file type or no file selected");
+      return;
     }
-  };
+    let cancelled = false;
+    parseIndustriesFromCSV(infoFile).then((industries) => {
+      if (cancelled) return;
+      setAvailableIndustries(industries);
+      console.log("📊 Found industries in CSV:", industries.length, industries.slice(0, 10));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [infoFile]);
 
-  const downloadInputJson = (data: { lambda: number; k: number; pca_dim: number; level_value: string[] }) => {
+  const downloadInputJson = (data: ParametersFormValues) => {
+    let k: number | number[] | string = data.k;
+    try {
+      k = kFromText(data.k);
+    } catch {
+      // Keep the raw text; the form shows the validation error
+    }
     const inputJson = {
       pca_dim: data.pca_dim,
       lambda: data.lambda,
-      k: data.k,
-      level_value: data.level_value
+      k,
+      level_value: data.level_value,
+      ...(parameters.exclude_columns?.length && { exclude_columns: parameters.exclude_columns }),
+      ...(parameters.feature_columns && { feature_columns: parameters.feature_columns }),
+      ...(parameters.feature_weights && { feature_weights: parameters.feature_weights }),
+      ...(parameters.preprocessing && { preprocessing: parameters.preprocessing }),
     };
     
     const blob = new Blob([JSON.stringify(inputJson, null, 2)], { type: 'application/json' });
@@ -238,7 +270,9 @@ export default function ClusteringForm() {
       level_value: results.clusterResult.level_value,
       mode: results.clusterResult.mode || "subset",
       n_samples: results.clusterResult.n_samples,
-      size: results.clusterResult.size
+      size: results.clusterResult.size,
+      // How the 3D cluster space was drawn
+      encoding: { ...encoding, legend: describeEncoding(encoding) },
     };
     
     const blob = new Blob([JSON.stringify(outputJson, null, 2)], { type: 'application/json' });
@@ -264,31 +298,60 @@ export default function ClusteringForm() {
         
         <Form {...parametersForm}>
           <form onSubmit={parametersForm.handleSubmit(onParametersSubmit)} className="space-y-4">
-            <FormField
-              control={parametersForm.control}
-              name="lambda"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Lambda (λ)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      step="any"
-                      min="0"
-                      max="100"
-                      placeholder="0.5"
-                      {...field}
-                      onChange={(e) => field.onChange(parseFloat(e.target.value))}
-                      data-testid="input-lambda"
-                    />
-                  </FormControl>
-                  <p className="text-xs text-muted-foreground">
-                    Weight factor for embedding vs info data
-                  </p>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <div className="flex items-center justify-between">
+              <Label htmlFor="grid-mode" className="text-sm">Grid sweep (λ × k)</Label>
+              <Switch
+                id="grid-mode"
+                checked={gridMode}
+                onCheckedChange={setGridMode}
+                data-testid="switch-grid-mode"
+              />
+            </div>
+
+            {gridMode ? (
+              <FormField
+                control={parametersForm.control}
+                name="lambda_values"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lambda values (λ)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0.1, 0.5, 1" {...field} data-testid="input-lambda-values" />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">
+                      Comma-separated list; every λ is clustered with every k below
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ) : (
+              <FormField
+                control={parametersForm.control}
+                name="lambda"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lambda (λ)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="any"
+                        min="0"
+                        max="100"
+                        placeholder="0.5"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                        data-testid="input-lambda"
+                      />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">
+                      Weight factor for embedding vs info data
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
 
             <FormField
               control={parametersForm.control}
@@ -299,28 +362,16 @@ export default function ClusteringForm() {
                   <div className="flex space-x-2">
                     <FormControl>
                       <Input
-                        type="number"
-                        min="2"
-                        max="20"
                         placeholder="6"
                         {...field}
-                        onChange={(e) => field.onChange(parseInt(e.target.value))}
                         className="flex-1"
                         data-testid="input-k"
                       />
                     </FormControl>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="icon"
-                      title="Auto-detect optimal k"
-                      data-testid="button-auto-k"
-                    >
-                      ✨
-                    </Button>
+                    <AutoKPopover onDetected={(k) => parametersForm.setValue("k", String(k))} />
                   </div>
                   <p className="text-xs text-muted-foreground">
-                    Or use multiple values: [3,4,5,6,7,8]
+                    Or use multiple values: 3,4,5,6,7,8 or a range: 3-8
                   </p>
                   <FormMessage />
                 </FormItem>
@@ -377,23 +428,14 @@ export default function ClusteringForm() {
               )}
             />
 
-            <div className="space-y-2">
-              <Label htmlFor="info-file">Info CSV File (Optional)</Label>
-              <Input
-                id="info-file"
-                type="file"
-                accept=".csv"
-                onChange={handleInfoFileChange}
-                data-testid="input-info-file"
-              />
-              <p className="text-xs text-muted-foreground">
-                Upload CSV file with company information (optional)
-              </p>
-            </div>
-
             <div className="flex gap-2">
-              <Button type="submit" className="flex-1" data-testid="button-update-parameters">
-                Update Parameters
+              <Button
+                type="submit"
+                className="flex-1"
+                disabled={gridMode && isRunning}
+                data-testid={gridMode ? "button-run-grid-sweep" : "button-update-parameters"}
+              >
+                {gridMode ? "Run Grid Sweep" : "Update Parameters"}
               </Button>
               <Button 
                 type="button" 
@@ -416,68 +458,19 @@ export default function ClusteringForm() {
       <div className="space-y-4">
         <h3 className="text-lg font-medium text-foreground">API Configuration</h3>
         
-        <Form {...apiForm}>
-          <form onSubmit={apiForm.handleSubmit(onApiConfigSubmit)} className="space-y-4">
-            <FormField
-              control={apiForm.control}
-              name="endpoint"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Endpoint URL</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="url"
-                      placeholder="https://api.clustering-service.com"
-                      {...field}
-                      onBlur={field.onBlur}
-                      data-testid="input-endpoint"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+        <BackendProfiles />
 
-            {/* Connection Status */}
-            <div className="flex items-center space-x-2">
-              {connectionStatus === "connected" ? (
-                <>
-                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-                  <Wifi className="h-4 w-4 text-green-600" />
-                  <span className="text-sm text-green-600">Connected</span>
-                </>
-              ) : connectionStatus === "checking" ? (
-                <>
-                  <div className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse" />
-                  <span className="text-sm text-yellow-600">Checking connection...</span>
-                </>
-              ) : (
-                <>
-                  <div className="w-2 h-2 bg-gray-400 rounded-full" />
-                  <WifiOff className="h-4 w-4 text-gray-400" />
-                  <span className="text-sm text-gray-600">Disconnected</span>
-                </>
-              )}
-            </div>
-            
-            <div className="flex gap-2">
-              <Button type="submit" className="flex-1" data-testid="button-update-config">
-                Update Configuration
-              </Button>
-              <Button 
-                type="button" 
-                variant="outline" 
-                onClick={downloadOutputJson}
-                className="flex items-center gap-2"
-                data-testid="button-download-output"
-                disabled={!results?.clusterResult}
-              >
-                <Download className="h-4 w-4" />
-                Output JSON
-              </Button>
-            </div>
-          </form>
-        </Form>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={downloadOutputJson}
+          className="w-full flex items-center gap-2"
+          data-testid="button-download-output"
+          disabled={!results?.clusterResult}
+        >
+          <Download className="h-4 w-4" />
+          Output JSON
+        </Button>
       </div>
     </div>
   );
@@ -0,0 +1,310 @@
+import { useMemo, useState } from "react";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { buildCohortProfile, type FeatureProfile } from "@/lib/cluster-profiles";
+import { cohortCsv, cohortFileName, cohortPoints } from "@/lib/cohorts";
+import { formatQualityValue } from "@/lib/data-quality";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { EnterprisePoint } from "@shared/enterprise-points";
+import { ArrowDown, ArrowUp, Download, FolderOpen, Save, Trash2, X } from "lucide-react";
+
+// Rows drawn in the enterprise table; the CSV export always has every row
+const MAX_TABLE_ROWS = 200;
+
+type SortKey = "name" | "taxcode" | "yearreport" | "cluster" | "sectorName" | "employees";
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: "name", label: "Name" },
+  { key: "taxcode", label: "Taxcode" },
+  { key: "yearreport", label: "Year" },
+  { key: "cluster", label: "Cluster", numeric: true },
+  { key: "sectorName", label: "Sector" },
+  { key: "employees", label: "Employees", numeric: true },
+];
+
+function formatValue(value: number): string {
+  return Number.isFinite(value) ? formatQualityValue(value) : "—";
+}
+
+function percent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+// Missing values sort last in either direction
+function compareBy(key: SortKey, direction: 1 | -1) {
+  return (a: EnterprisePoint, b: EnterprisePoint) => {
+    const left = a[key];
+    const right = b[key];
+    if (left === null || left === "") return right === null || right === "" ? 0 : 1;
+    if (right === null || right === "") return -1;
+    return direction * (typeof left === "number" && typeof right === "number"
+      ? left - right
+      : String(left).localeCompare(String(right), undefined, { numeric: true }));
+  };
+}
+
+// Cohort share over the population share of the same group
+function MixBar({ label, share, populationShare }: { label: string; share: number; populationShare: number }) {
+  return (
+    <div className="space-y-0.5" title={`${label}: ${percent(share)} of the cohort, ${percent(populationShare)} of all enterprises`}>
+      <div className="flex justify-between gap-2">
+        <span className="truncate">{label}</span>
+        <span className="text-muted-foreground whitespace-nowrap">{percent(share)} vs {percent(populationShare)}</span>
+      </div>
+      <div className="relative h-1.5 bg-muted rounded-sm">
+        <div className="absolute inset-y-0 left-0 bg-primary/70 rounded-sm" style={{ width: `${share * 100}%` }} />
+        <div className="absolute inset-y-[-2px] w-px bg-foreground" style={{ left: `${populationShare * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function FeatureRow({ feature }: { feature: FeatureProfile }) {
+  return (
+    <TableRow>
+      <TableCell className="py-0.5 px-2 font-mono truncate max-w-[140px]" title={feature.column}>{feature.column}</TableCell>
+      <TableCell className="py-0.5 px-2 text-right">{formatValue(feature.mean)}</TableCell>
+      <TableCell className="py-0.5 px-2 text-right">{formatValue(feature.median)}</TableCell>
+      <TableCell className="py-0.5 px-2 text-right text-muted-foreground">{formatValue(feature.overallMedian)}</TableCell>
+      <TableCell className={`py-0.5 px-2 text-right ${feature.effect > 0 ? "text-green-600" : "text-red-600"}`}>
+        {feature.effect > 0 ? "+" : ""}{feature.effect.toFixed(2)}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * The enterprises of the lasso/box selection (or an opened cohort) with their
+ * summary statistics and cluster/sector mix against the whole population;
+ * the selection can be saved as a named cohort or exported to CSV
+ */
+export default function CohortPanel() {
+  const { results, selection, cohorts, setSelection, saveCohort, openCohort, deleteCohort, focusEnterprise } = useClusteringStore();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [sort, setSort] = useState<{ key: SortKey; direction: 1 | -1 }>({ key: "name", direction: 1 });
+  const clusterResult = results?.clusterResult ?? null;
+
+  const profile = useMemo(
+    () => (clusterResult && selection.length > 0 ? buildCohortProfile(clusterResult, selection) : null),
+    [clusterResult, selection],
+  );
+  const points = useMemo(() => cohortPoints(clusterResult, selection), [clusterResult, selection]);
+  const sorted = useMemo(() => [...points].sort(compareBy(sort.key, sort.direction)), [points, sort]);
+
+  if (!clusterResult) return null;
+
+  const toggleSort = (key: SortKey) =>
+    setSort((current) => ({ key, direction: current.key === key ? (current.direction === 1 ? -1 : 1) : 1 }));
+
+  const handleSave = () => {
+    const cohort = saveCohort(name);
+    if (!cohort) return;
+    setName("");
+    toast({ title: "Cohort saved", description: `"${cohort.name}" with ${cohort.enterpriseIds.length.toLocaleString()} enterprises` });
+  };
+
+  const downloadCsv = () => {
+    const blob = new Blob([cohortCsv(points)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = cohortFileName(name);
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const medianEmployees = profile?.features.find((feature) => feature.column === "empl_qtty");
+
+  return (
+    <Card className="w-full" data-testid="cohort-panel">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between gap-2 text-base">
+          <span>Selection cohort</span>
+          {profile && (
+            <Badge variant="secondary" data-testid="cohort-size">
+              {profile.size.toLocaleString()} enterprises ({percent(profile.share)})
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-xs">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            className="h-8 w-56 text-sm"
+            placeholder="Cohort name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            data-testid="input-cohort-name"
+          />
+          <Button size="sm" onClick={handleSave} disabled={!profile || !name.trim()} data-testid="button-save-cohort">
+            <Save className="h-4 w-4 mr-1" />
+            Save
+          </Button>
+          <Button size="sm" variant="outline" onClick={downloadCsv} disabled={points.length === 0} data-testid="button-export-cohort">
+            <Download className="h-4 w-4 mr-1" />
+            Export CSV
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setSelection([])} disabled={selection.length === 0} data-testid="button-clear-cohort">
+            <X className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        </div>
+
+        {cohorts.length > 0 && (
+          <div className="space-y-1" data-testid="saved-cohorts">
+            <div className="font-medium">Saved cohorts</div>
+            {cohorts.map((cohort) => (
+              <div key={cohort.id} className="flex items-center gap-2">
+                <span className="truncate flex-1" title={cohort.name}>{cohort.name}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {cohort.enterpriseIds.length.toLocaleString()} · {new Date(cohort.createdAt).toLocaleDateString()}
+                </span>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => openCohort(cohort.id)} title="Open" data-testid={`button-open-cohort-${cohort.id}`}>
+                  <FolderOpen className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => deleteCohort(cohort.id)} title="Delete" data-testid={`button-delete-cohort-${cohort.id}`}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!profile ? (
+          <p className="text-muted-foreground">
+            {selection.length > 0
+              ? "None of the selected enterprises are in the current result."
+              : "Select points with the lasso or box tool to build a cohort."}
+          </p>
+        ) : (
+          <>
+            {profile.missing > 0 && (
+              <p className="text-muted-foreground">
+                {profile.missing.toLocaleString()} enterprises of this cohort are not in the current result.
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <div className="rounded border p-2">
+                <div className="text-muted-foreground">Enterprises</div>
+                <div className="text-sm font-medium">{profile.size.toLocaleString()}</div>
+              </div>
+              <div className="rounded border p-2">
+                <div className="text-muted-foreground">Of population</div>
+                <div className="text-sm font-medium">{percent(profile.share)}</div>
+              </div>
+              <div className="rounded border p-2">
+                <div className="text-muted-foreground">Clusters</div>
+                <div className="text-sm font-medium">{profile.clusters.filter((mix) => mix.count > 0).length}</div>
+              </div>
+              <div className="rounded border p-2">
+                <div className="text-muted-foreground">Median employees</div>
+                <div className="text-sm font-medium">
+                  {medianEmployees ? `${formatValue(medianEmployees.median)} vs ${formatValue(medianEmployees.overallMedian)}` : "—"}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-1.5" data-testid="cohort-cluster-mix">
+                <div className="font-medium">Cluster mix (cohort vs all)</div>
+                {profile.clusters.map((mix) => (
+                  <MixBar key={mix.cluster} label={`Cluster ${mix.cluster}`} share={mix.share} populationShare={mix.populationShare} />
+                ))}
+              </div>
+              <div className="space-y-1.5" data-testid="cohort-sector-mix">
+                <div className="font-medium">Top sectors (cohort vs all)</div>
+                {profile.sectors.map((sector) => (
+                  <MixBar key={sector.name} label={sector.name} share={sector.share} populationShare={sector.populationShare} />
+                ))}
+              </div>
+              <div className="space-y-1.5" data-testid="cohort-employee-mix">
+                <div className="font-medium">Employees (cohort vs all)</div>
+                {profile.populationEmployees.map((band) => (
+                  <MixBar
+                    key={band.label}
+                    label={band.label}
+                    share={(profile.employees.find((cohortBand) => cohortBand.label === band.label)?.count ?? 0) / profile.size}
+                    populationShare={band.count / (profile.size / profile.share)}
+                  />
+                ))}
+              </div>
+            </div>
+
+            {profile.distinguishing.length > 0 && (
+              <div className="space-y-1" data-testid="cohort-features">
+                <div className="font-medium">Most different from the population</div>
+                <div className="border rounded">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="h-6 px-2">Feature</TableHead>
+                        <TableHead className="h-6 px-2 text-right">Mean</TableHead>
+                        <TableHead className="h-6 px-2 text-right">Median</TableHead>
+                        <TableHead className="h-6 px-2 text-right">All (median)</TableHead>
+                        <TableHead className="h-6 px-2 text-right">Effect (sd)</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {profile.distinguishing.map((feature) => (
+                        <FeatureRow key={feature.column} feature={feature} />
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <div className="font-medium">Enterprises</div>
+              <div className="max-h-80 overflow-auto border rounded">
+                <Table data-testid="cohort-table">
+                  <TableHeader>
+                    <TableRow>
+                      {COLUMNS.map((column) => (
+                        <TableHead
+                          key={column.key}
+                          className={`h-7 px-2 cursor-pointer select-none ${column.numeric ? "text-right" : ""}`}
+                          onClick={() => toggleSort(column.key)}
+                          data-testid={`cohort-sort-${column.key}`}
+                        >
+                          <span className="inline-flex items-center gap-1">
+                            {column.label}
+                            {sort.key === column.key && (sort.direction === 1 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                          </span>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sorted.slice(0, MAX_TABLE_ROWS).map((point) => (
+                      <TableRow key={point.id} className="cursor-pointer" onClick={() => focusEnterprise(point.id)}>
+                        <TableCell className="py-1 px-2 truncate max-w-[220px]" title={point.name}>{point.name}</TableCell>
+                        <TableCell className="py-1 px-2 font-mono">{point.taxcode || "—"}</TableCell>
+                        <TableCell className="py-1 px-2">{point.yearreport || "—"}</TableCell>
+                        <TableCell className="py-1 px-2 text-right">{point.cluster}</TableCell>
+                        <TableCell className="py-1 px-2 truncate max-w-[180px]" title={point.sectorName}>{point.sectorName || "—"}</TableCell>
+                        <TableCell className="py-1 px-2 text-right">{point.employees?.toLocaleString() ?? "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {sorted.length > MAX_TABLE_ROWS && (
+                <p className="text-muted-foreground">
+                  Showing {MAX_TABLE_ROWS} of {sorted.length.toLocaleString()} enterprises; the CSV export has all of them.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
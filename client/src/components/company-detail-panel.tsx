@@ -0,0 +1,70 @@
+import { useMemo } from "react";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { findEnterprise } from "@/lib/company-search";
+import { formatQualityValue, isStdRatioColumn } from "@/lib/data-quality";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { X } from "lucide-react";
+
+/**
+ * Cluster, sector and every STD_RTD feature of the enterprise picked in company search
+ */
+export default function CompanyDetailPanel() {
+  const { results, focusedEnterpriseId, focusEnterprise } = useClusteringStore();
+  const clusterResult = results?.clusterResult ?? null;
+  const point = useMemo(() => findEnterprise(clusterResult, focusedEnterpriseId), [clusterResult, focusedEnterpriseId]);
+  if (!point) return null;
+
+  const features = Object.entries(point.row)
+    .filter(([column]) => isStdRatioColumn(column))
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+
+  return (
+    <Card className="w-full" data-testid="company-detail-panel">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-start justify-between gap-2 text-base">
+          <span className="truncate" title={point.name}>{point.name}</span>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => focusEnterprise(null)} data-testid="button-close-company-detail">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+          <span className="text-muted-foreground">Taxcode</span>
+          <span className="font-mono">{point.taxcode || "—"}</span>
+          <span className="text-muted-foreground">Report year</span>
+          <span>{point.yearreport || "—"}</span>
+          <span className="text-muted-foreground">Cluster</span>
+          <span data-testid="company-detail-cluster">{point.cluster}</span>
+          <span className="text-muted-foreground">Sector</span>
+          <span className="truncate" title={point.sectorName}>{point.sectorName || "—"}</span>
+          <span className="text-muted-foreground">Sector ID</span>
+          <span className="font-mono">{point.sectorId || "—"}</span>
+          <span className="text-muted-foreground">Employees</span>
+          <span>{point.employees?.toLocaleString() ?? "—"}</span>
+        </div>
+
+        {features.length > 0 ? (
+          <div className="max-h-64 overflow-y-auto border rounded">
+            <Table>
+              <TableBody>
+                {features.map(([column, value]) => (
+                  <TableRow key={column}>
+                    <TableCell className="py-1 px-2 font-mono text-xs">{column}</TableCell>
+                    <TableCell className="py-1 px-2 text-right text-xs">
+                      {typeof value === "number" && Number.isFinite(value) ? formatQualityValue(value) : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">The result carries no STD_RTD features for this company.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
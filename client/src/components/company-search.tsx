@@ -0,0 +1,73 @@
+import { useMemo, useState } from "react";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { searchEnterprises } from "@/lib/company-search";
+import { Input } from "@/components/ui/input";
+import { Search } from "lucide-react";
+
+/**
+ * Find an enterprise of the current result by name or taxcode; picking one
+ * focuses it in every plot and opens its detail panel
+ */
+export default function CompanySearch() {
+  const { results, focusEnterprise } = useClusteringStore();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const clusterResult = results?.clusterResult ?? null;
+  const matches = useMemo(
+    () => (clusterResult && query.trim() ? searchEnterprises(clusterResult, query, 10) : []),
+    [clusterResult, query],
+  );
+
+  if (!clusterResult) return null;
+
+  const pick = (id: string) => {
+    focusEnterprise(id);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative w-72" data-testid="company-search">
+      <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        className="h-8 pl-8 text-sm"
+        placeholder="Find a company (name or taxcode)"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delay so a click on a match lands before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && matches.length > 0) pick(matches[0].point.id);
+          if (e.key === "Escape") setOpen(false);
+        }}
+        data-testid="input-company-search"
+      />
+      {open && query.trim() && (
+        <div className="absolute z-50 mt-1 w-full max-h-80 overflow-y-auto rounded-md border bg-popover shadow-md text-sm">
+          {matches.length === 0 ? (
+            <div className="px-3 py-2 text-muted-foreground">No matching companies</div>
+          ) : (
+            matches.map(({ point }) => (
+              <button
+                key={point.id}
+                type="button"
+                className="w-full text-left px-3 py-1.5 hover:bg-accent"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pick(point.id)}
+                data-testid={`company-match-${point.id}`}
+              >
+                <div className="truncate">{point.name}</div>
+                <div className="text-xs text-muted-foreground font-mono">
+                  {point.taxcode || "—"}{point.yearreport && ` · ${point.yearreport}`} · Cluster {point.cluster}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
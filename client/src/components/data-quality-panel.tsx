@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { formatQualityValue, isStdRatioColumn, type ColumnQuality, type QualityFlag } from "@/lib/data-quality";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShieldAlert } from "lucide-react";
+
+const flagLabels: Record<QualityFlag, string> = {
+  empty: "empty",
+  high_nulls: "nulls",
+  infinite: "inf",
+  outliers: "outliers",
+  constant: "constant",
+  mixed_types: "mixed",
+};
+
+function percent(count: number, total: number): string {
+  return total > 0 ? `${((count / total) * 100).toFixed(1)}%` : "-";
+}
+
+// Bars of a column's histogram, scaled to the fullest bin
+function Distribution({ quality }: { quality: ColumnQuality }) {
+  if (!quality.histogram) return null;
+  const { from, to, counts } = quality.histogram;
+  const peak = Math.max(1, ...counts);
+
+  return (
+    <div className="space-y-0.5" data-testid={`distribution-${quality.column}`}>
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{quality.column}</span>
+        {quality.outliers > 0 && (
+          <span className="text-orange-600">+{quality.outliers} outside</span>
+        )}
+      </div>
+      <div className="flex items-end h-6 gap-px">
+        {counts.map((count, i) => (
+          <div
+            key={i}
+            className="flex-1 bg-primary/60 rounded-sm"
+            style={{ height: `${Math.max(count > 0 ? 8 : 0, (count / peak) * 100)}%` }}
+            title={count.toLocaleString()}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-muted-foreground">
+        <span>{formatQualityValue(from)}</span>
+        <span>{formatQualityValue(to)}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Column checks of the info file before a run: null rates, infinities, extreme
+ * outliers, constant columns and the distribution of the STD_RTD features.
+ * Flagged columns can be excluded from the run.
+ */
+export default function DataQualityPanel() {
+  const { dataQuality, parameters, isRunning, setColumnExcluded, excludeFlaggedColumns } = useClusteringStore();
+  const [showAll, setShowAll] = useState(false);
+
+  if (!dataQuality) return null;
+
+  const excluded = new Set(parameters.exclude_columns ?? []);
+  const flagged = dataQuality.columns.filter((column) => column.flags.length > 0);
+  const rows = showAll ? dataQuality.columns : flagged;
+  const stdColumns = dataQuality.columns.filter((column) => isStdRatioColumn(column.column) && column.histogram);
+  const unexcludedFlags = flagged.filter((column) => column.kind === "numeric" && !excluded.has(column.column));
+
+  return (
+    <div className="space-y-3" data-testid="data-quality-panel">
+      <h3 className="text-sm font-medium text-foreground flex items-center gap-2">
+        <ShieldAlert className="h-4 w-4" />
+        Data Quality
+        <Badge
+          variant={flagged.length > 0 ? "destructive" : "secondary"}
+          className={flagged.length === 0 ? "bg-green-100 text-green-800" : undefined}
+        >
+          {flagged.length} / {dataQuality.columns.length} flagged
+        </Badge>
+      </h3>
+
+      <Card className="p-3 space-y-3 text-xs">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center space-x-2">
+            <Switch id="quality-show-all" checked={showAll} onCheckedChange={setShowAll} data-testid="switch-quality-show-all" />
+            <Label htmlFor="quality-show-all" className="text-xs">All columns</Label>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={excludeFlaggedColumns}
+            disabled={isRunning || unexcludedFlags.length === 0}
+            data-testid="button-exclude-flagged"
+          >
+            Exclude flagged ({unexcludedFlags.length})
+          </Button>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-muted-foreground">No problems found in {dataQuality.rowCount.toLocaleString()} rows.</p>
+        ) : (
+          <div className="max-h-64 overflow-auto border rounded">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-7 px-2">Use</TableHead>
+                  <TableHead className="h-7 px-2">Column</TableHead>
+                  <TableHead className="h-7 px-2 text-right">Null</TableHead>
+                  <TableHead className="h-7 px-2">Range</TableHead>
+                  <TableHead className="h-7 px-2">Flags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((column) => (
+                  <TableRow key={column.column} data-testid={`quality-row-${column.column}`}>
+                    <TableCell className="py-1 px-2">
+                      <Checkbox
+                        checked={!excluded.has(column.column)}
+                        onCheckedChange={(checked) => setColumnExcluded(column.column, checked !== true)}
+                        disabled={isRunning || column.kind !== "numeric"}
+                        aria-label={`Use ${column.column}`}
+                      />
+                    </TableCell>
+                    <TableCell className={`py-1 px-2 font-mono ${excluded.has(column.column) ? "line-through text-muted-foreground" : ""}`}>
+                      {column.column}
+                    </TableCell>
+                    <TableCell className="py-1 px-2 text-right">{percent(column.nulls, dataQuality.rowCount)}</TableCell>
+                    <TableCell className="py-1 px-2 whitespace-nowrap">
+                      {column.summary
+                        ? `${formatQualityValue(column.summary.min)} … ${formatQualityValue(column.summary.max)}`
+                        : column.kind}
+                    </TableCell>
+                    <TableCell className="py-1 px-2">
+                      <div className="flex flex-wrap gap-1">
+                        {column.flags.map((flag) => (
+                          <Badge key={flag} variant="outline" className="font-normal text-[10px] px-1 py-0">
+                            {flagLabels[flag]}
+                            {flag === "infinite" && ` ${column.infinite}`}
+                            {flag === "outliers" && ` ${column.outliers}`}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {stdColumns.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-xs">STD_RTD distributions (between the outlier fences)</Label>
+            <div className="grid grid-cols-2 gap-3 max-h-72 overflow-y-auto pr-1">
+              {stdColumns.map((column) => (
+                <Distribution key={column.column} quality={column} />
+              ))}
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
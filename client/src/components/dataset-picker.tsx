@@ -0,0 +1,147 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Database, Trash2, Upload, X } from "lucide-react";
+import type { Dataset } from "@shared/schema";
+
+export default function DatasetPicker() {
+  const { datasetId, setDatasetId, embeddingsFile, infoFile } = useClusteringStore();
+  const { toast } = useToast();
+
+  const { data: datasets = [], isLoading } = useQuery<Dataset[]>({
+    queryKey: ["/api/datasets"],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const body: Record<string, unknown> = {
+        name: infoFile?.name ?? embeddingsFile?.name,
+      };
+      if (infoFile) {
+        body.info = { name: infoFile.name, type: infoFile.type || "text/csv", content: await infoFile.text() };
+      }
+      if (embeddingsFile) {
+        body.embeddings = { name: embeddingsFile.name, type: embeddingsFile.type || "text/csv", content: await embeddingsFile.text() };
+      }
+      const res = await apiRequest("POST", "/api/datasets", body);
+      return (await res.json()) as Dataset;
+    },
+    onSuccess: (dataset) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/datasets"] });
+      setDatasetId(dataset.dataset_id);
+      toast({
+        title: "Dataset Saved",
+        description: `${dataset.name} is stored on the server and selected for the next run`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Unknown upload error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/datasets/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/datasets"] });
+      if (datasetId === id) setDatasetId(null);
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-foreground">Stored Datasets</h3>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => uploadMutation.mutate()}
+          disabled={(!infoFile && !embeddingsFile) || uploadMutation.isPending}
+          title="Save the current upload on the server"
+          data-testid="button-save-dataset"
+        >
+          <Upload className="h-4 w-4 mr-1" />
+          Save upload
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-muted-foreground">Loading datasets...</p>
+      ) : datasets.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No stored datasets yet</p>
+      ) : (
+        <div className="space-y-2 max-h-48 overflow-y-auto" data-testid="dataset-list">
+          {datasets.map((dataset) => {
+            const selected = dataset.dataset_id === datasetId;
+            const rows = dataset.files.info?.rowCount ?? dataset.files.embeddings?.rowCount ?? 0;
+            return (
+              <Card
+                key={dataset.dataset_id}
+                className={`p-2 flex items-center justify-between cursor-pointer ${
+                  selected ? "border-primary bg-blue-50" : "hover:border-primary"
+                }`}
+                onClick={() => setDatasetId(selected ? null : dataset.dataset_id)}
+                data-testid={`dataset-${dataset.dataset_id}`}
+              >
+                <div className="flex items-center space-x-2 min-w-0">
+                  <Database className={`h-4 w-4 flex-shrink-0 ${selected ? "text-primary" : "text-muted-foreground"}`} />
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{dataset.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {rows.toLocaleString()} rows • {new Date(dataset.createdAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  {dataset.files.embeddings && <Badge variant="secondary">emb</Badge>}
+                  {dataset.files.info && <Badge variant="secondary">info</Badge>}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="p-1 h-auto text-muted-foreground hover:text-red-600"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteMutation.mutate(dataset.dataset_id);
+                    }}
+                    title="Delete dataset"
+                    data-testid={`button-delete-dataset-${dataset.dataset_id}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {datasetId && (
+        <div className="flex items-center justify-between text-xs text-blue-700">
+          <span>Next run uses the selected stored dataset (local engine)</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="p-1 h-auto"
+            onClick={() => setDatasetId(null)}
+            data-testid="button-clear-dataset"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
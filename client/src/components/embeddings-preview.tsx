@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from "react";
+import Plotly from "plotly.js-dist";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { runPCA, type PCAResult } from "@/lib/pca-worker";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { ScanEye, Square } from "lucide-react";
+
+export default function EmbeddingsPreview() {
+  const { embeddingsFile, fileMetadata } = useClusteringStore();
+  const numericColumns = embeddingsFile ? fileMetadata[embeddingsFile.name]?.numericColumns : undefined;
+  const plotRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [dimensions, setDimensions] = useState<2 | 3>(2);
+  const [projection, setProjection] = useState<PCAResult | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new file invalidates the previous projection and cancels a running one
+  useEffect(() => {
+    abortRef.current?.abort();
+    setProjection(null);
+    setError(null);
+  }, [embeddingsFile, numericColumns]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const computeProjection = async () => {
+    if (!embeddingsFile) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsComputing(true);
+    setError(null);
+
+    try {
+      console.log("🧮 Running PCA on embeddings:", embeddingsFile.name);
+      const result = await runPCA(embeddingsFile, { nComponents: dimensions, numericColumns, signal: controller.signal });
+      setProjection(result);
+      console.log("✅ PCA done on", result.ids.length, "rows, explained variance:", result.explainedVarianceRatio);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") {
+        console.log("⏹️ PCA cancelled");
+      } else {
+        console.error("❌ PCA failed:", err);
+        setError(err instanceof Error ? err.message : "PCA failed");
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsComputing(false);
+    }
+  };
+
+  const cancelProjection = () => abortRef.current?.abort();
+
+  useEffect(() => {
+    if (!plotRef.current || !projection) return;
+
+    const is3D = projection.coordinates[0]?.length === 3;
+    const trace = {
+      x: projection.coordinates.map(c => c[0]),
+      y: projection.coordinates.map(c => c[1]),
+      ...(is3D ? { z: projection.coordinates.map(c => c[2]) } : {}),
+      mode: 'markers' as const,
+      type: is3D ? 'scatter3d' as const : 'scatter' as const,
+      marker: { color: '#3498db', size: is3D ? 3 : 5, opacity: 0.7 },
+      text: projection.ids,
+      hovertemplate: '%{text}<extra></extra>',
+    };
+
+    const axis = (index: number) => ({
+      title: `PC${index + 1} (${((projection.explainedVarianceRatio[index] ?? 0) * 100).toFixed(1)}%)`,
+    });
+
+    const layout = {
+      margin: { l: 40, r: 10, t: 10, b: 40 },
+      height: 280,
+      showlegend: false,
+      ...(is3D
+        ? { scene: { xaxis: axis(0), yaxis: axis(1), zaxis: axis(2) } }
+        : { xaxis: axis(0), yaxis: axis(1) }),
+    };
+
+    Plotly.newPlot(plotRef.current, [trace], layout, { responsive: true, displaylogo: false });
+
+    const plot = plotRef.current;
+    return () => {
+      Plotly.purge(plot);
+    };
+  }, [projection]);
+
+  if (!embeddingsFile) return null;
+
+  const totalExplained = projection?.explainedVarianceRatio.reduce((sum, value) => sum + value, 0) ?? 0;
+
+  return (
+    <div className="space-y-3" data-testid="embeddings-preview">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-foreground">Embeddings Preview</h3>
+        <div className="flex gap-1">
+          {([2, 3] as const).map((dim) => (
+            <Button
+              key={dim}
+              variant={dimensions === dim ? "default" : "outline"}
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => setDimensions(dim)}
+              disabled={isComputing}
+              data-testid={`button-pca-${dim}d`}
+            >
+              {dim}D
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isComputing ? (
+        <Button variant="outline" size="sm" className="w-full" onClick={cancelProjection} data-testid="button-cancel-pca">
+          <Square className="h-4 w-4 mr-2" />
+          Cancel PCA
+        </Button>
+      ) : (
+        <Button variant="outline" size="sm" className="w-full" onClick={computeProjection} data-testid="button-run-pca">
+          <ScanEye className="h-4 w-4 mr-2" />
+          Project {embeddingsFile.name}
+        </Button>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {projection && (
+        <Card className="p-2 space-y-2">
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="secondary">{projection.ids.length.toLocaleString()} rows</Badge>
+            <Badge variant="secondary">{projection.dimensions} dims</Badge>
+            <Badge variant="secondary" data-testid="pca-explained-variance">
+              {(totalExplained * 100).toFixed(1)}% variance explained
+            </Badge>
+          </div>
+          <div ref={plotRef} className="w-full" />
+        </Card>
+      )}
+    </div>
+  );
+}
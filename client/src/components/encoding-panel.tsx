@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { useClusteringStore } from "@/lib/clustering-store";
+import {
+  ENCODING_CHANNELS,
+  describeChannel,
+  parseFormula,
+  type ChannelEncoding,
+  type EncodingChannel,
+  type EncodingScale,
+} from "@/lib/encodings";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Palette } from "lucide-react";
+
+const scaleLabels: Record<EncodingScale, string> = {
+  linear: "Linear",
+  log: "Log",
+  rank: "Rank",
+};
+
+// Source select values besides the column names
+const NONE = "__none__";
+const FORMULA = "__formula__";
+
+const noneLabels: Record<EncodingChannel, string> = {
+  z: "Flat",
+  size: "Constant",
+  opacity: "Constant",
+  color: "Cluster",
+};
+
+function sourceOf(encoding: ChannelEncoding): string {
+  if (encoding.terms.length === 0) return NONE;
+  const [term] = encoding.terms;
+  return encoding.terms.length === 1 && term.weight === 1 ? term.column : FORMULA;
+}
+
+function formulaText(encoding: ChannelEncoding): string {
+  return encoding.terms.map(({ column, weight }) => `${weight}*${column}`).join(" + ").replace(/\+ -/g, "- ");
+}
+
+function ChannelRow({ channel, label, columns }: { channel: EncodingChannel; label: string; columns: string[] }) {
+  const { encoding, setEncoding } = useClusteringStore();
+  const current = encoding[channel];
+  const [formula, setFormula] = useState(formulaText(current));
+  const [formulaMode, setFormulaMode] = useState(sourceOf(current) === FORMULA);
+  const [errors, setErrors] = useState<string[]>([]);
+  const source = formulaMode ? FORMULA : sourceOf(current);
+
+  // Follow resets and other outside changes
+  useEffect(() => {
+    setFormula(formulaText(current));
+    setFormulaMode(sourceOf(current) === FORMULA);
+  }, [current]);
+
+  const setSource = (value: string) => {
+    setErrors([]);
+    setFormulaMode(value === FORMULA);
+    if (value === NONE) setEncoding(channel, { ...current, terms: [] });
+    else if (value !== FORMULA) setEncoding(channel, { ...current, terms: [{ column: value, weight: 1 }] });
+  };
+
+  const applyFormula = () => {
+    const parsed = parseFormula(formula, columns);
+    setErrors(parsed.errors);
+    if (parsed.errors.length === 0 && parsed.terms.length > 0) setEncoding(channel, { ...current, terms: parsed.terms });
+  };
+
+  return (
+    <div className="space-y-1" data-testid={`encoding-${channel}`}>
+      <Label className="text-xs">{label}</Label>
+      <div className="flex gap-2">
+        <Select value={source} onValueChange={setSource}>
+          <SelectTrigger className="h-8 text-xs flex-1 min-w-0" data-testid={`select-encoding-${channel}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>{noneLabels[channel]}</SelectItem>
+            <SelectItem value={FORMULA}>Weighted formula…</SelectItem>
+            {columns.map((column) => (
+              <SelectItem key={column} value={column}>{column}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={current.scale}
+          onValueChange={(value) => setEncoding(channel, { ...current, scale: value as EncodingScale })}
+          disabled={current.terms.length === 0}
+        >
+          <SelectTrigger className="h-8 text-xs w-24" data-testid={`select-encoding-${channel}-scale`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(scaleLabels).map(([value, scaleLabel]) => (
+              <SelectItem key={value} value={value}>{scaleLabel}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {source === FORMULA && (
+        <Input
+          className="h-7 text-xs font-mono"
+          placeholder="0.3*s_DT_TTM + 0.1*s_EMPL"
+          value={formula}
+          onChange={(e) => setFormula(e.target.value)}
+          onBlur={applyFormula}
+          onKeyDown={(e) => e.key === "Enter" && applyFormula()}
+          data-testid={`input-encoding-${channel}-formula`}
+        />
+      )}
+      {errors.length > 0 ? (
+        <p className="text-xs text-destructive">{errors.join("; ")}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground font-mono truncate" title={describeChannel(channel, current)}>
+          {describeChannel(channel, current)}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Which numeric enterprise fields (or weighted formulas of them) drive Z,
+ * marker size, opacity and colour in the 3D cluster space
+ */
+export default function EncodingPanel({ columns }: { columns: string[] }) {
+  const resetEncoding = useClusteringStore((state) => state.resetEncoding);
+
+  return (
+    <Card className="p-3 space-y-3" data-testid="encoding-panel">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-foreground flex items-center gap-2">
+          <Palette className="h-4 w-4" />
+          Encodings
+        </h3>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={resetEncoding} data-testid="button-reset-encoding">
+          Reset
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-3">
+        {ENCODING_CHANNELS.map(({ id, label }) => (
+          <ChannelRow key={id} channel={id} label={label} columns={columns} />
+        ))}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useClusteringStore } from "@/lib/clustering-store";
+import {
+  FEATURE_PRESETS,
+  describeFeatureSet,
+  featureCandidates,
+  redundantFeatures,
+  type CorrelatedPair,
+} from "@/lib/feature-selection";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ListChecks } from "lucide-react";
+
+// Strongest correlation of `column` with another selected column
+function redundancyHint(column: string, selected: Set<string>, pairs: CorrelatedPair[]): CorrelatedPair | undefined {
+  return pairs.find(({ a, b }) => (a === column && selected.has(b)) || (b === column && selected.has(a)));
+}
+
+/**
+ * Which numeric info columns feed the clustering, with presets, hints about
+ * strongly correlated (redundant) features and a weight per feature
+ */
+export default function FeaturePicker() {
+  const { parameters, infoFile, fileMetadata, featureCorrelations, isRunning, updateParameters } = useClusteringStore();
+  const [filter, setFilter] = useState("");
+
+  const metadata = infoFile ? fileMetadata[infoFile.name] : undefined;
+  // Without an info file, a selection loaded from a past run can still be edited
+  const candidates = metadata ? featureCandidates(metadata) : parameters.feature_columns ?? [];
+  if (candidates.length === 0) return null;
+
+  const excluded = new Set(parameters.exclude_columns ?? []);
+  const selected = new Set(parameters.feature_columns ?? candidates);
+  const usable = (column: string) => selected.has(column) && !excluded.has(column);
+  const inUse = candidates.filter(usable);
+  const inUseSet = new Set(inUse);
+  const weights = parameters.feature_weights ?? {};
+  const redundant = redundantFeatures(inUse, featureCorrelations);
+  const visible = candidates.filter((column) => column.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  // Selecting every candidate is stored as "all numeric columns"
+  const setSelection = (columns: string[]) => {
+    const next = new Set(columns);
+    const all = candidates.every((column) => next.has(column));
+    updateParameters({ feature_columns: all ? undefined : candidates.filter((column) => next.has(column)) });
+  };
+
+  const toggle = (column: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(column);
+    else next.delete(column);
+    setSelection(Array.from(next));
+  };
+
+  const setWeight = (column: string, text: string) => {
+    const value = text.trim() === "" ? 1 : Number(text);
+    const { [column]: _previous, ...rest } = weights;
+    const next = Number.isFinite(value) && value !== 1 ? { ...rest, [column]: Math.min(10, Math.max(0, value)) } : rest;
+    updateParameters({ feature_weights: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="space-y-3" data-testid="feature-picker">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-foreground flex items-center gap-2">
+          <ListChecks className="h-4 w-4" />
+          Features
+          <Badge variant="secondary">{inUse.length} / {candidates.length}</Badge>
+        </h3>
+        <span className="text-xs text-muted-foreground font-mono" data-testid="feature-set-label">
+          {describeFeatureSet(parameters)}
+        </span>
+      </div>
+
+      <Card className="p-3 space-y-3 text-xs">
+        <div className="flex flex-wrap gap-1">
+          {FEATURE_PRESETS.map((preset) => {
+            const columns = candidates.filter(preset.matches);
+            return (
+              <Button
+                key={preset.id}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setSelection(columns)}
+                disabled={isRunning || columns.length === 0}
+                data-testid={`button-feature-preset-${preset.id}`}
+              >
+                {preset.label} ({columns.length})
+              </Button>
+            );
+          })}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setSelection(candidates.filter((column) => selected.has(column) && !redundant.includes(column)))}
+            disabled={isRunning || redundant.length === 0}
+            title={redundant.join(", ")}
+            data-testid="button-drop-redundant"
+          >
+            Drop redundant ({redundant.length})
+          </Button>
+        </div>
+
+        <Input
+          placeholder="Filter columns..."
+          className="h-7 text-xs"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          data-testid="input-feature-filter"
+        />
+
+        <div className="max-h-64 overflow-y-auto border rounded divide-y">
+          {visible.map((column) => {
+            const hint = usable(column) ? redundancyHint(column, inUseSet, featureCorrelations) : undefined;
+            const other = hint && (hint.a === column ? hint.b : hint.a);
+            return (
+              <div key={column} className="flex items-center gap-2 px-2 py-1" data-testid={`feature-row-${column}`}>
+                <Checkbox
+                  checked={usable(column)}
+                  onCheckedChange={(checked) => toggle(column, checked === true)}
+                  disabled={isRunning || excluded.has(column)}
+                  aria-label={`Use ${column}`}
+                />
+                <span className={`font-mono flex-1 truncate ${usable(column) ? "" : "line-through text-muted-foreground"}`}>
+                  {column}
+                </span>
+                {excluded.has(column) && <span className="text-muted-foreground">excluded</span>}
+                {hint && (
+                  <span className="text-orange-600 truncate" title={`r = ${hint.r.toFixed(3)} over ${hint.n.toLocaleString()} rows`}>
+                    ≈ {other} ({hint.r.toFixed(2)})
+                  </span>
+                )}
+                <Input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  className="h-6 w-16 text-xs"
+                  value={weights[column] ?? 1}
+                  onChange={(e) => setWeight(column, e.target.value)}
+                  disabled={isRunning || !usable(column)}
+                  aria-label={`Weight of ${column}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+    </div>
+  );
+}
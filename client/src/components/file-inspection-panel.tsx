@@ -0,0 +1,107 @@
+import { useClusteringStore } from "@/lib/clustering-store";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { FileMetadata } from "@shared/schema";
+
+const delimiterOptions = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+];
+
+// Rows shown in the preview grid
+const PREVIEW_ROWS = 5;
+
+interface FileInspectionPanelProps {
+  type: "embeddings" | "info";
+  metadata: FileMetadata;
+}
+
+export default function FileInspectionPanel({ type, metadata }: FileInspectionPanelProps) {
+  const { reparseFile, setColumnType, isRunning } = useClusteringStore();
+  const numeric = new Set(metadata.numericColumns);
+
+  return (
+    <div className="space-y-3 text-xs" data-testid={`file-inspection-${type}`}>
+      <div className="grid grid-cols-2 gap-2 items-end">
+        <div className="space-y-1">
+          <Label className="text-xs">Delimiter</Label>
+          <Select
+            value={metadata.delimiter}
+            onValueChange={(delimiter) => reparseFile(type, { delimiter })}
+            disabled={isRunning}
+          >
+            <SelectTrigger className="h-8" data-testid={`select-delimiter-${type}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {delimiterOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center space-x-2 h-8">
+          <Switch
+            id={`header-${type}`}
+            checked={metadata.hasHeader}
+            onCheckedChange={(hasHeader) => reparseFile(type, { hasHeader })}
+            disabled={isRunning}
+            data-testid={`switch-header-${type}`}
+          />
+          <Label htmlFor={`header-${type}`} className="text-xs">First row is header</Label>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">
+          Columns ({metadata.numericColumns.length} numeric / {metadata.columnCount})
+        </Label>
+        <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+          {metadata.columns.map((column) => (
+            <Badge
+              key={column}
+              variant={numeric.has(column) ? "secondary" : "outline"}
+              className="cursor-pointer font-normal"
+              onClick={() => setColumnType(type, column, !numeric.has(column))}
+              title={`Mark as ${numeric.has(column) ? "text" : "numeric"}`}
+              data-testid={`column-type-${type}-${column}`}
+            >
+              {column}
+              <span className="ml-1 text-muted-foreground">{numeric.has(column) ? "123" : "abc"}</span>
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      {metadata.preview.length > 0 && (
+        <div className="overflow-x-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {metadata.columns.map((column) => (
+                  <TableHead key={column} className="h-7 px-2 text-xs whitespace-nowrap">{column}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {metadata.preview.slice(0, PREVIEW_ROWS).map((row, index) => (
+                <TableRow key={index}>
+                  {metadata.columns.map((column) => (
+                    <TableCell key={column} className="py-1 px-2 text-xs whitespace-nowrap max-w-[10rem] truncate">
+                      {row[column] === null || row[column] === undefined ? "" : String(row[column])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
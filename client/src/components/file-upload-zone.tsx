@@ -3,6 +3,7 @@ import { useDropzone } from "react-dropzone";
 import { useClusteringStore } from "@/lib/clustering-store";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import FileInspectionPanel from "@/components/file-inspection-panel";
 import { CloudUpload, Database, FileText, CheckCircle } from "lucide-react";
 
 interface FileUploadZoneProps {
@@ -14,15 +15,10 @@ interface FileUploadZoneProps {
 }
 
 export default function FileUploadZone({ type, title, description, icon, "data-testid": testId }: FileUploadZoneProps) {
-  // Don't render anything for embeddings type
-  if (type === "embeddings") {
-    return null;
-  }
-
   const { embeddingsFile, infoFile, uploadFile, fileMetadata } = useClusteringStore();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   
-  const currentFile = infoFile;
+  const currentFile = type === "embeddings" ? embeddingsFile : infoFile;
   const currentMetadata = currentFile ? fileMetadata[currentFile.name] : null;
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -109,6 +105,9 @@ export default function FileUploadZone({ type, title, description, icon, "data-t
               )}
             </div>
           </div>
+          <div className="mt-3">
+            <FileInspectionPanel type={type} metadata={currentMetadata} />
+          </div>
         </Card>
       )}
     </div>
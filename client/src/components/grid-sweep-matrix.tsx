@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { GridSweepCell } from "@shared/schema";
+
+const metricOptions = [
+  { key: "silhouette", label: "Silhouette", digits: 3, higherIsBetter: true },
+  { key: "calinski_harabasz", label: "Calinski-Harabasz", digits: 1, higherIsBetter: true },
+  { key: "davies_bouldin", label: "Davies-Bouldin", digits: 3, higherIsBetter: false },
+  { key: "inertia", label: "Inertia", digits: 1, higherIsBetter: false },
+] as const;
+
+type MetricKey = (typeof metricOptions)[number]["key"];
+
+export default function GridSweepMatrix() {
+  const { gridSweep, parameters, selectedK, results, isRunning, openSweepCell } = useClusteringStore();
+  const [metric, setMetric] = useState<MetricKey>("silhouette");
+
+  if (!gridSweep) {
+    return <div className="text-center text-muted-foreground p-8">Run a grid sweep to compare λ × k</div>;
+  }
+
+  const option = metricOptions.find(o => o.key === metric)!;
+  const cellAt = (lambda: number, k: number): GridSweepCell | undefined =>
+    gridSweep.cells.find(cell => cell.lambda === lambda && cell.k === k);
+
+  // Heatmap shading relative to the best and worst cell for the chosen metric
+  const values = gridSweep.cells.map(cell => cell[metric]).filter((v): v is number => v !== null);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const shade = (value: number | null) => {
+    if (value === null || high === low) return undefined;
+    const score = (value - low) / (high - low);
+    const goodness = option.higherIsBetter ? score : 1 - score;
+    return `rgba(46, 204, 113, ${(0.1 + goodness * 0.5).toFixed(2)})`;
+  };
+
+  // The cell currently loaded into the results views
+  const openLambda = results?.clusterResult?.lambda ?? parameters.lambda;
+  const openK = selectedK ?? results?.clusterResult?.best_k;
+
+  return (
+    <Card data-testid="grid-sweep-matrix">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center justify-between">
+          <span>Grid Sweep: λ × k</span>
+          <div className="flex items-center gap-2">
+            {gridSweep.best && (
+              <Badge variant="secondary" data-testid="grid-sweep-best">
+                best λ={gridSweep.best.lambda}, k={gridSweep.best.k}
+              </Badge>
+            )}
+            <Select value={metric} onValueChange={(value) => setMetric(value as MetricKey)}>
+              <SelectTrigger className="w-44 h-8" data-testid="select-grid-metric">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {metricOptions.map(o => (
+                  <SelectItem key={o.key} value={o.key}>{o.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>λ \ k</TableHead>
+              {gridSweep.k_values.map(k => (
+                <TableHead key={k} className="text-center">{k}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {gridSweep.lambda_values.map(lambda => (
+              <TableRow key={lambda}>
+                <TableCell className="font-medium">{lambda}</TableCell>
+                {gridSweep.k_values.map(k => {
+                  const value = cellAt(lambda, k)?.[metric] ?? null;
+                  const isBest = gridSweep.best?.lambda === lambda && gridSweep.best?.k === k;
+                  const isOpen = openLambda === lambda && openK === k;
+                  return (
+                    <TableCell
+                      key={k}
+                      className={`text-center cursor-pointer hover:outline hover:outline-1 hover:outline-blue-400 ${
+                        isOpen ? "outline outline-2 outline-blue-600" : ""
+                      } ${isBest ? "font-bold" : ""}`}
+                      style={{ backgroundColor: shade(value) }}
+                      onClick={() => !isRunning && openSweepCell(lambda, k)}
+                      title={`Open λ=${lambda}, k=${k}`}
+                      data-testid={`grid-cell-${lambda}-${k}`}
+                    >
+                      {value !== null ? value.toFixed(option.digits) : "—"}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground mt-2">
+          {option.higherIsBetter ? "Higher" : "Lower"} is better. Click a cell to load it into the other views.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { parseFile, parseRows, validateIdMapping, type IdMappingReport } from "@/lib/file-parser";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link2, Loader2 } from "lucide-react";
+
+// Preferred id columns, in order, when the user has not picked one
+const ID_CANDIDATES = ["id", "taxcode", "Unnamed: 0"];
+
+function defaultIdColumn(columns: string[]): string | null {
+  return ID_CANDIDATES.find(column => columns.includes(column)) ?? columns[0] ?? null;
+}
+
+export default function IdJoinPanel() {
+  const { embeddingsFile, infoFile, idColumns, setIdColumn } = useClusteringStore();
+  const [columns, setColumns] = useState<{ embeddings: string[]; info: string[] }>({ embeddings: [], info: [] });
+  const [report, setReport] = useState<IdMappingReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read the headers of both files and preselect an id column in each
+  useEffect(() => {
+    if (!embeddingsFile || !infoFile) return;
+    let cancelled = false;
+
+    Promise.all([parseFile(embeddingsFile), parseFile(infoFile)])
+      .then(([embeddingsMeta, infoMeta]) => {
+        if (cancelled) return;
+        setColumns({ embeddings: embeddingsMeta.columns, info: infoMeta.columns });
+        const state = useClusteringStore.getState();
+        if (!state.idColumns.embeddings || !embeddingsMeta.columns.includes(state.idColumns.embeddings)) {
+          setIdColumn("embeddings", defaultIdColumn(embeddingsMeta.columns));
+        }
+        if (!state.idColumns.info || !infoMeta.columns.includes(state.idColumns.info)) {
+          setIdColumn("info", defaultIdColumn(infoMeta.columns));
+        }
+      })
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : "Failed to read files"));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [embeddingsFile, infoFile, setIdColumn]);
+
+  // Match report for the selected columns
+  useEffect(() => {
+    if (!embeddingsFile || !infoFile || !idColumns.embeddings || !idColumns.info) return;
+    let cancelled = false;
+    setIsChecking(true);
+    setError(null);
+
+    Promise.all([parseRows(embeddingsFile), parseRows(infoFile)])
+      .then(([embeddingsRows, infoRows]) => {
+        if (cancelled) return;
+        const mapping = validateIdMapping(embeddingsRows, infoRows, idColumns.embeddings!, idColumns.info!);
+        setReport(mapping);
+        console.log("🔗 Id mapping:", mapping);
+      })
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : "Failed to check ids"))
+      .finally(() => !cancelled && setIsChecking(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [embeddingsFile, infoFile, idColumns.embeddings, idColumns.info]);
+
+  if (!embeddingsFile || !infoFile) return null;
+
+  const quality = !report ? null : report.percentage >= 95 ? "good" : report.percentage >= 50 ? "partial" : "poor";
+
+  return (
+    <div className="space-y-3" data-testid="id-join-panel">
+      <h3 className="text-sm font-medium text-foreground flex items-center gap-2">
+        <Link2 className="h-4 w-4" />
+        Join Embeddings ↔ Info
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        {(["embeddings", "info"] as const).map((kind) => (
+          <div key={kind} className="space-y-1">
+            <Label className="text-xs">{kind === "embeddings" ? "Embeddings id" : "Info id"}</Label>
+            <Select
+              value={idColumns[kind] ?? undefined}
+              onValueChange={(value) => setIdColumn(kind, value)}
+            >
+              <SelectTrigger className="h-8" data-testid={`select-id-column-${kind}`}>
+                <SelectValue placeholder="Column" />
+              </SelectTrigger>
+              <SelectContent>
+                {columns[kind].map((column) => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {isChecking ? (
+        <div className="flex items-center text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin mr-1" />
+          Matching ids...
+        </div>
+      ) : report && (
+        <Card className="p-3 space-y-2 text-xs" data-testid="id-match-report">
+          <div className="flex items-center justify-between">
+            <span className="font-medium">
+              {report.matched.toLocaleString()} / {report.total.toLocaleString()} ids matched
+            </span>
+            <Badge
+              variant={quality === "poor" ? "destructive" : "secondary"}
+              className={quality === "good" ? "bg-green-100 text-green-800" : quality === "partial" ? "bg-yellow-100 text-yellow-800" : undefined}
+            >
+              {report.percentage.toFixed(1)}%
+            </Badge>
+          </div>
+          <Progress value={report.percentage} className="h-1.5" />
+          <div className="text-muted-foreground space-y-0.5">
+            <div>Only in embeddings: {report.embeddingsOnly.toLocaleString()}</div>
+            <div>Only in info: {report.infoOnly.toLocaleString()}</div>
+            {(report.duplicateEmbeddings > 0 || report.duplicateInfo > 0) && (
+              <div className="text-orange-600">
+                Duplicate ids: {report.duplicateEmbeddings.toLocaleString()} in embeddings, {report.duplicateInfo.toLocaleString()} in info
+              </div>
+            )}
+          </div>
+          {quality === "poor" && (
+            <p className="text-red-600">Few ids match; check that the selected columns hold the same identifiers.</p>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
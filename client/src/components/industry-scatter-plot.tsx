@@ -1,9 +1,13 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import Plotly from 'plotly.js-dist';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Download, FileImage, Maximize, Move, ZoomIn, Lasso, Square } from "lucide-react";
 import Papa from 'papaparse';
+import { useClusteringStore } from "@/lib/clustering-store";
+import { findEnterprise } from "@/lib/company-search";
+import { focusSpan } from "@/lib/plot-focus";
+import { usePlotFocus } from "@/hooks/use-plot-focus";
 
 interface IndustryDataPoint {
   sector_code: string;
@@ -33,6 +37,17 @@ export default function IndustryScatterPlot({
   const [isFullscreen, setIsFullscreen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Company picked in search: centre on its sector and pulse a ring around it
+  const { results, focusedEnterpriseId } = useClusteringStore();
+  const focusedSector = useMemo(() => {
+    const focused = findEnterprise(results?.clusterResult, focusedEnterpriseId);
+    if (!focused?.sectorId) return undefined;
+    const sector = industryData.find(d => d.full_id === focused.sectorId || d.sector_code === focused.sectorId);
+    return sector && { x: sector.emb_x, y: sector.emb_y, label: focused.name };
+  }, [results, focusedEnterpriseId, industryData]);
+  const span = useMemo(() => focusSpan(industryData.map(d => ({ x: d.emb_x, y: d.emb_y }))), [industryData]);
+  usePlotFocus(plotRef, plotReady, focusedSector ?? null, span);
+
   // Load and parse industry data
   useEffect(() => {
     const loadIndustryData = async () => {
@@ -1,10 +1,14 @@
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import Plotly from 'plotly.js-dist';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Download, FileImage, Maximize } from "lucide-react";
 import { useClusteringStore } from "@/lib/clustering-store";
+import { enterprisePoints } from "@shared/enterprise-points";
+import { findEnterprise } from "@/lib/company-search";
+import { focusSpan } from "@/lib/plot-focus";
+import { usePlotFocus } from "@/hooks/use-plot-focus";
 
 interface VoronoiDataPoint {
   x: number;
@@ -30,7 +34,15 @@ export default function IndustryVoronoiDiagram({ height = 600 }: IndustryVoronoi
   const [error, setError] = useState<string | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
 
-  const { results: clusterResults } = useClusteringStore();
+  const { results: clusterResults, focusedEnterpriseId } = useClusteringStore();
+
+  // Company picked in search: centre on it and pulse a ring around it
+  const focused = useMemo(
+    () => findEnterprise(clusterResults?.clusterResult, focusedEnterpriseId),
+    [clusterResults, focusedEnterpriseId],
+  );
+  const span = useMemo(() => focusSpan(voronoiData), [voronoiData]);
+  usePlotFocus(plotRef, plotReady, focused?.located ? { x: focused.x, y: focused.y, label: focused.name } : null, span);
 
   // Vibrant color palette similar to the image
   const colorPalette = [
@@ -59,37 +71,26 @@ export default function IndustryVoronoiDiagram({ height = 600 }: IndustryVoronoi
           const sectorColorMap = new Map<string, string>();
           let colorIndex = 0;
 
-          clusterResults.clusterResult.companies.forEach((company: any) => {
-            if (company.enterprise && Array.isArray(company.enterprise)) {
-              company.enterprise.forEach((enterprise: any) => {
-                const sectorName = enterprise.sector_name || company.sector_name || 'Unknown';
-                const sectorUniqueId = enterprise.sector_unique_id?.toString() || 
-                                     company.sector_unique_id?.toString() || 
-                                     sectorName;
-
-                // Assign consistent color to each sector
-                if (!sectorColorMap.has(sectorName)) {
-                  sectorColorMap.set(sectorName, colorPalette[colorIndex % colorPalette.length]);
-                  colorIndex++;
-                }
-
-                // Only include enterprises with valid coordinates
-                if (enterprise.pca2_x !== undefined && 
-                    enterprise.pca2_y !== undefined &&
-                    !isNaN(enterprise.pca2_x) && 
-                    !isNaN(enterprise.pca2_y)) {
-                  
-                  enterprises.push({
-                    x: parseFloat(enterprise.pca2_x),
-                    y: parseFloat(enterprise.pca2_y),
-                    sector_name: sectorName,
-                    sector_unique_id: sectorUniqueId,
-                    enterprise_name: enterprise.name || 'Unknown Enterprise',
-                    taxcode: enterprise.taxcode || '',
-                    employees: parseInt(enterprise.empl_qtty || 0),
-                    color: sectorColorMap.get(sectorName)!
-                  });
-                }
+          enterprisePoints(clusterResults.clusterResult).forEach((point) => {
+            const sectorName = point.sectorName || 'Unknown';
+
+            // Assign consistent color to each sector
+            if (!sectorColorMap.has(sectorName)) {
+              sectorColorMap.set(sectorName, colorPalette[colorIndex % colorPalette.length]);
+              colorIndex++;
+            }
+
+            // Only include enterprises with valid coordinates
+            if (point.located) {
+              enterprises.push({
+                x: point.x,
+                y: point.y,
+                sector_name: sectorName,
+                sector_unique_id: point.sectorId || sectorName,
+                enterprise_name: point.name,
+                taxcode: point.taxcode,
+                employees: point.employees ?? 0,
+                color: sectorColorMap.get(sectorName)!
               });
             }
           });
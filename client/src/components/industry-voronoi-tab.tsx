@@ -1,10 +1,14 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import Plotly from 'plotly.js-dist';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Download, FileImage } from "lucide-react";
 import Papa from 'papaparse';
 import { useClusteringStore } from "@/lib/clustering-store";
+import { enterprisePoints, type EnterprisePoint } from "@shared/enterprise-points";
+import { findEnterprise } from "@/lib/company-search";
+import { focusSpan } from "@/lib/plot-focus";
+import { usePlotFocus } from "@/hooks/use-plot-focus";
 
 interface IndustryDataPoint {
   sector_code: string;
@@ -40,7 +44,19 @@ export default function IndustryVoronoiTab({
   const [highlightedSector, setHighlightedSector] = useState<string | null>(null);
 
   // Get clustering store to access current data
-  const { results: clusterResults } = useClusteringStore();
+  const { results: clusterResults, focusedEnterpriseId } = useClusteringStore();
+
+  // Company picked in search: centre on its sector and pulse a ring around it
+  const focusedSector = useMemo(() => {
+    const focused = findEnterprise(clusterResults?.clusterResult, focusedEnterpriseId);
+    if (!focused) return undefined;
+    const sector = industryData.find(d =>
+      d.labels === (focused.sectorName || 'Unknown') || (focused.sectorId !== '' && d.full_id === focused.sectorId)
+    );
+    return sector && { x: sector.emb_x, y: sector.emb_y, label: focused.name };
+  }, [clusterResults, focusedEnterpriseId, industryData]);
+  const span = useMemo(() => focusSpan(industryData.map(d => ({ x: d.emb_x, y: d.emb_y }))), [industryData]);
+  usePlotFocus(plotRef, plotReady, focusedSector ?? null, span);
 
   // Enhanced data loading with industry-based aggregation
   useEffect(() => {
@@ -57,7 +73,7 @@ export default function IndustryVoronoiTab({
           const sectorMap = new Map<string, {
             name: string;
             code: string;
-            enterprises: any[];
+            enterprises: EnterprisePoint[];
             x_sum: number;
             y_sum: number;
             count: number;
@@ -67,44 +83,36 @@ export default function IndustryVoronoiTab({
             employee_sum: number;
           }>();
 
-          // Collect ALL enterprises across all companies that have the same sector_name
-          clusterResults.clusterResult.companies.forEach((company: any) => {
-            if (company.enterprise && Array.isArray(company.enterprise)) {
-              company.enterprise.forEach((enterprise: any) => {
-                const sectorName = enterprise.sector_name || company.sector_name || 'Unknown';
-                const sectorCode = enterprise.sector_unique_id?.toString() || company.sector_unique_id?.toString() || sectorName;
-
-                // Only include enterprises with valid coordinates
-                if (enterprise.pca2_x !== undefined && enterprise.pca2_y !== undefined) {
-                  if (!sectorMap.has(sectorName)) {
-                    sectorMap.set(sectorName, {
-                      name: sectorName,
-                      code: sectorCode,
-                      enterprises: [],
-                      x_sum: 0,
-                      y_sum: 0,
-                      count: 0,
-                      capital_sum: 0,
-                      turnover_sum: 0,
-                      total_assets_sum: 0,
-                      employee_sum: 0
-                    });
-                  }
-
-                  console.log(`Adding enterprise: ${enterprise.name || 'Unknown'} to sector: ${sectorName}`);
-                  const sectorData = sectorMap.get(sectorName)!;
-                  sectorData.enterprises.push(enterprise);
-                  sectorData.x_sum += parseFloat(enterprise.pca2_x) || 0;
-                  sectorData.y_sum += parseFloat(enterprise.pca2_y) || 0;
-                  // Aggregate metrics
-                  sectorData.capital_sum += parseFloat(enterprise.capital) || 0;
-                  sectorData.turnover_sum += parseFloat(enterprise.turnover) || 0;
-                  sectorData.total_assets_sum += parseFloat(enterprise.total_assets) || 0;
-                  sectorData.employee_sum += parseInt(enterprise.employee_quantity) || 0;
-                  sectorData.count += 1;
-                }
+          // Collect ALL located enterprises that have the same sector_name
+          enterprisePoints(clusterResults.clusterResult).forEach((point) => {
+            if (!point.located) return;
+            const sectorName = point.sectorName || 'Unknown';
+
+            if (!sectorMap.has(sectorName)) {
+              sectorMap.set(sectorName, {
+                name: sectorName,
+                code: point.sectorId || sectorName,
+                enterprises: [],
+                x_sum: 0,
+                y_sum: 0,
+                count: 0,
+                capital_sum: 0,
+                turnover_sum: 0,
+                total_assets_sum: 0,
+                employee_sum: 0
               });
             }
+
+            const sectorData = sectorMap.get(sectorName)!;
+            sectorData.enterprises.push(point);
+            sectorData.x_sum += point.x;
+            sectorData.y_sum += point.y;
+            // Aggregate the size indicators behind EnterprisePoint.sizeScore
+            sectorData.capital_sum += point.s_VCSH ?? 0;
+            sectorData.turnover_sum += point.s_DT_TTM ?? 0;
+            sectorData.total_assets_sum += point.s_TTS ?? 0;
+            sectorData.employee_sum += point.s_EMPL ?? 0;
+            sectorData.count += 1;
           });
 
           // Helper function to shorten industry names - more concise
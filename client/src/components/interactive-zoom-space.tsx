@@ -7,13 +7,22 @@ import { Download, FileImage, Maximize, Move, ZoomIn, Square, RotateCcw, Target,
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { useClusteringStore } from "@/lib/clustering-store";
+import type { EnterprisePoint } from "@shared/enterprise-points";
+import type { EncodedValues } from "@/lib/encodings";
+import { describeRenderPlan, markerTraceType, planRender, pointsInSelection } from "@/lib/render-mode";
+import { flyTo, focusSpan, focusTrace, pulseFocus } from "@/lib/plot-focus";
 
 interface DataPoint {
+  // Enterprise point id (taxcode:yearreport) when the point comes from a result
+  id?: string;
   x: number;
   y: number;
   z?: number;
   cluster: number;
   size: number;
+  // Per-point marker opacity and colour from the encoding panel
+  opacity?: number;
+  color?: string;
   index: number;
   info?: {
     name?: string;
@@ -24,12 +33,63 @@ interface DataPoint {
   };
 }
 
+/**
+ * Plot point of an enterprise: height, marker size, opacity and colour come
+ * from `encoded`, by default height is its size score and marker size follows
+ * the employee count
+ */
+export function toZoomPoint(point: EnterprisePoint, encoded?: EncodedValues): DataPoint {
+  return {
+    id: point.id,
+    x: point.x,
+    y: point.y,
+    z: encoded ? encoded.z : point.sizeScore,
+    cluster: point.cluster,
+    size: encoded ? encoded.size : point.markerSize,
+    opacity: encoded?.opacity,
+    color: encoded?.color,
+    index: point.index,
+    info: {
+      name: point.name,
+      taxcode: point.taxcode,
+      sector: point.sectorName,
+      sector_unique_id: point.sectorId,
+      employees: point.employees ?? 0,
+      year: point.yearreport,
+    },
+  };
+}
+
+// "#rrggbb" or "rgb(r, g, b)" with an alpha channel
+function withAlpha(color: string, alpha: number): string {
+  const hex = /^#([0-9a-f]{6})$/i.exec(color);
+  if (hex) {
+    const value = parseInt(hex[1], 16);
+    return `rgba(${value >> 16}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+  }
+  return color.replace(/^rgb\((.*)\)$/, `rgba($1, ${alpha})`);
+}
+
+// Positions of each cluster's points in `points`, in the order of `clusters`
+function positionsByCluster(points: DataPoint[], clusters: number[]): number[][] {
+  const slot = new Map(clusters.map((cluster, i) => [cluster, i]));
+  const positions: number[][] = clusters.map(() => []);
+  points.forEach((point, i) => positions[slot.get(point.cluster)!]?.push(i));
+  return positions;
+}
+
 interface InteractiveZoomSpaceProps {
   data: DataPoint[];
   width?: number;
   height?: number;
   title?: string;
   is3D?: boolean;
+  // Shown as the legend title, e.g. the active encodings
+  legendTitle?: string;
+  // What Z encodes, for the annotation and the z-axis title
+  zLabel?: string;
+  // Point id to centre on and highlight
+  focusedId?: string | null;
   onSelectionChange?: (selectedPoints: DataPoint[]) => void;
 }
 
@@ -39,6 +99,9 @@ export default function InteractiveZoomSpace({
   height = 600,
   title = "Interactive Clustering Space",
   is3D = true,
+  legendTitle,
+  zLabel,
+  focusedId,
   onSelectionChange
 }: InteractiveZoomSpaceProps) {
   const plotRef = useRef<HTMLDivElement>(null);
@@ -51,6 +114,9 @@ export default function InteractiveZoomSpace({
   const [selectedPoints, setSelectedPoints] = useState<DataPoint[]>([]);
   const [zoomHistory, setZoomHistory] = useState<any[]>([]);
   const [filteredCluster, setFilteredCluster] = useState<number | null>(null);
+  // Focused company the view last flew to, and the running pulse
+  const flownTo = useRef<string | null>(null);
+  const stopPulse = useRef<(() => void) | null>(null);
 
   // Color palette for clusters
   const colors = [
@@ -64,70 +130,23 @@ export default function InteractiveZoomSpace({
     return filteredCluster !== null ? data.filter(point => point.cluster === filteredCluster) : data;
   }, [data, filteredCluster]);
 
-  // Transform clustering results to the format expected by InteractiveZoomSpace
-  const scaledData = useMemo(() => {
-    console.log("🚀 Interactive Zoom Space: Transforming clustering data...");
-
-    if (!data || data.length === 0) {
-      console.log("⚠️ No clustering data available");
-      return [];
-    }
-
-    // Check if data is from clustering store or passed directly
-    let sourceData: any[] = [];
-
-    if (Array.isArray(data) && data.length > 0 && data[0].hasOwnProperty('x')) {
-      // Direct data format
-      sourceData = data;
-    } else {
-      // Clustering store format - need to transform
-      const storeResults = (data as any);
-      if (storeResults?.clusterResult?.companies && Array.isArray(storeResults.clusterResult.companies)) {
-        console.log("📊 Total companies:", storeResults.clusterResult.companies.length);
-
-        storeResults.clusterResult.companies.forEach((company: any, companyIndex: number) => {
-          if (company.enterprise && Array.isArray(company.enterprise)) {
-            company.enterprise.forEach((enterprise: any, enterpriseIndex: number) => {
-              const clusterLabel = enterprise.cluster !== undefined ? enterprise.cluster : (enterprise.Label || 0);
-              const embX = enterprise.emb_x;
-              const embY = enterprise.emb_y;
-
-              // Only process if we have valid coordinates
-              if (embX !== null && embX !== undefined && embY !== null && embY !== undefined && !isNaN(embX) && !isNaN(embY)) {
-                const employeeCount = enterprise.empl_qtty || 1;
-
-                // Calculate Z using the specified formula
-                const s_DT_TTM = enterprise.s_DT_TTM || 0;
-                const s_TTS = enterprise.s_TTS || 0;
-                const s_VCSH = enterprise.s_VCSH || 0;
-                const s_EMPL = enterprise.s_EMPL || 0;
-                const calculatedZ = (s_DT_TTM + s_TTS + s_VCSH) * 0.3 + s_EMPL * 0.1;
-
-                sourceData.push({
-                  x: embX,
-                  y: embY,
-                  z: calculatedZ,
-                  cluster: clusterLabel,
-                  size: Math.max(0.1, Math.log10(employeeCount + 1) * 0.3),
-                  index: companyIndex * 1000 + enterpriseIndex,
-                  info: {
-                    name: enterprise.name || `Company ${companyIndex}-${enterpriseIndex}`,
-                    taxcode: enterprise.taxcode || '',
-                    sector: enterprise.sector_name || '',
-                    employees: employeeCount
-                  }
-                });
-              }
-            });
-          }
-        });
-      }
-    }
+  // Points with usable coordinates
+  const scaledData = useMemo(
+    () => data.filter(point => Number.isFinite(point.x) && Number.isFinite(point.y)),
+    [data],
+  );
 
-    console.log("✅ Interactive Zoom Space: Data transformation completed");
-    console.log("📊 Total points processed:", sourceData.length);
-    return sourceData;
-  }, [data]);
+  // Points drawn: all of them, or above the high-volume threshold a sample that
+  // keeps every point of the selected area
+  const renderPlan = useMemo(
+    () => planRender(scaledData, point => point.cluster, {
+      focus: selectedArea
+        ? point => point.x >= selectedArea.xmin && point.x <= selectedArea.xmax &&
+                   point.y >= selectedArea.ymin && point.y <= selectedArea.ymax
+        : undefined,
+    }),
+    [scaledData, selectedArea],
+  );
 
   // Calculate scaled positions based on selection and scale factor
   const getScaledData = useCallback(() => {
@@ -168,25 +187,29 @@ export default function InteractiveZoomSpace({
   useEffect(() => {
     if (!plotRef.current || !scaledData.length) return;
 
+    const rendered = renderPlan.points;
     const clusters = Array.from(new Set(scaledData.map(d => d.cluster))).sort();
+    const positions = positionsByCluster(rendered, clusters);
 
     // Create traces for each cluster
     const traces = clusters.map((clusterId, index) => {
-      const clusterPoints = scaledData.filter(d => d.cluster === clusterId);
+      const clusterPoints = positions[index].map(i => rendered[i]);
 
       const trace: any = {
         x: clusterPoints.map(d => d.x),
         y: clusterPoints.map(d => d.y),
+        // Position in the rendered points, to map selections back
+        customdata: positions[index],
         mode: 'markers',
-        type: is3D ? 'scatter3d' : 'scatter',
+        type: markerTraceType(is3D, renderPlan.highVolume),
         name: `Cluster ${clusterId}`,
         marker: {
-          color: colors[index % colors.length],
+          // rgba per point so opacity also varies in 3D, where marker.opacity must be scalar
+          color: clusterPoints.map(d => withAlpha(d.color ?? colors[index % colors.length], d.opacity ?? 0.7)),
           size: clusterPoints.map(d => Math.max(4, d.size * 8)),
-          opacity: 0.7,
           line: {
             color: '#333',
-            width: 1
+            width: renderPlan.highVolume ? 0 : 1
           }
         },
         text: clusterPoints.map(d => {
@@ -205,12 +228,22 @@ export default function InteractiveZoomSpace({
       };
 
       if (is3D) {
-        trace.z = clusterPoints.map(d => d.z || d.size);
+        trace.z = clusterPoints.map(d => d.z ?? d.size);
       }
 
       return trace;
     });
 
+    // Ring over the company picked in search, drawn even when sampled out
+    const focused = focusedId ? scaledData.find(d => d.id === focusedId) : undefined;
+    const focusPoint = focused && {
+      x: focused.x,
+      y: focused.y,
+      z: focused.z ?? focused.size,
+      label: focused.info?.name || focused.id || '',
+    };
+    if (focusPoint) traces.push(focusTrace(focusPoint, is3D));
+
     const layout: any = {
       title: {
         text: title,
@@ -219,6 +252,7 @@ export default function InteractiveZoomSpace({
       hovermode: 'closest',
       showlegend: true,
       legend: {
+        ...(legendTitle && { title: { text: legendTitle, font: { size: 11 } } }),
         x: 1.02,
         y: 1,
         xanchor: 'left',
@@ -238,7 +272,7 @@ export default function InteractiveZoomSpace({
           text: '<b>Chú thích:</b><br>' +
                 'X: Sectorcode after embedded<br>' +
                 'Y: Sectorcode after embedded<br>' +
-                (is3D ? 'Z: Weighted Aggregate Scale' : ''),
+                (is3D ? `Z: ${zLabel ?? 'Weighted Aggregate Scale'}` : ''),
           showarrow: false,
           align: 'left',
           bgcolor: 'rgba(255, 255, 255, 0.9)',
@@ -265,7 +299,7 @@ export default function InteractiveZoomSpace({
           zerolinecolor: '#bdbdbd'
         },
         zaxis: {
-          title: 'Z Coordinate / Size',
+          title: zLabel ? `Z: ${zLabel}` : 'Z Coordinate / Size',
           gridcolor: '#e0e0e0',
           zerolinecolor: '#bdbdbd'
         },
@@ -294,9 +328,18 @@ export default function InteractiveZoomSpace({
       doubleClick: 'reset'
     };
 
-    Plotly.newPlot(plotRef.current, traces, layout, config).then(() => {
+    // react diffs against the current plot instead of rebuilding it
+    Plotly.react(plotRef.current, traces, layout, config).then(() => {
       setPlotReady(true);
-      console.log('Interactive zoom space rendered successfully');
+      console.log(`Interactive zoom space rendered: ${describeRenderPlan(renderPlan)}`);
+
+      // Fly to a newly focused company once, not on every re-render
+      if (plotRef.current && focusPoint && flownTo.current !== focusedId) {
+        flyTo(plotRef.current, focusPoint, focusSpan(scaledData), is3D);
+        stopPulse.current?.();
+        stopPulse.current = pulseFocus(plotRef.current);
+      }
+      flownTo.current = focusPoint ? focusedId ?? null : null;
 
       // Add selection event handlers
       if (plotRef.current) {
@@ -304,27 +347,25 @@ export default function InteractiveZoomSpace({
 
         // Handle box/lasso selection
         plotDiv.on('plotly_selected', (eventData: any) => {
-          if (eventData && eventData.points && eventData.points.length > 0) {
-            const points = eventData.points;
-            const selectedData: DataPoint[] = [];
+          if (eventData && eventData.points) {
+            // Test the selection shape against every point; the rendered ones
+            // may be only a sample in high-volume mode
+            const selectedData: DataPoint[] = pointsInSelection(scaledData, eventData) ??
+              eventData.points.map((point: any) => rendered[point.customdata]).filter(Boolean);
 
             // Calculate bounding box of selection
             let xmin = Infinity, xmax = -Infinity;
             let ymin = Infinity, ymax = -Infinity;
             let zmin = Infinity, zmax = -Infinity;
 
-            points.forEach((point: any) => {
-              const dataPoint = scaledData[point.pointIndex];
-              if (dataPoint) {
-                selectedData.push(dataPoint);
-                xmin = Math.min(xmin, point.x);
-                xmax = Math.max(xmax, point.x);
-                ymin = Math.min(ymin, point.y);
-                ymax = Math.max(ymax, point.y);
-                if (is3D && point.z !== undefined) {
-                  zmin = Math.min(zmin, point.z);
-                  zmax = Math.max(zmax, point.z);
-                }
+            selectedData.forEach((point: DataPoint) => {
+              xmin = Math.min(xmin, point.x);
+              xmax = Math.max(xmax, point.x);
+              ymin = Math.min(ymin, point.y);
+              ymax = Math.max(ymax, point.y);
+              if (is3D && point.z !== undefined) {
+                zmin = Math.min(zmin, point.z);
+                zmax = Math.max(zmax, point.z);
               }
             });
 
@@ -366,14 +407,22 @@ export default function InteractiveZoomSpace({
       }
     };
 
-  }, [scaledData, activeTool, getScaledData, is3D, title, onSelectionChange, filteredCluster]);
+  }, [scaledData, renderPlan, activeTool, getScaledData, is3D, title, legendTitle, zLabel, onSelectionChange, filteredCluster, focusedId]);
+
+  // Plotly.react keeps the plot between updates, so free it on unmount
+  useEffect(() => {
+    return () => {
+      stopPulse.current?.();
+      if (plotRef.current) Plotly.purge(plotRef.current);
+    };
+  }, []);
 
   // Auto-update plot when scale factor changes
   useEffect(() => {
     if (!plotRef.current || !plotReady || scaleFactor[0] === 1) return;
 
-    // Re-render plot with new scaled data
-    const filteredData = getFilteredData();
+    // Re-render plot with new scaled data, point for point as drawn
+    const filteredData = renderPlan.points;
 
     if (!selectedArea || scaleFactor[0] === 1) return;
 
@@ -406,9 +455,10 @@ export default function InteractiveZoomSpace({
     });
 
     // Update plot with scaled data
-    const clusters = Array.from(new Set(scaledPoints.map(d => d.cluster))).sort();
+    const clusters = Array.from(new Set(scaledData.map(d => d.cluster))).sort();
+    const positions = positionsByCluster(scaledPoints, clusters);
     const traces = clusters.map((clusterId, index) => {
-      const clusterPoints = scaledPoints.filter(d => d.cluster === clusterId);
+      const clusterPoints = positions[index].map(i => scaledPoints[i]);
 
       const trace: any = {
         x: clusterPoints.map(d => d.x),
@@ -441,19 +491,20 @@ export default function InteractiveZoomSpace({
       };
 
       if (is3D) {
-        trace.z = clusterPoints.map(d => d.z || d.size);
+        trace.z = clusterPoints.map(d => d.z ?? d.size);
       }
 
       return trace;
     });
 
+    // Explicit indices leave the focus ring trace as it is
     Plotly.restyle(plotRef.current, {
       x: traces.map(t => t.x),
       y: traces.map(t => t.y),
       ...(is3D && { z: traces.map(t => t.z) })
-    });
+    }, traces.map((_, i) => i));
 
-  }, [scaleFactor, selectedArea, getFilteredData, is3D]);
+  }, [scaleFactor, selectedArea, renderPlan, scaledData, is3D]);
 
   // Save current zoom state
   const saveZoomState = () => {
@@ -488,12 +539,16 @@ export default function InteractiveZoomSpace({
     const yRange = selectedArea.ymax - selectedArea.ymin;
 
     // Auto-calculate optimal scale based on zoom level
-    const originalDataBounds = {
-      xmin: Math.min(...scaledData.map(d => d.x)),
-      xmax: Math.max(...scaledData.map(d => d.x)),
-      ymin: Math.min(...scaledData.map(d => d.y)),
-      ymax: Math.max(...scaledData.map(d => d.y))
-    };
+    // Reduced rather than spread: Math.min(...array) overflows the stack on large datasets
+    const originalDataBounds = scaledData.reduce(
+      (bounds, d) => ({
+        xmin: Math.min(bounds.xmin, d.x),
+        xmax: Math.max(bounds.xmax, d.x),
+        ymin: Math.min(bounds.ymin, d.y),
+        ymax: Math.max(bounds.ymax, d.y)
+      }),
+      { xmin: Infinity, xmax: -Infinity, ymin: Infinity, ymax: -Infinity }
+    );
 
     const originalXRange = originalDataBounds.xmax - originalDataBounds.xmin;
     const originalYRange = originalDataBounds.ymax - originalDataBounds.ymin;
@@ -581,14 +636,16 @@ export default function InteractiveZoomSpace({
   const applySmartScaling = () => {
     if (!selectedArea || selectedPoints.length === 0) return;
 
-    // Calculate average distance between points in selection
+    // Calculate average distance between points in selection (over a sample, the
+    // pairwise loop is quadratic)
+    const sample = planRender(selectedPoints, point => point.cluster, { threshold: 500, limit: 500 }).points;
     let totalDistance = 0;
     let pairCount = 0;
 
-    for (let i = 0; i < selectedPoints.length; i++) {
-      for (let j = i + 1; j < selectedPoints.length; j++) {
-        const p1 = selectedPoints[i];
-        const p2 = selectedPoints[j];
+    for (let i = 0; i < sample.length; i++) {
+      for (let j = i + 1; j < sample.length; j++) {
+        const p1 = sample[i];
+        const p2 = sample[j];
         const distance = Math.sqrt(
           Math.pow(p1.x - p2.x, 2) +
           Math.pow(p1.y - p2.y, 2) +
@@ -810,6 +867,11 @@ export default function InteractiveZoomSpace({
               {/* Chart Info */}
               <div className="text-sm text-muted-foreground">
                 Lambda (λ): {lambdaValue} • Clusters: {clusters.length} • Companies: {data.length}
+                {renderPlan.highVolume && (
+                  <Badge variant="outline" className="ml-2" title="Level-of-detail sample; zoom into an area to draw all of its points" data-testid="render-mode">
+                    {describeRenderPlan(renderPlan)}
+                  </Badge>
+                )}
               </div>
 
               {/* Controls Panel - Centered */}
@@ -0,0 +1,192 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Plotly from "plotly.js-dist";
+import { resultsConfig, useClusteringStore } from "@/lib/clustering-store";
+import { clusteringApi } from "@/lib/clustering-api";
+import { labelsPathForK } from "@/lib/k-selection";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { KMetrics } from "@shared/schema";
+
+const metricCharts = [
+  { key: "silhouette", label: "Silhouette", better: "higher" },
+  { key: "calinski_harabasz", label: "Calinski-Harabasz", better: "higher" },
+  { key: "davies_bouldin", label: "Davies-Bouldin", better: "lower" },
+  { key: "inertia", label: "Inertia (elbow)", better: "lower" },
+] as const;
+
+type ChartKey = (typeof metricCharts)[number]["key"];
+
+function MetricChart({ rows, metric, label, bestK, selectedK, onPick }: {
+  rows: KMetrics[];
+  metric: ChartKey;
+  label: string;
+  bestK: number;
+  selectedK: number;
+  onPick: (k: number) => void;
+}) {
+  const plotRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!plotRef.current) return;
+    const plotted = rows.filter(row => row[metric] !== null);
+    const highlight = (k: number) => plotted.filter(row => row.k === k);
+
+    const traces = [
+      {
+        x: plotted.map(row => row.k),
+        y: plotted.map(row => row[metric]),
+        mode: 'lines+markers' as const,
+        type: 'scatter' as const,
+        name: label,
+        line: { color: '#3498db' },
+        marker: { size: 7 },
+        hovertemplate: 'k=%{x}<br>%{y:.4f}<extra></extra>',
+      },
+      {
+        x: highlight(bestK).map(row => row.k),
+        y: highlight(bestK).map(row => row[metric]),
+        mode: 'markers' as const,
+        type: 'scatter' as const,
+        name: 'best k',
+        marker: { size: 14, color: 'rgba(0,0,0,0)', line: { color: '#e74c3c', width: 2 } },
+        hoverinfo: 'skip' as const,
+      },
+      {
+        x: highlight(selectedK).map(row => row.k),
+        y: highlight(selectedK).map(row => row[metric]),
+        mode: 'markers' as const,
+        type: 'scatter' as const,
+        name: 'shown k',
+        marker: { size: 9, color: '#2ecc71' },
+        hoverinfo: 'skip' as const,
+      },
+    ];
+
+    const layout = {
+      title: { text: label, font: { size: 13 } },
+      xaxis: { title: 'k', dtick: 1 },
+      margin: { l: 50, r: 10, t: 30, b: 35 },
+      height: 220,
+      showlegend: false,
+    };
+
+    const plot = plotRef.current;
+    Plotly.newPlot(plot, traces, layout, { responsive: true, displaylogo: false, displayModeBar: false });
+    (plot as any).on('plotly_click', (event: any) => {
+      const k = event.points?.[0]?.x;
+      if (typeof k === 'number') onPick(k);
+    });
+
+    return () => {
+      Plotly.purge(plot);
+    };
+  }, [rows, metric, label, bestK, selectedK, onPick]);
+
+  return <div ref={plotRef} className="w-full" data-testid={`k-chart-${metric}`} />;
+}
+
+export default function KSelectionPanel() {
+  const { results, apiConfig, resultsEndpoint, profiles, selectedK, relabel } = useClusteringStore();
+  const config = resultsConfig({ apiConfig, resultsEndpoint, profiles });
+  const clusterResult = results?.clusterResult ?? null;
+  const [pendingK, setPendingK] = useState<number | null>(null);
+  const [isRelabelling, setIsRelabelling] = useState(false);
+
+  // The local engine returns metrics inline; otherwise read the backend's metrics CSV
+  const { data: rows = [], isLoading, error } = useQuery<KMetrics[]>({
+    queryKey: ["metrics_csv", config.endpoint, clusterResult?.metrics_csv],
+    queryFn: () => clusteringApi.getMetricsTable(clusterResult!.metrics_csv, config),
+    enabled: !!clusterResult && !clusterResult.metrics?.length && !!clusterResult.metrics_csv,
+    initialData: clusterResult?.metrics?.length ? [...clusterResult.metrics].sort((a, b) => a.k - b.k) : undefined,
+  });
+
+  useEffect(() => {
+    setPendingK(null);
+  }, [clusterResult?.dataset_id, clusterResult?.metrics_csv]);
+
+  if (!clusterResult) return null;
+
+  const bestK = clusterResult.best_k;
+  const shownK = selectedK ?? bestK;
+  const candidateKs = Array.from(new Set([...clusterResult.k_candidates, ...rows.map(row => row.k)])).sort((a, b) => a - b);
+  const targetK = pendingK ?? shownK;
+  const canRelabel = targetK !== shownK && labelsPathForK(clusterResult, targetK) !== null;
+
+  const applyK = async () => {
+    setIsRelabelling(true);
+    try {
+      await relabel(targetK);
+    } finally {
+      setIsRelabelling(false);
+      setPendingK(null);
+    }
+  };
+
+  return (
+    <Card data-testid="k-selection-panel">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center justify-between">
+          <span>k Selection</span>
+          <div className="flex gap-1">
+            <Badge variant="secondary" data-testid="k-selection-best">best k = {bestK}</Badge>
+            {selectedK !== null && (
+              <Badge className="bg-green-600" data-testid="k-selection-shown">showing k = {selectedK}</Badge>
+            )}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading metrics...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error instanceof Error ? error.message : "Failed to load metrics"}</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The backend did not report per-k metrics</p>
+        ) : (
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-2">
+            {metricCharts.map(({ key, label, better }) => (
+              <MetricChart
+                key={key}
+                rows={rows}
+                metric={key}
+                label={`${label} (${better} is better)`}
+                bestK={bestK}
+                selectedK={targetK}
+                onPick={setPendingK}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Select value={String(targetK)} onValueChange={(value) => setPendingK(Number(value))}>
+            <SelectTrigger className="w-32" data-testid="select-k">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {candidateKs.map(k => (
+                <SelectItem key={k} value={String(k)}>
+                  k = {k}{k === bestK ? " (best)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={applyK}
+            disabled={!canRelabel || isRelabelling}
+            data-testid="button-relabel-k"
+          >
+            {isRelabelling ? "Re-labelling..." : `Re-label with k = ${targetK}`}
+          </Button>
+        </div>
+        {targetK !== shownK && !canRelabel && (
+          <p className="text-xs text-muted-foreground">The backend did not expose labels for k = {targetK}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
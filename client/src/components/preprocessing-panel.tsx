@@ -0,0 +1,327 @@
+import { useClusteringStore } from "@/lib/clustering-store";
+import { isIdentifierColumn, suggestLogColumns } from "@/lib/data-quality";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SlidersHorizontal, X } from "lucide-react";
+import { DEFAULT_PREPROCESSING, describePreprocessing, type ImputeStrategy, type ScaleStrategy } from "@shared/preprocessing";
+import type { FeaturePreprocessing, Preprocessing } from "@shared/schema";
+
+const imputeLabels: Record<ImputeStrategy, string> = {
+  mean: "Mean",
+  median: "Median",
+  zero: "Zero",
+};
+
+const scaleLabels: Record<ScaleStrategy, string> = {
+  zscore: "Z-score",
+  robust: "Robust (median / IQR)",
+  minmax: "Min-max",
+  none: "None",
+};
+
+// Select value of an override that falls back to the defaults
+const INHERIT = "inherit";
+
+const DEFAULT_WINSORIZE: [number, number] = [1, 99];
+
+function clampPercentile(text: string, min: number, max: number): number {
+  const value = Number(text);
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : min;
+}
+
+/**
+ * Declarative preprocessing of the info features (imputation, scaling,
+ * winsorization, log transforms) sent with the clustering parameters
+ */
+export default function PreprocessingPanel() {
+  const { parameters, dataQuality, isRunning, updateParameters } = useClusteringStore();
+  const config = parameters.preprocessing;
+
+  const setConfig = (next: Preprocessing | undefined) => updateParameters({ preprocessing: next });
+
+  const setDefaults = (changes: Partial<FeaturePreprocessing>) => {
+    if (config) setConfig({ ...config, defaults: { ...config.defaults, ...changes } });
+  };
+
+  // Merge into a column's override, dropping keys set back to the default
+  const setOverride = (column: string, changes: Partial<FeaturePreprocessing>) => {
+    if (!config) return;
+    const merged: FeaturePreprocessing = { ...config.columns?.[column], ...changes };
+    const override = Object.fromEntries(
+      Object.entries(merged).filter(([, value]) => value !== undefined),
+    ) as FeaturePreprocessing;
+    const columns = { ...config.columns };
+    if (Object.keys(override).length > 0) columns[column] = override;
+    else delete columns[column];
+    setConfig({ ...config, columns });
+  };
+
+  const removeOverride = (column: string) => {
+    if (!config) return;
+    const { [column]: _removed, ...columns } = config.columns ?? {};
+    setConfig({ ...config, columns });
+  };
+
+  const excluded = new Set(parameters.exclude_columns ?? []);
+  const featureColumns = (dataQuality?.columns ?? [])
+    .filter((quality) => quality.kind === "numeric" && !isIdentifierColumn(quality.column) && !excluded.has(quality.column))
+    .map((quality) => quality.column);
+  const overrides = Object.entries(config?.columns ?? {});
+  const addable = featureColumns.filter((column) => !config?.columns?.[column]);
+  const suggested = dataQuality ? suggestLogColumns(dataQuality).filter((column) => !excluded.has(column)) : [];
+  const unlogged = suggested.filter((column) => config?.columns?.[column]?.log === undefined);
+
+  const logSuggested = () => {
+    if (!config) return;
+    const columns = { ...config.columns };
+    for (const column of unlogged) columns[column] = { ...columns[column], log: true };
+    setConfig({ ...config, columns });
+  };
+
+  const winsorize = config?.defaults.winsorize ?? null;
+
+  return (
+    <div className="space-y-3" data-testid="preprocessing-panel">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-foreground flex items-center gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Preprocessing
+        </h3>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="preprocessing-custom"
+            checked={!!config}
+            onCheckedChange={(checked) => setConfig(checked ? { defaults: { impute: "mean", scale: "zscore" } } : undefined)}
+            disabled={isRunning}
+            data-testid="switch-preprocessing"
+          />
+          <Label htmlFor="preprocessing-custom" className="text-xs">Custom</Label>
+        </div>
+      </div>
+
+      {!config ? (
+        <p className="text-xs text-muted-foreground">
+          Backend default: {describePreprocessing(DEFAULT_PREPROCESSING)} of every info feature.
+        </p>
+      ) : (
+        <Card className="p-3 space-y-3 text-xs">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Missing values</Label>
+              <Select
+                value={config.defaults.impute ?? DEFAULT_PREPROCESSING.impute}
+                onValueChange={(value) => setDefaults({ impute: value as ImputeStrategy })}
+                disabled={isRunning}
+              >
+                <SelectTrigger className="h-8 text-xs" data-testid="select-impute">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(imputeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Scaling</Label>
+              <Select
+                value={config.defaults.scale ?? DEFAULT_PREPROCESSING.scale}
+                onValueChange={(value) => setDefaults({ scale: value as ScaleStrategy })}
+                disabled={isRunning}
+              >
+                <SelectTrigger className="h-8 text-xs" data-testid="select-scale">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(scaleLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="preprocessing-winsorize"
+              checked={!!winsorize}
+              onCheckedChange={(checked) => setDefaults({ winsorize: checked ? DEFAULT_WINSORIZE : undefined })}
+              disabled={isRunning}
+              data-testid="switch-winsorize"
+            />
+            <Label htmlFor="preprocessing-winsorize" className="text-xs">Clip to percentiles</Label>
+            {winsorize && (
+              <>
+                <Input
+                  type="number"
+                  min={0}
+                  max={50}
+                  step={0.5}
+                  className="h-7 w-16 text-xs"
+                  value={winsorize[0]}
+                  onChange={(e) => setDefaults({ winsorize: [clampPercentile(e.target.value, 0, 50), winsorize[1]] })}
+                  disabled={isRunning}
+                  data-testid="input-winsorize-lower"
+                />
+                <span>–</span>
+                <Input
+                  type="number"
+                  min={50}
+                  max={100}
+                  step={0.5}
+                  className="h-7 w-16 text-xs"
+                  value={winsorize[1]}
+                  onChange={(e) => setDefaults({ winsorize: [winsorize[0], clampPercentile(e.target.value, 50, 100)] })}
+                  disabled={isRunning}
+                  data-testid="input-winsorize-upper"
+                />
+              </>
+            )}
+          </div>
+
+          {suggested.length > 0 && (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-muted-foreground truncate" title={suggested.join(", ")}>
+                Skewed money columns: {suggested.join(", ")}
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs shrink-0"
+                onClick={logSuggested}
+                disabled={isRunning || unlogged.length === 0}
+                data-testid="button-log-suggested"
+              >
+                Log-transform ({unlogged.length})
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label className="text-xs">Column overrides</Label>
+            {overrides.length > 0 && (
+              <div className="max-h-56 overflow-auto border rounded">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="h-7 px-2">Column</TableHead>
+                      <TableHead className="h-7 px-2">Missing</TableHead>
+                      <TableHead className="h-7 px-2">Scaling</TableHead>
+                      <TableHead className="h-7 px-2">Clip</TableHead>
+                      <TableHead className="h-7 px-2">Log</TableHead>
+                      <TableHead className="h-7 px-2" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {overrides.map(([column, override]) => (
+                      <TableRow key={column} data-testid={`preprocessing-row-${column}`}>
+                        <TableCell className="py-1 px-2 font-mono">{column}</TableCell>
+                        <TableCell className="py-1 px-2">
+                          <Select
+                            value={override.impute ?? INHERIT}
+                            onValueChange={(value) => setOverride(column, { impute: value === INHERIT ? undefined : value as ImputeStrategy })}
+                            disabled={isRunning}
+                          >
+                            <SelectTrigger className="h-7 text-xs w-24">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={INHERIT}>Default</SelectItem>
+                              {Object.entries(imputeLabels).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="py-1 px-2">
+                          <Select
+                            value={override.scale ?? INHERIT}
+                            onValueChange={(value) => setOverride(column, { scale: value === INHERIT ? undefined : value as ScaleStrategy })}
+                            disabled={isRunning}
+                          >
+                            <SelectTrigger className="h-7 text-xs w-28">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={INHERIT}>Default</SelectItem>
+                              {Object.entries(scaleLabels).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="py-1 px-2">
+                          <Select
+                            value={override.winsorize === undefined ? INHERIT : override.winsorize ? "on" : "off"}
+                            onValueChange={(value) => setOverride(column, {
+                              winsorize: value === INHERIT ? undefined : value === "on" ? winsorize ?? DEFAULT_WINSORIZE : null,
+                            })}
+                            disabled={isRunning}
+                          >
+                            <SelectTrigger className="h-7 text-xs w-24">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={INHERIT}>Default</SelectItem>
+                              <SelectItem value="on">p{(winsorize ?? DEFAULT_WINSORIZE).join("–p")}</SelectItem>
+                              <SelectItem value="off">Off</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="py-1 px-2">
+                          <Checkbox
+                            checked={override.log ?? config.defaults.log ?? false}
+                            onCheckedChange={(checked) => setOverride(column, { log: checked === true ? true : undefined })}
+                            disabled={isRunning}
+                            aria-label={`Log-transform ${column}`}
+                          />
+                        </TableCell>
+                        <TableCell className="py-1 px-2">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => removeOverride(column)}
+                            disabled={isRunning}
+                            title="Remove override"
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {addable.length > 0 ? (
+              <Select value="" onValueChange={(column) => setOverride(column, { impute: config.defaults.impute ?? DEFAULT_PREPROCESSING.impute })} disabled={isRunning}>
+                <SelectTrigger className="h-8 text-xs" data-testid="select-override-column">
+                  <SelectValue placeholder="Add override for a column..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {addable.map((column) => (
+                    <SelectItem key={column} value={column}>{column}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              overrides.length === 0 && (
+                <p className="text-muted-foreground">Upload an info file to override single columns.</p>
+              )
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -6,9 +6,18 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { BarChart3, TrendingUp, ExternalLink } from "lucide-react";
 import SimpleClusterVisualization from "./simple-cluster-visualization";
+import KSelectionPanel from "./k-selection-panel";
+import ClusterProfiles from "./cluster-profiles";
+
+const metricRows = [
+  { key: 'silhouetteScore', testId: 'silhouette', label: 'Silhouette Score', digits: 3 },
+  { key: 'inertia', testId: 'inertia', label: 'Inertia', digits: 2 },
+  { key: 'calinskiHarabasz', testId: 'calinski-harabasz', label: 'Calinski-Harabasz', digits: 1 },
+  { key: 'daviesBouldin', testId: 'davies-bouldin', label: 'Davies-Bouldin', digits: 3 },
+] as const;
 
 export default function ResultsPanel() {
-  const { results, logs, setSelectedProjectionType } = useClusteringStore();
+  const { results, logs, selectedK, setSelectedProjectionType } = useClusteringStore();
 
   if (!results) {
     return (
@@ -22,8 +31,6 @@ export default function ResultsPanel() {
     );
   }
 
-  const clusters = results.metrics?.clusters || [];
-
   return (
     <div className="w-full h-full bg-card flex flex-col overflow-hidden">
       <ScrollArea className="flex-1">
@@ -42,18 +49,38 @@ export default function ResultsPanel() {
                   {results.clusterResult?.best_k || 'N/A'}
                 </Badge>
               </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Silhouette Score:</span>
-                <span className="font-medium" data-testid="metric-silhouette">
-                  {results.metrics?.silhouetteScore?.toFixed(3) || 'N/A'}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-muted-foreground">Inertia:</span>
-                <span className="font-medium" data-testid="metric-inertia">
-                  {results.metrics?.inertia?.toFixed(2) || 'N/A'}
-                </span>
-              </div>
+              {selectedK !== null && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Labelled with k:</span>
+                  <Badge className="bg-green-600" data-testid="metric-selected-k">{selectedK}</Badge>
+                </div>
+              )}
+              {metricRows.map(({ key, testId, label, digits }) => {
+                const value = results.metrics?.[key];
+                const source = results.metrics?.sources?.[key];
+                return (
+                  <div key={key} className="flex justify-between items-center">
+                    <span className="text-muted-foreground">{label}:</span>
+                    <span className="flex items-center gap-2">
+                      <span className="font-medium" data-testid={`metric-${testId}`}>
+                        {value !== null && value !== undefined ? value.toFixed(digits) : 'N/A'}
+                      </span>
+                      {source && (
+                        <Badge
+                          variant={source === 'backend' ? 'default' : 'outline'}
+                          className="text-[10px] px-1.5 py-0"
+                          title={source === 'backend'
+                            ? 'Reported by the clustering backend'
+                            : 'Computed in the browser from the 2D coordinates'}
+                          data-testid={`metric-source-${testId}`}
+                        >
+                          {source}
+                        </Badge>
+                      )}
+                    </span>
+                  </div>
+                );
+              })}
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Lambda used:</span>
                 <span className="font-medium" data-testid="metric-lambda">
@@ -63,6 +90,9 @@ export default function ResultsPanel() {
             </CardContent>
           </Card>
 
+          {/* Metrics vs k */}
+          <KSelectionPanel />
+
           {/* Cluster Visualization */}
           {results.clusterResult && results.clusterResult.embedding && results.clusterResult.labels && results.clusterResult.size && (
             <div className="space-y-3">
@@ -138,41 +168,8 @@ export default function ResultsPanel() {
 
           <Separator />
 
-          {/* Cluster Details */}
-          <div className="space-y-3">
-            <h4 className="text-sm font-medium text-foreground">Cluster Breakdown</h4>
-            
-            {clusters.slice(0, 3).map((cluster, index) => {
-              const colors = ['bg-blue-500', 'bg-green-500', 'bg-red-500', 'bg-yellow-500', 'bg-purple-500', 'bg-orange-500'];
-              return (
-                <Card key={cluster.id} data-testid={`cluster-${cluster.id}`}>
-                  <CardContent className="p-3">
-                    <div className="flex items-center justify-between mb-2">
-                      <div className="flex items-center space-x-2">
-                        <div className={`w-3 h-3 ${colors[index]} rounded-full`} />
-                        <span className="text-sm font-medium">Cluster {cluster.id}</span>
-                      </div>
-                      <span className="text-xs text-muted-foreground">{cluster.size} points</span>
-                    </div>
-                    <div className="text-xs text-muted-foreground space-y-1">
-                      <div>Centroid: ({cluster.centroid.x.toFixed(2)}, {cluster.centroid.y.toFixed(2)})</div>
-                      <div>Avg distance: {cluster.avgDistance.toFixed(2)}</div>
-                    </div>
-                  </CardContent>
-                </Card>
-              );
-            })}
-
-            {clusters.length > 3 && (
-              <Button
-                variant="outline"
-                className="w-full text-sm"
-                data-testid="button-show-all-clusters"
-              >
-                Show all {clusters.length} clusters
-              </Button>
-            )}
-          </div>
+          {/* Cluster Profiles */}
+          <ClusterProfiles />
 
           <Separator />
 
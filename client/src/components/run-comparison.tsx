@@ -0,0 +1,140 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import SimpleClusterVisualization from "./simple-cluster-visualization";
+import { adjustedRandIndex } from "@shared/cluster-metrics";
+import { enterprisePoints } from "@shared/enterprise-points";
+import { describeFeatureSet } from "@/lib/feature-selection";
+import type { ClusteringRun, ClusterResult } from "@shared/schema";
+
+interface RunComparisonProps {
+  runIds: [string, string];
+}
+
+// Enterprise label keyed by taxcode + report year, for matching points across runs
+function labelsByEnterprise(result: ClusterResult): Map<string, number> {
+  const labels = new Map<string, number>();
+  for (const point of enterprisePoints(result)) {
+    if (point.taxcode) labels.set(point.id, point.cluster);
+  }
+  return labels;
+}
+
+function clusterSizes(result: ClusterResult): number[] {
+  if (result.size) return result.size;
+  const sizes: number[] = [];
+  labelsByEnterprise(result).forEach((label) => {
+    sizes[label] = (sizes[label] || 0) + 1;
+  });
+  return Array.from(sizes, (size) => size || 0);
+}
+
+function formatParam(value: unknown): string {
+  return Array.isArray(value) ? value.join(", ") : String(value ?? "—");
+}
+
+export default function RunComparison({ runIds }: RunComparisonProps) {
+  const left = useQuery<ClusteringRun>({ queryKey: ["/api/runs", runIds[0]] });
+  const right = useQuery<ClusteringRun>({ queryKey: ["/api/runs", runIds[1]] });
+
+  const agreement = useMemo(() => {
+    if (!left.data || !right.data) return null;
+    const a = labelsByEnterprise(left.data.result);
+    const b = labelsByEnterprise(right.data.result);
+    const shared = Array.from(a.keys()).filter((key) => b.has(key));
+    if (shared.length < 2) return { shared: shared.length, ari: NaN };
+    return {
+      shared: shared.length,
+      ari: adjustedRandIndex(shared.map((key) => a.get(key)!), shared.map((key) => b.get(key)!)),
+    };
+  }, [left.data, right.data]);
+
+  if (left.isLoading || right.isLoading) {
+    return <div className="text-center text-muted-foreground p-8">Loading runs...</div>;
+  }
+
+  if (!left.data || !right.data) {
+    return <div className="text-center text-muted-foreground p-8">Could not load both runs</div>;
+  }
+
+  const runs = [left.data, right.data];
+  const rows: { label: string; values: string[] }[] = [
+    { label: "Finished", values: runs.map((run) => new Date(run.completedAt).toLocaleString()) },
+    { label: "Endpoint", values: runs.map((run) => run.endpoint) },
+    { label: "Mã ngành", values: runs.map((run) => formatParam(run.parameters.level_value)) },
+    { label: "Lambda (λ)", values: runs.map((run) => formatParam(run.parameters.lambda)) },
+    { label: "k", values: runs.map((run) => formatParam(run.parameters.k)) },
+    { label: "PCA dim", values: runs.map((run) => formatParam(run.parameters.pca_dim)) },
+    { label: "Features", values: runs.map((run) => describeFeatureSet(run.parameters)) },
+    { label: "Best k", values: runs.map((run) => String(run.result.best_k)) },
+    { label: "Samples", values: runs.map((run) => formatParam(run.result.n_samples)) },
+    { label: "Cluster sizes", values: runs.map((run) => clusterSizes(run.result).join(" / ") || "—") },
+    {
+      label: "Silhouette (best k)",
+      values: runs.map((run) => {
+        const row = run.result.metrics?.find((m) => m.k === run.result.best_k);
+        return row?.silhouette != null ? row.silhouette.toFixed(3) : "—";
+      }),
+    },
+  ];
+
+  return (
+    <div className="space-y-4" data-testid="run-comparison">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm flex items-center justify-between">
+            <span>Run Comparison</span>
+            {agreement && (
+              <Badge variant="secondary" data-testid="comparison-ari">
+                {agreement.shared > 1
+                  ? `ARI ${agreement.ari.toFixed(3)} over ${agreement.shared.toLocaleString()} shared enterprises`
+                  : "No shared enterprises to compare labels"}
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead>Run A</TableHead>
+                <TableHead>Run B</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.label}>
+                  <TableCell className="font-medium text-muted-foreground">{row.label}</TableCell>
+                  {row.values.map((value, index) => (
+                    <TableCell
+                      key={index}
+                      className={row.values[0] !== row.values[1] ? "text-blue-700" : undefined}
+                    >
+                      {value}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+        {runs.map((run, index) => (
+          <Card key={run.run_id} className="overflow-hidden">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm">Run {index === 0 ? "A" : "B"}</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <SimpleClusterVisualization clusterResult={run.result} width={520} height={400} />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
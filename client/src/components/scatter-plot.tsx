@@ -6,6 +6,8 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Move, ZoomIn, Lasso, Maximize, ExternalLink, Download, FileImage, Expand } from "lucide-react";
 import Plotly from "plotly.js-dist";
+import { enterprisePoints, type EnterprisePoint } from "@shared/enterprise-points";
+import { describeRenderPlan, planRender } from "@/lib/render-mode";
 
 
 export default function ScatterPlot() {
@@ -67,87 +69,14 @@ export default function ScatterPlot() {
   useEffect(() => {
     if (!plotRef.current) return;
 
-    // Transform API data for visualization
-    let processedData;
-    
-    if (results?.clusterResult?.companies && Array.isArray(results.clusterResult.companies)) {
-      // Process new API format with companies array
-      processedData = [];
-      let pointIndex = 0;
-      
-      results.clusterResult.companies.forEach((company: any) => {
-        if (company.enterprise && Array.isArray(company.enterprise)) {
-          company.enterprise.forEach((enterprise: any) => {
-            const clusterLabel = enterprise.cluster || enterprise.Label || 0;
-            
-            // Check for new format with pca2_x/pca2_y
-            let embX, embY;
-            if (enterprise.pca2_x !== undefined && enterprise.pca2_y !== undefined) {
-              embX = enterprise.pca2_x;
-              embY = enterprise.pca2_y;
-            } else if (enterprise.emb_x !== undefined && enterprise.emb_y !== undefined) {
-              embX = enterprise.emb_x;
-              embY = enterprise.emb_y;
-            } else {
-              embX = 0;
-              embY = 0;
-            }
-            
-            // Calculate size based on employee count or use default
-            let calculatedSize = 0.1; // default minimum size
-            if (enterprise.empl_qtty && enterprise.empl_qtty > 0) {
-              calculatedSize = Math.log10(enterprise.empl_qtty + 1) * 0.5; // logarithmic scaling
-            }
-            calculatedSize = Math.max(0.1, calculatedSize); // ensure minimum size
-            
-            processedData.push({
-              id: `company-${pointIndex}`,
-              info: {
-                name: enterprise.name || 'Unknown Company',
-                taxcode: enterprise.taxcode || '',
-                sector: enterprise.sector_name || '',
-                sector_unique_id: enterprise.sector_unique_id || company.sector_unique_id || '',
-                employees: enterprise.empl_qtty || 0,
-                s_DT_TTM: enterprise.s_DT_TTM || 0,
-                s_EMPL: enterprise.s_EMPL || 0,
-                s_TTS: enterprise.s_TTS || 0,
-                s_VCSH: enterprise.s_VCSH || 0
-              },
-              embedding: enterprise.embedding || [embX, embY],
-              pca: {
-                x: embX,
-                y: embY,
-                z: calculatedSize
-              },
-              cluster: clusterLabel
-            });
-            pointIndex++;
-          });
-        }
-      });
-    } else if (results?.clusterResult?.embedding && results?.clusterResult?.labels && results?.clusterResult?.size) {
-      // Process legacy API format
-      processedData = results.clusterResult.embedding.map((coords: number[], i: number) => ({
-        id: `point-${i}`,
-        info: {},
-        embedding: coords,
-        pca: {
-          x: coords[0],
-          y: coords[1],
-          z: results.clusterResult.size![i] || 0
-        },
-        cluster: results.clusterResult.labels![i] || 0
-      }));
-    } else {
-      // No data available
-      processedData = [];
-    }
-
-    const dataPoints = processedData;
+    const dataPoints = results?.clusterResult
+      ? enterprisePoints(results.clusterResult).filter((point) => point.located)
+      : [];
     
+    // Above the high-volume threshold: one WebGL marker trace per cluster over a sample
+    const plan = planRender(dataPoints, (point) => point.cluster);
     console.log("🔍 Debug visualization data:");
-    console.log("📊 Total dataPoints:", dataPoints.length);
-    console.log("🏷️ All cluster values:", dataPoints.map(d => d.cluster));
+    console.log("📊 Total dataPoints:", dataPoints.length, "rendered:", describeRenderPlan(plan));
     
     const clusters = Array.from(new Set(dataPoints.map(d => d.cluster).filter(c => c !== null && c !== undefined))).sort();
     console.log("🎯 Unique clusters found:", clusters);
@@ -161,35 +90,51 @@ export default function ScatterPlot() {
     // Create 3D mesh column traces for each cluster
     const traces: any[] = [];
     
+    // Create detailed hover text with all company information
+    const hoverTextOf = (point: EnterprisePoint) => {
+      let hoverText = `<b>${point.name}</b><br>`;
+      hoverText += `Tọa độ: (${point.x.toFixed(3)}, ${point.y.toFixed(3)})<br>`;
+      hoverText += `Kích thước quy mô: ${point.markerSize.toFixed(2)}<br>`;
+      hoverText += `Mã số thuế: ${point.taxcode || 'N/A'}<br>`;
+      hoverText += `Tên ngành: ${point.sectorName || 'N/A'}<br>`;
+      hoverText += `Sector ID: ${point.sectorId || 'N/A'}<br>`;
+      hoverText += `Số nhân viên: ${(point.employees ?? 0).toLocaleString()}`;
+      return hoverText;
+    };
+    const heightOf = (point: EnterprisePoint) => Math.max(0.1, point.markerSize * 1.5);
+
     clusters.forEach((clusterId, index) => {
-      const clusterPoints = dataPoints.filter(d => d.cluster === clusterId);
+      const clusterSize = dataPoints.filter(d => d.cluster === clusterId).length;
+      const clusterPoints = plan.points.filter(d => d.cluster === clusterId);
       const showCluster = selectedClusters.length === 0 || selectedClusters.includes(clusterId!);
       const clusterColor = colors[index % colors.length];
       
-      console.log(`🎨 Cluster ${clusterId}: ${clusterPoints.length} points`);
+      console.log(`🎨 Cluster ${clusterId}: ${clusterPoints.length} of ${clusterSize} points`);
+
+      // Column tops as markers: one trace instead of a mesh per enterprise
+      if (plan.highVolume) {
+        traces.push({
+          type: 'scatter3d',
+          mode: 'markers',
+          x: clusterPoints.map(d => d.x),
+          y: clusterPoints.map(d => d.y),
+          z: clusterPoints.map(heightOf),
+          marker: { color: clusterColor, size: 2, opacity: showCluster ? 0.8 : 0.1 },
+          name: `Cluster ${clusterId} (${clusterSize})`,
+          text: clusterPoints.map(hoverTextOf),
+          hoverinfo: 'text',
+          visible: showCluster,
+        });
+        return;
+      }
       
       clusterPoints.forEach((point, pointIndex) => {
-        const x = point.pca?.x || 0;
-        const y = point.pca?.y || 0;
-        const height = Math.max(0.1, (point.pca?.z || ((point as any).size || 0)) * 1.5);
+        const x = point.x;
+        const y = point.y;
+        const height = heightOf(point);
         const columnWidth = 0.002; // Much smaller width to prevent overlapping
         const w = columnWidth / 2;
-        
-        // Create detailed hover text with all company information
-        const enterpriseName = point.info?.name || 'N/A';
-        const sectorId = point.info?.sector_unique_id || 'N/A';
-        const sectorName = point.info?.sector || 'N/A';
-        const taxCode = point.info?.taxcode || 'N/A';
-        const employees = point.info?.employees || 0;
-        const size = point.pca?.z || 0;
-        
-        let hoverText = `<b>${enterpriseName}</b><br>`;
-        hoverText += `Tọa độ: (${x.toFixed(3)}, ${y.toFixed(3)})<br>`;
-        hoverText += `Kích thước quy mô: ${size.toFixed(2)}<br>`;
-        hoverText += `Mã số thuế: ${taxCode}<br>`;
-        hoverText += `Tên ngành: ${sectorName}<br>`;
-        hoverText += `Sector ID: ${sectorId}<br>`;
-        hoverText += `Số nhân viên: ${employees.toLocaleString()}`;
+        const hoverText = hoverTextOf(point);
         
         // 8 vertices of rectangular column
         const vertices = [
@@ -224,7 +169,7 @@ export default function ScatterPlot() {
           color: clusterColor,
           opacity: showCluster ? 0.8 : 0.1,
           showlegend: pointIndex === 0,
-          name: pointIndex === 0 ? `Cluster ${clusterId} (${clusterPoints.length})` : undefined,
+          name: pointIndex === 0 ? `Cluster ${clusterId} (${clusterSize})` : undefined,
           text: hoverText,
           hoverinfo: 'text',
           visible: showCluster,
@@ -321,7 +266,8 @@ export default function ScatterPlot() {
       doubleClick: 'reset',
     };
 
-    Plotly.newPlot(plotRef.current, traces, layout, config).then(() => {
+    // react diffs against the current plot instead of rebuilding it
+    Plotly.react(plotRef.current, traces, layout, config).then(() => {
       setPlotReady(true);
     });
 
@@ -341,13 +287,16 @@ export default function ScatterPlot() {
           break;
       }
     }
+  }, [results, selectedClusters, activeTool]);
 
+  // Plotly.react keeps the plot between updates, so free it on unmount
+  useEffect(() => {
     return () => {
       if (plotRef.current) {
         Plotly.purge(plotRef.current);
       }
     };
-  }, [results, selectedClusters, activeTool]);
+  }, []);
 
   const handleClusterFilter = (value: string) => {
     if (value === "all") {
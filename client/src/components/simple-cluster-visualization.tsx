@@ -1,5 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { ClusterResult } from '../../../shared/schema';
+import { enterprisePoints } from '../../../shared/enterprise-points';
 import Plotly from 'plotly.js-dist';
 import { Button } from "@/components/ui/button";
 import { Download, FileImage } from "lucide-react";
@@ -16,6 +17,7 @@ interface DataPoint {
   cluster: number;
   size: number;
   index: number;
+  name: string;
 }
 
 export default function SimpleClusterVisualization({ 
@@ -35,62 +37,16 @@ export default function SimpleClusterVisualization({
   }
 
   // Prepare data points
-  let data: DataPoint[] = [];
-  
-  if (clusterResult.companies && Array.isArray(clusterResult.companies)) {
-    // Process new companies format
-    let pointIndex = 0;
-    clusterResult.companies.forEach((company: any) => {
-      if (company.enterprise && Array.isArray(company.enterprise)) {
-        company.enterprise.forEach((enterprise: any) => {
-          // Check for new format with pca2_x/pca2_y
-          let embX, embY;
-          if (enterprise.pca2_x !== undefined && enterprise.pca2_y !== undefined) {
-            embX = enterprise.pca2_x;
-            embY = enterprise.pca2_y;
-          } else if (enterprise.emb_x !== undefined && enterprise.emb_y !== undefined) {
-            embX = enterprise.emb_x;
-            embY = enterprise.emb_y;
-          } else {
-            embX = 0;
-            embY = 0;
-          }
-          
-          const clusterLabel = enterprise.cluster || enterprise.Label || 0;
-          const size = enterprise.empl_qtty ? Math.log10(enterprise.empl_qtty + 1) * 0.5 : 0.1;
-          
-          data.push({
-            x: embX,
-            y: embY,
-            cluster: clusterLabel,
-            size: Math.max(0.1, size),
-            index: pointIndex,
-            companyInfo: {
-              name: enterprise.name || 'Unknown Company',
-              taxcode: enterprise.taxcode || '',
-              sector_name: enterprise.sector_name || '',
-              sector_unique_id: enterprise.sector_unique_id || company.sector_unique_id || '',
-              empl_qtty: enterprise.empl_qtty || 0,
-              s_DT_TTM: enterprise.s_DT_TTM || 0,
-              s_EMPL: enterprise.s_EMPL || 0,
-              s_TTS: enterprise.s_TTS || 0,
-              s_VCSH: enterprise.s_VCSH || 0
-            }
-          });
-          pointIndex++;
-        });
-      }
-    });
-  } else if (clusterResult.embedding && clusterResult.labels) {
-    // Fallback to legacy format
-    data = clusterResult.embedding.map((coords: number[], i: number) => ({
-      x: coords[0],
-      y: coords[1],
-      cluster: clusterResult.labels![i] || 0,
-      size: clusterResult.size![i] || 0,
-      index: i
+  const data: DataPoint[] = enterprisePoints(clusterResult)
+    .filter((point) => point.located)
+    .map((point) => ({
+      x: point.x,
+      y: point.y,
+      cluster: point.cluster,
+      size: point.markerSize,
+      index: point.index,
+      name: point.name,
     }));
-  }
 
   const clusters = Array.from(new Set(data.map(d => d.cluster))).sort();
   
@@ -124,7 +80,7 @@ export default function SimpleClusterVisualization({
           }
         },
         text: clusterPoints.map(d => 
-          `Company ${d.index}<br>Cluster: ${d.cluster}<br>Size: ${d.size.toFixed(2)}<br>Position: (${d.x.toFixed(2)}, ${d.y.toFixed(2)}, ${d.size.toFixed(2)})`
+          `${d.name}<br>Cluster: ${d.cluster}<br>Size: ${d.size.toFixed(2)}<br>Position: (${d.x.toFixed(2)}, ${d.y.toFixed(2)}, ${d.size.toFixed(2)})`
         ),
         hovertemplate: '%{text}<extra></extra>',
       };
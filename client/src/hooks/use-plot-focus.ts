@@ -0,0 +1,29 @@
+import { useEffect, type RefObject } from "react";
+import { flyTo, pulseFocus, setFocusTrace, type FocusPoint } from "@/lib/plot-focus";
+
+/**
+ * Keep a 2D Plotly plot centred on `target` with a pulsing ring around it;
+ * a null target removes the ring
+ */
+export function usePlotFocus(plotRef: RefObject<HTMLDivElement>, plotReady: boolean, target: FocusPoint | null, span: number) {
+  const { x, y, label } = target ?? { x: NaN, y: NaN, label: "" };
+
+  useEffect(() => {
+    const plotDiv = plotRef.current;
+    if (!plotDiv || !plotReady) return;
+    let cancelled = false;
+    let stopPulse = () => {};
+
+    const point = Number.isFinite(x) && Number.isFinite(y) ? { x, y, label } : null;
+    setFocusTrace(plotDiv, point, false).then(() => {
+      if (cancelled || !point) return;
+      flyTo(plotDiv, point, span, false);
+      stopPulse = pulseFocus(plotDiv);
+    });
+
+    return () => {
+      cancelled = true;
+      stopPulse();
+    };
+  }, [plotRef, plotReady, x, y, label, span]);
+}
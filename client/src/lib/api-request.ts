@@ -0,0 +1,118 @@
+/**
+ * Shared fetch wrapper for the clustering backend: per-call timeout, retries
+ * with exponential backoff for idempotent calls, and caller cancellation.
+ */
+
+export interface RequestOptions extends Omit<RequestInit, "signal"> {
+  // Per-attempt timeout; 0 disables it
+  timeoutMs?: number;
+  // Extra attempts after the first; defaults to 2 for GET/HEAD and 0 otherwise
+  retries?: number;
+  // Cancels the request (and any pending retry) when aborted
+  signal?: AbortSignal;
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(public url: string, public timeoutMs: number) {
+    super(`Timeout: ${url} không phản hồi sau ${+(timeoutMs / 1000).toFixed(1)} giây`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super("Request cancelled");
+    this.name = "RequestCancelledError";
+  }
+}
+
+export function isCancelled(error: unknown): boolean {
+  return error instanceof RequestCancelledError;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+// Gateway / rate-limit statuses worth another attempt
+const RETRY_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new RequestCancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function attempt(url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = timeoutMs > 0
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs)
+    : undefined;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new RequestTimeoutError(url, timeoutMs);
+    if (signal?.aborted) throw new RequestCancelledError();
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * fetch() with the backend defaults. Resolves with the last response even when
+ * it is not ok, so callers keep their own status handling; rejects with
+ * RequestTimeoutError, RequestCancelledError or the network error once
+ * retries are exhausted.
+ */
+export async function apiFetch(url: string, options: RequestOptions = {}): Promise<Response> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries, signal, headers, ...init } = options;
+  const method = (init.method ?? "GET").toUpperCase();
+  const maxRetries = retries ?? (method === "GET" || method === "HEAD" ? 2 : 0);
+  const requestInit: RequestInit = {
+    ...init,
+    method,
+    headers,
+  };
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    if (signal?.aborted) throw new RequestCancelledError();
+
+    let retryReason: string;
+    try {
+      const response = await attempt(url, requestInit, timeoutMs, signal);
+      if (!RETRY_STATUSES.has(response.status) || attemptIndex >= maxRetries) {
+        return response;
+      }
+      retryReason = `HTTP ${response.status}`;
+    } catch (error) {
+      if (isCancelled(error) || attemptIndex >= maxRetries) throw error;
+      retryReason = error instanceof Error ? error.message : String(error);
+    }
+
+    const delay = backoffDelay(attemptIndex);
+    console.warn(`🔁 ${method} ${url} failed (${retryReason}), retry ${attemptIndex + 1}/${maxRetries} in ${Math.round(delay)}ms`);
+    await sleep(delay, signal);
+  }
+}
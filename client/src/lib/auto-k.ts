@@ -0,0 +1,80 @@
+import type { KMetrics } from "@shared/schema";
+
+export type AutoKCriterion = "silhouette" | "elbow" | "gap";
+
+export interface AutoKChoice {
+  k: number;
+  reason: string;
+}
+
+/**
+ * Highest silhouette score
+ */
+function bySilhouette(rows: KMetrics[]): AutoKChoice | null {
+  const scored = rows.filter(row => row.silhouette !== null);
+  if (scored.length === 0) return null;
+  const best = scored.reduce((a, b) => (b.silhouette! > a.silhouette! ? b : a));
+  return { k: best.k, reason: `highest silhouette (${best.silhouette!.toFixed(3)})` };
+}
+
+/**
+ * Knee of the inertia curve (Kneedle): after scaling k and inertia to [0, 1], the k
+ * furthest below the straight line joining the first and last points
+ */
+function byElbow(rows: KMetrics[]): AutoKChoice | null {
+  const scored = rows.filter(row => row.inertia !== null);
+  if (scored.length < 3) return null;
+
+  const kMin = scored[0].k;
+  const kMax = scored[scored.length - 1].k;
+  const values = scored.map(row => row.inertia!);
+  const high = Math.max(...values);
+  const low = Math.min(...values);
+  if (high === low) return null;
+
+  let best = scored[0];
+  let bestDistance = -Infinity;
+  scored.forEach(row => {
+    const x = (row.k - kMin) / (kMax - kMin);
+    const y = (row.inertia! - low) / (high - low);
+    const distance = (1 - x) - y;
+    if (distance > bestDistance) {
+      bestDistance = distance;
+      best = row;
+    }
+  });
+  return { k: best.k, reason: `inertia elbow (knee distance ${bestDistance.toFixed(3)})` };
+}
+
+/**
+ * Smallest k with Gap(k) >= Gap(k+1) - s(k+1); the largest gap when no k qualifies
+ */
+function byGap(rows: KMetrics[]): AutoKChoice | null {
+  const scored = rows.filter(row => row.gap !== null && row.gap !== undefined);
+  if (scored.length === 0) return null;
+
+  for (let i = 0; i < scored.length - 1; i++) {
+    const next = scored[i + 1];
+    if (scored[i].gap! >= next.gap! - (next.gap_sk ?? 0)) {
+      return { k: scored[i].k, reason: `gap statistic (Gap=${scored[i].gap!.toFixed(3)} ≥ Gap(k+1) − s)` };
+    }
+  }
+  const best = scored.reduce((a, b) => (b.gap! > a.gap! ? b : a));
+  return { k: best.k, reason: `largest gap statistic (${best.gap!.toFixed(3)})` };
+}
+
+/**
+ * Pick k from a sweep's per-k metrics. Returns null when the metrics the criterion
+ * needs are missing (e.g. a backend that does not report the gap statistic).
+ */
+export function chooseK(rows: KMetrics[], criterion: AutoKCriterion): AutoKChoice | null {
+  const sorted = [...rows].sort((a, b) => a.k - b.k);
+  switch (criterion) {
+    case "silhouette":
+      return bySilhouette(sorted);
+    case "elbow":
+      return byElbow(sorted);
+    case "gap":
+      return byGap(sorted);
+  }
+}
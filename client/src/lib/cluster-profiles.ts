@@ -0,0 +1,289 @@
+import type { ClusterResult } from "@shared/schema";
+import { enterprisePoints, type EnterprisePoint } from "@shared/enterprise-points";
+import { isIdentifierColumn } from "./data-quality";
+
+export interface FeatureProfile {
+  column: string;
+  mean: number;
+  median: number;
+  overallMean: number;
+  overallMedian: number;
+  // Standardized mean difference from the population: (mean - overallMean) / overallStd
+  effect: number;
+}
+
+export interface SectorShare {
+  name: string;
+  count: number;
+  share: number;
+}
+
+export interface EmployeeBand {
+  label: string;
+  count: number;
+}
+
+export interface Representative {
+  name: string;
+  taxcode: string;
+  yearreport: string;
+  // Euclidean distance to the cluster centroid over z-scored features
+  distance: number;
+}
+
+export interface ClusterProfile {
+  cluster: number;
+  size: number;
+  share: number;
+  features: FeatureProfile[];
+  // Largest |effect| first
+  distinguishing: FeatureProfile[];
+  sectors: SectorShare[];
+  employees: EmployeeBand[];
+  representatives: Representative[];
+}
+
+export interface ClusterMix {
+  cluster: number;
+  count: number;
+  share: number;
+  // Share of the whole population in this cluster
+  populationShare: number;
+}
+
+export interface CohortSectorShare extends SectorShare {
+  populationShare: number;
+}
+
+export interface CohortProfile {
+  size: number;
+  share: number;
+  // Cohort ids with no enterprise in this result
+  missing: number;
+  features: FeatureProfile[];
+  // Largest |effect| first
+  distinguishing: FeatureProfile[];
+  clusters: ClusterMix[];
+  sectors: CohortSectorShare[];
+  employees: EmployeeBand[];
+  // Employee band counts of the whole population, in the same order
+  populationEmployees: EmployeeBand[];
+}
+
+export interface ProfileOptions {
+  topFeatures?: number;
+  topSectors?: number;
+  representatives?: number;
+}
+
+// Employee count bands, upper bounds inclusive
+const EMPLOYEE_BANDS: { label: string; max: number }[] = [
+  { label: "≤10", max: 10 },
+  { label: "11–50", max: 50 },
+  { label: "51–200", max: 200 },
+  { label: "201–1000", max: 1000 },
+  { label: ">1000", max: Infinity },
+];
+
+function isValue(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Numeric enterprise fields, in the order they first appear
+function numericColumns(points: EnterprisePoint[]): string[] {
+  const columns = new Set<string>();
+  for (const point of points) {
+    for (const [column, value] of Object.entries(point.row)) {
+      if (isValue(value) && !isIdentifierColumn(column)) columns.add(column);
+    }
+  }
+  return Array.from(columns);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : NaN;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return NaN;
+  const sorted = Float64Array.from(values).sort();
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function employeeBands(points: EnterprisePoint[]): EmployeeBand[] {
+  const counts = EMPLOYEE_BANDS.map((band) => ({ label: band.label, count: 0 }));
+  let unknown = 0;
+  for (const { employees } of points) {
+    if (employees === null) {
+      unknown++;
+      continue;
+    }
+    counts[EMPLOYEE_BANDS.findIndex((band) => employees <= band.max)].count++;
+  }
+  return unknown > 0 ? [...counts, { label: "unknown", count: unknown }] : counts;
+}
+
+function sectorOf(point: EnterprisePoint): string {
+  return point.sectorName || point.sectorId || "unknown";
+}
+
+function sectorShares(points: EnterprisePoint[], top: number): SectorShare[] {
+  const counts = new Map<string, number>();
+  for (const point of points) {
+    const name = sectorOf(point);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count, share: count / points.length }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, top);
+}
+
+interface PopulationStats {
+  column: string;
+  mean: number;
+  median: number;
+  std: number;
+}
+
+function populationStats(points: EnterprisePoint[], rows: Record<string, any>[]): PopulationStats[] {
+  return numericColumns(points).map((column) => {
+    const values = rows.map((row) => row[column]).filter(isValue);
+    const average = mean(values);
+    const std = Math.sqrt(mean(values.map((v) => (v - average) ** 2)));
+    return { column, mean: average, median: median(values), std };
+  });
+}
+
+// Every feature of the rows at `indices` against the population
+function featureProfiles(population: PopulationStats[], rows: Record<string, any>[], indices: number[]): FeatureProfile[] {
+  return population.map((stats) => {
+    const values = indices.map((index) => rows[index][stats.column]).filter(isValue);
+    const groupMean = mean(values);
+    return {
+      column: stats.column,
+      mean: groupMean,
+      median: median(values),
+      overallMean: stats.mean,
+      overallMedian: stats.median,
+      effect: stats.std > 0 && values.length > 0 ? (groupMean - stats.mean) / stats.std : 0,
+    };
+  });
+}
+
+function mostDistinguishing(features: FeatureProfile[], top: number): FeatureProfile[] {
+  return [...features]
+    .filter((feature) => feature.effect !== 0)
+    .sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect))
+    .slice(0, top);
+}
+
+/**
+ * Profile of every cluster of a result: each numeric enterprise feature against
+ * the whole population, the most distinguishing features, dominant sectors, the
+ * employee size distribution and the enterprises nearest the cluster centroid.
+ * Features are the result's `info_features` when the backend reports them for
+ * centroid distances, otherwise every numeric field.
+ */
+export function buildClusterProfiles(result: ClusterResult, options: ProfileOptions = {}): ClusterProfile[] {
+  const { topFeatures = 5, topSectors = 3, representatives = 5 } = options;
+  const points = enterprisePoints(result);
+  const rows = points.map((point) => point.row as Record<string, any>);
+  if (rows.length === 0) return [];
+
+  const population = populationStats(points, rows);
+  const columns = population.map((stats) => stats.column);
+
+  // z-scored feature space for centroid distances; missing values sit at the mean
+  const spaceColumns = result.info_features?.filter((column) => columns.includes(column)) ?? columns;
+  const space = population.filter((stats) => spaceColumns.includes(stats.column) && stats.std > 0);
+  const zScores = rows.map((row) => space.map((stats) => (isValue(row[stats.column]) ? (row[stats.column] - stats.mean) / stats.std : 0)));
+
+  const members = new Map<number, number[]>();
+  points.forEach(({ cluster }, index) => {
+    if (!members.has(cluster)) members.set(cluster, []);
+    members.get(cluster)!.push(index);
+  });
+
+  return Array.from(members.keys()).sort((a, b) => a - b).map((cluster) => {
+    const indices = members.get(cluster)!;
+    const clusterPoints = indices.map((index) => points[index]);
+
+    const features = featureProfiles(population, rows, indices);
+
+    const centroid = space.map((_, d) => mean(indices.map((index) => zScores[index][d])));
+    const nearest = indices
+      .map((index) => ({
+        index,
+        distance: Math.sqrt(zScores[index].reduce((sum, z, d) => sum + (z - centroid[d]) ** 2, 0)),
+      }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, representatives)
+      .map(({ index, distance }) => ({
+        name: points[index].name,
+        taxcode: points[index].taxcode,
+        yearreport: points[index].yearreport,
+        distance,
+      }));
+
+    return {
+      cluster,
+      size: indices.length,
+      share: indices.length / rows.length,
+      features,
+      distinguishing: mostDistinguishing(features, topFeatures),
+      sectors: sectorShares(clusterPoints, topSectors),
+      employees: employeeBands(clusterPoints),
+      representatives: nearest,
+    };
+  });
+}
+
+/**
+ * Profile of a hand-picked set of enterprises (a lasso/box selection or a saved
+ * cohort) against the whole population: features, cluster and sector mix, and
+ * employee sizes. Ids not in `result` are counted in `missing`. Returns null
+ * when none of the ids are in the result.
+ */
+export function buildCohortProfile(result: ClusterResult, ids: string[], options: ProfileOptions = {}): CohortProfile | null {
+  const { topFeatures = 5, topSectors = 5 } = options;
+  const points = enterprisePoints(result);
+  const wanted = new Set(ids);
+  const indices = points.flatMap((point, index) => (wanted.has(point.id) ? [index] : []));
+  if (indices.length === 0) return null;
+
+  const rows = points.map((point) => point.row as Record<string, any>);
+  const cohortPoints = indices.map((index) => points[index]);
+  const features = featureProfiles(populationStats(points, rows), rows, indices);
+
+  const clusterCounts = new Map<number, { count: number; total: number }>();
+  for (const { cluster } of points) {
+    const counts = clusterCounts.get(cluster) ?? { count: 0, total: 0 };
+    counts.total++;
+    clusterCounts.set(cluster, counts);
+  }
+  for (const { cluster } of cohortPoints) clusterCounts.get(cluster)!.count++;
+
+  const sectorTotals = new Map<string, number>();
+  for (const point of points) sectorTotals.set(sectorOf(point), (sectorTotals.get(sectorOf(point)) ?? 0) + 1);
+
+  return {
+    size: indices.length,
+    share: indices.length / points.length,
+    missing: wanted.size - indices.length,
+    features,
+    distinguishing: mostDistinguishing(features, topFeatures),
+    clusters: Array.from(clusterCounts, ([cluster, { count, total }]) => ({
+      cluster,
+      count,
+      share: count / indices.length,
+      populationShare: total / points.length,
+    })).sort((a, b) => a.cluster - b.cluster),
+    sectors: sectorShares(cohortPoints, topSectors).map((sector) => ({
+      ...sector,
+      populationShare: (sectorTotals.get(sector.name) ?? 0) / points.length,
+    })),
+    employees: employeeBands(cohortPoints),
+    populationEmployees: employeeBands(points),
+  };
+}
@@ -1,30 +1,78 @@
-import { ApiConfig, ClusterResult, ClusteringParams } from "@shared/schema";
+import { ApiConfig, ClusterResult, ClusteringJob, ClusteringParams, GridSweep, GridSweepResult, KMetrics, clusteringJobSchema, gridSweepResultSchema } from "@shared/schema";
+import { parseMetricsCsv, parseLabelsCsv, type LabelRow } from "./k-selection";
+import { parseJsonLenient, validateClusterResult, formatReport, ResponseValidationError, type ResultFallbacks } from "./response-validation";
+import { apiFetch, isCancelled, RequestTimeoutError, type RequestOptions } from "./api-request";
+import { compressFile, DEFAULT_CHUNK_BYTES, type UploadEncoding } from "./upload";
 
 interface ClusteringRequest {
   lambda: number;
   k_list: number[];
 }
 
+export interface UploadedFile {
+  upload_id: string;
+  // Bytes sent, after compression
+  bytes: number;
+  encoding: UploadEncoding;
+}
+
+/**
+ * Auth headers for a backend: the API key as X-API-Key, or as a bearer token
+ */
+export function authHeaders(config: ApiConfig): Record<string, string> {
+  if (!config.apiKey) return {};
+  return config.authType === "bearer"
+    ? { Authorization: `Bearer ${config.apiKey}` }
+    : { "X-API-Key": config.apiKey };
+}
+
+/**
+ * JSON body of a clustering run, shared by /cluster/run and /jobs. `extra` is
+ * merged in for engine-specific options (e.g. gap_references, id columns).
+ */
+function buildRunBody(
+  params: ClusteringParams,
+  datasetId?: string,
+  infoFileBase64?: string,
+  extra: Record<string, unknown> = {},
+): Record<string, unknown> {
+  return {
+    pca_dim: params.pca_dim,
+    lambda: params.lambda,
+    k: params.k,
+    level_value: params.level_value,
+    ...(params.exclude_columns?.length && { exclude_columns: params.exclude_columns }),
+    ...(params.feature_columns && { feature_columns: params.feature_columns }),
+    ...(params.feature_weights && { feature_weights: params.feature_weights }),
+    ...(params.preprocessing && { preprocessing: params.preprocessing }),
+    ...(infoFileBase64 && { info_quy_mo_b64: infoFileBase64 }),
+    ...(datasetId && { dataset_id: datasetId }),
+    ...extra,
+  };
+}
+
 class ClusteringApi {
-  async getMeta(config: ApiConfig) {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+  // apiFetch against the configured backend, with its auth headers
+  private request(config: ApiConfig, path: string, options: RequestOptions = {}): Promise<Response> {
+    return apiFetch(`${config.endpoint}${path}`, {
+      ...options,
+      headers: { ...authHeaders(config), ...(options.headers as Record<string, string> | undefined) },
+    });
+  }
 
+  async getMeta(config: ApiConfig, signal?: AbortSignal) {
     try {
       console.error(`[DEBUG] Calling API: ${config.endpoint}/meta`);
       console.error(`[DEBUG] Full URL: ${config.endpoint}/meta`);
       
-      const response = await fetch(`${config.endpoint}/meta`, {
+      const response = await this.request(config, '/meta', {
         method: 'GET',
-        mode: 'cors',
         headers: {
           'Accept': 'application/json',
-          'ngrok-skip-browser-warning': 'true',
         },
-        signal: controller.signal,
+        timeoutMs: 10000, // 10 second timeout
+        signal,
       });
-
-      clearTimeout(timeoutId);
       
       console.error(`[DEBUG] Response status: ${response.status}`);
       console.error(`[DEBUG] Response URL: ${response.url}`);
@@ -35,25 +83,25 @@ class ClusteringApi {
       console.error(`[DEBUG] Response body:`, responseText);
       console.error(`[DEBUG] Content-Type:`, response.headers.get('content-type'));
 
+      // The backend proxy reports upstream failures (including HTML error pages) as { error }
       if (!response.ok) {
-        throw new Error(`API Error ${response.status}: ${response.statusText}`);
-      }
-
-      // Check if response is actually JSON
-      if (responseText.includes('<!DOCTYPE') || responseText.includes('<html')) {
-        throw new Error(`Server trả về HTML thay vì JSON. Có thể bị redirect hoặc proxy issue.`);
+        let message = `API Error ${response.status}: ${response.statusText}`;
+        try {
+          message = JSON.parse(responseText).error ?? message;
+        } catch {
+          // Keep the status line
+        }
+        throw new Error(message);
       }
 
       console.error(`[DEBUG] API connection successful - received JSON`);
       return { status: 'ok' };
       
     } catch (error) {
-      clearTimeout(timeoutId);
-      
+      if (error instanceof RequestTimeoutError) {
+        throw new Error(`Timeout: API không phản hồi sau 10 giây. Kiểm tra ${config.endpoint}`);
+      }
       if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error(`Timeout: API không phản hồi sau 10 giây. Kiểm tra ${config.endpoint}`);
-        }
         if (error.message.includes('fetch') || error.message.includes('NetworkError')) {
           throw new Error(`Không thể kết nối đến API: ${config.endpoint}. Kiểm tra endpoint URL và kết nối mạng.`);
         }
@@ -62,34 +110,93 @@ class ClusteringApi {
     }
   }
 
-  async runPrepare(files: { embeddings: File; info: File }, config: ApiConfig): Promise<any> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout for file processing
+  // Capabilities advertised by the backend's /meta (e.g. the local engine's "grid_sweep")
+  async getCapabilities(config: ApiConfig, signal?: AbortSignal): Promise<string[]> {
+    try {
+      const response = await this.request(config, '/meta', {
+        headers: {
+          'Accept': 'application/json',
+        },
+        timeoutMs: 10000,
+        signal,
+      });
+      if (!response.ok) return [];
+      const meta = await response.json();
+      return Array.isArray(meta?.capabilities) ? meta.capabilities : [];
+    } catch (error) {
+      if (isCancelled(error)) throw error;
+      return [];
+    }
+  }
+
+  // Queue a (lambda x k) grid sweep as one server-side job (backends advertising "grid_sweep")
+  async submitGridSweep(
+    config: ApiConfig,
+    grid: GridSweep,
+    infoFileBase64?: string,
+    datasetId?: string,
+    signal?: AbortSignal,
+  ): Promise<{ job_id: string }> {
+    const requestBody = {
+      ...grid,
+      ...(infoFileBase64 && { info_quy_mo_b64: infoFileBase64 }),
+      ...(datasetId && { dataset_id: datasetId }),
+    };
+
+    console.log("🧮 Submitting grid sweep job:", {
+      lambda_values: grid.lambda_values,
+      k_values: grid.k_values,
+      dataset_id: datasetId,
+    });
 
+    const response = await this.request(config, '/sweep/jobs', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+      timeoutMs: 120000, // covers the upload of inline CSVs
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("❌ Grid sweep submission error:", errorText);
+      throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
+    }
+    return response.json();
+  }
+
+  async runPrepare(
+    files: { embeddings: File; info: File },
+    config: ApiConfig,
+    idColumns: { embeddings?: string; info?: string } = {},
+    signal?: AbortSignal,
+  ): Promise<any> {
     try {
       const formData = new FormData();
       formData.append('embeddings', files.embeddings);
       formData.append('info', files.info);
+      if (idColumns.embeddings) formData.append('embeddings_id_column', idColumns.embeddings);
+      if (idColumns.info) formData.append('info_id_column', idColumns.info);
 
       console.log(`🔄 Calling /prepare/run API:`, {
         url: `${config.endpoint}/prepare/run`,
         files: {
           embeddings: files.embeddings.name,
           info: files.info.name
-        }
+        },
+        idColumns,
       });
 
-      const response = await fetch(`${config.endpoint}/prepare/run`, {
+      const response = await this.request(config, '/prepare/run', {
         method: 'POST',
-        headers: {
-          'ngrok-skip-browser-warning': 'true',
-        },
         body: formData,
-        signal: controller.signal,
+        timeoutMs: 60000, // 60 second timeout for file processing
+        signal,
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
         let errorMessage = `API Error ${response.status}`;
         try {
@@ -105,12 +212,10 @@ class ClusteringApi {
       console.log(`✅ /prepare/run response:`, result);
       return result;
     } catch (error) {
-      clearTimeout(timeoutId);
-      
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error(`Timeout: API prepare không phản hồi sau 60 giây`);
-        }
+      if (error instanceof RequestTimeoutError) {
+        throw new Error(`Timeout: API prepare không phản hồi sau 60 giây`);
+      }
+      if (error instanceof Error && !isCancelled(error)) {
         if (error.message.includes('fetch') || error.message.includes('NetworkError') || error.message.includes('TypeError')) {
           throw new Error(`Không thể kết nối đến API prepare: ${config.endpoint}/prepare/run`);
         }
@@ -119,16 +224,18 @@ class ClusteringApi {
     }
   }
 
-  async runClustering(config: ApiConfig, params: ClusteringParams, infoFileBase64?: string): Promise<ClusterResult> {
+  // `extra` is merged into the request body for engine-specific options (e.g. gap_references)
+  async runClustering(
+    config: ApiConfig,
+    params: ClusteringParams,
+    infoFileBase64?: string,
+    datasetId?: string,
+    extra: Record<string, unknown> = {},
+    signal?: AbortSignal,
+  ): Promise<ClusterResult> {
     
     try {
-      const requestBody = {
-        pca_dim: params.pca_dim,
-        lambda: params.lambda,
-        k: params.k,
-        level_value: params.level_value,
-        ...(infoFileBase64 && { info_quy_mo_b64: infoFileBase64 })
-      };
+      const requestBody = buildRunBody(params, datasetId, infoFileBase64, extra);
 
       console.log("🔍 Info file check:");
       console.log("📄 infoFileBase64 provided:", !!infoFileBase64);
@@ -144,15 +251,15 @@ class ClusteringApi {
       console.log(JSON.stringify(requestBody, null, 2));
       console.log("🌐 Endpoint:", `${config.endpoint}/cluster/run`);
 
-      const response = await fetch(`${config.endpoint}/cluster/run`, {
+      const response = await this.request(config, '/cluster/run', {
         method: 'POST',
-        mode: 'cors',
         headers: {
           'Content-Type': 'application/json',
           'Accept': 'application/json',
-          'ngrok-skip-browser-warning': 'true',
         },
         body: JSON.stringify(requestBody),
+        timeoutMs: 10 * 60 * 1000,
+        signal,
       });
 
       console.log("📡 API Response Status:", response.status);
@@ -164,27 +271,30 @@ class ClusteringApi {
         throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
       }
 
-      // Get response text first to handle NaN values
+      // Python backends write NaN/Infinity, which JSON.parse rejects
       const responseText = await response.text();
       console.log("📥 Raw API Response Text (first 500 chars):", responseText.substring(0, 500));
-      
-      // Replace NaN values with null to make valid JSON
-      const sanitizedText = responseText.replace(/:\s*NaN\s*([,}])/g, ': null$1');
-      
+
+      let parsed: { value: unknown; nonFinite: number };
       try {
-        const result = JSON.parse(sanitizedText);
-        console.log("✅ API Response Data:");
-        console.log("📊 Full Backend Response:");
-        console.log(JSON.stringify(result, null, 2));
-        
-        return result;
+        parsed = parseJsonLenient(responseText);
       } catch (parseError) {
         console.error("❌ JSON Parse Error:", parseError);
-        console.error("🔍 Problematic text:", sanitizedText.substring(0, 1000));
+        console.error("🔍 Problematic text:", responseText.substring(0, 1000));
         throw new Error(`Invalid JSON response from API: ${parseError}`);
       }
+
+      const result = this.toClusterResult(parsed.value, parsed.nonFinite, {
+        dataset_id: datasetId,
+        lambda: params.lambda,
+        k: Array.isArray(params.k) ? params.k : [params.k],
+      });
+      console.log("✅ API Response Data:");
+      console.log("📊 Full Backend Response:");
+      console.log(JSON.stringify(result, null, 2));
+      return result;
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof Error && !(error instanceof ResponseValidationError) && !isCancelled(error)) {
         if (error.message.includes('fetch') || error.message.includes('NetworkError') || error.message.includes('TypeError')) {
           throw new Error(`Không thể kết nối đến API clustering: ${config.endpoint}/cluster/run`);
         }
@@ -193,16 +303,191 @@ class ClusteringApi {
     }
   }
 
-  async getLabels(labelsPath: string, config: ApiConfig): Promise<number[]> {
+  // Check a decoded response against clusterResultSchema; what had to be repaired
+  // is surfaced through the warnings the store already logs
+  private toClusterResult(value: unknown, nonFinite: number, fallbacks: ResultFallbacks): ClusterResult {
+    const { result, report } = validateClusterResult(value, fallbacks, nonFinite);
+    const reportLines = formatReport(report);
+    if (reportLines.length > 0) {
+      console.warn("⚠️ Response validation report:", report);
+      result.warnings = [...(result.warnings ?? []), ...reportLines.map((line) => `Response check: ${line}`)];
+    }
+    return result;
+  }
+
+  // Check a grid sweep like a run response: the matrix against its schema, and
+  // every per-lambda result through toClusterResult
+  private toGridSweepResult(value: unknown, nonFinite: number): GridSweepResult {
+    const parsed = gridSweepResultSchema.omit({ results: true }).safeParse(value);
+    if (!parsed.success) {
+      throw new Error(`Invalid grid sweep response: ${parsed.error.issues[0]?.message}`);
+    }
+    const { lambda_values, k_values } = parsed.data;
+    const results = (value as { results?: unknown }).results;
+    if (!Array.isArray(results) || results.length !== lambda_values.length) {
+      throw new Error("Invalid grid sweep response: expected one result per lambda");
+    }
+    return {
+      ...parsed.data,
+      // NaN/Infinity tokens are reported once, with the first result
+      results: results.map((result, index) =>
+        this.toClusterResult(result, index === 0 ? nonFinite : 0, { lambda: lambda_values[index], k: k_values })),
+    };
+  }
+
+  // Queue a run as a server-side job (backends advertising the "jobs" capability)
+  async submitJob(
+    config: ApiConfig,
+    params: ClusteringParams,
+    infoFileBase64?: string,
+    datasetId?: string,
+    extra: Record<string, unknown> = {},
+    signal?: AbortSignal,
+  ): Promise<{ job_id: string }> {
+    const requestBody = buildRunBody(params, datasetId, infoFileBase64, extra);
+    console.log("🧵 Submitting clustering job:", { lambda: params.lambda, k: params.k, dataset_id: datasetId });
+
+    const response = await this.request(config, '/jobs', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+      timeoutMs: 120000, // covers the upload of inline CSVs
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("❌ Job submission error:", errorText);
+      throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`);
+    }
+    return response.json();
+  }
+
+  // Message of a failed response: the backend's { error } when it sent one
+  private async errorMessage(response: Response): Promise<string> {
+    const text = await response.text();
     try {
-      console.log(`📄 Fetching labels from: ${labelsPath}`);
-      
-      const response = await fetch(`${config.endpoint}${labelsPath}`, {
-        method: 'GET',
+      return JSON.parse(text).error ?? `HTTP ${response.status}: ${text}`;
+    } catch {
+      return `HTTP ${response.status}: ${text || response.statusText}`;
+    }
+  }
+
+  /**
+   * Send a file in chunks to a backend advertising "chunked_upload", gzipped
+   * when the browser can. `onProgress` gets the bytes sent so far.
+   */
+  async uploadFile(
+    config: ApiConfig,
+    file: File,
+    onProgress?: (sent: number, total: number) => void,
+    signal?: AbortSignal,
+  ): Promise<UploadedFile> {
+    const { body, encoding } = await compressFile(file);
+    console.log(`📤 Uploading ${file.name}: ${file.size} bytes, ${body.size} sent (${encoding})`);
+
+    const created = await this.request(config, '/uploads', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({ name: file.name, size: body.size, encoding }),
+      timeoutMs: 10000,
+      signal,
+    });
+    if (!created.ok) {
+      throw new Error(`Upload of ${file.name} failed: ${await this.errorMessage(created)}`);
+    }
+    const { upload_id, chunk_size } = await created.json();
+    const chunkBytes = Number(chunk_size) > 0 ? Number(chunk_size) : DEFAULT_CHUNK_BYTES;
+
+    for (let offset = 0; offset < body.size; offset += chunkBytes) {
+      const response = await this.request(config, `/uploads/${encodeURIComponent(upload_id)}?offset=${offset}`, {
+        method: 'PUT',
         headers: {
-          'ngrok-skip-browser-warning': 'true',
+          'Content-Type': 'application/octet-stream',
         },
+        body: body.slice(offset, offset + chunkBytes),
+        timeoutMs: 120000,
+        // The offset makes a repeated chunk harmless
+        retries: 2,
+        signal,
       });
+      if (!response.ok) {
+        throw new Error(`Upload of ${file.name} failed: ${await this.errorMessage(response)}`);
+      }
+      onProgress?.(Math.min(offset + chunkBytes, body.size), body.size);
+    }
+
+    return { upload_id, bytes: body.size, encoding };
+  }
+
+  // Store finished uploads as a dataset on the backend; returns its dataset_id
+  async createDatasetFromUploads(
+    config: ApiConfig,
+    uploadIds: { info?: string; embeddings?: string },
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const response = await this.request(config, '/uploads/dataset', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({ info_upload_id: uploadIds.info, embeddings_upload_id: uploadIds.embeddings }),
+      timeoutMs: 120000,
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(await this.errorMessage(response));
+    }
+    const dataset = await response.json();
+    return String(dataset.dataset_id);
+  }
+
+  // Job status and logs, with the validated result (or grid sweep) once the job has succeeded
+  async getJob(config: ApiConfig, jobId: string, signal?: AbortSignal): Promise<ClusteringJob | null> {
+    const response = await this.request(config, `/jobs/${encodeURIComponent(jobId)}`, {
+      headers: {
+        'Accept': 'application/json',
+      },
+      signal,
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const { value, nonFinite } = parseJsonLenient(await response.text());
+    const parsed = clusteringJobSchema.omit({ result: true, sweep: true }).passthrough().safeParse(value);
+    if (!parsed.success) {
+      throw new Error(`Invalid job response: ${parsed.error.issues[0]?.message}`);
+    }
+    const { result, sweep } = value as { result?: unknown; sweep?: unknown };
+    return {
+      ...parsed.data,
+      result: result === undefined ? undefined : this.toClusterResult(result, nonFinite, {}),
+      sweep: sweep === undefined ? undefined : this.toGridSweepResult(sweep, nonFinite),
+    };
+  }
+
+  async cancelJob(config: ApiConfig, jobId: string): Promise<void> {
+    try {
+      await this.request(config, `/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE', timeoutMs: 10000 });
+    } catch (error) {
+      console.warn(`⚠️ Could not cancel job ${jobId}:`, error);
+    }
+  }
+
+  async getLabels(labelsPath: string, config: ApiConfig, signal?: AbortSignal): Promise<number[]> {
+    try {
+      console.log(`📄 Fetching labels from: ${labelsPath}`);
+      
+      const response = await this.request(config, labelsPath, { signal });
 
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -215,24 +500,58 @@ class ClusteringApi {
       console.log(`✅ Labels loaded: ${labels.length} items`);
       return labels;
     } catch (error) {
+      if (isCancelled(error)) throw error;
       console.error('❌ Error getting labels:', error);
       throw new Error(`Không thể lấy labels từ ${labelsPath}`);
     }
   }
 
-  async getProjectionImages(projectionPlots: Record<string, string>, config: ApiConfig): Promise<Record<string, string>> {
+  // CSV fields in a ClusterResult are usually backend paths, but may hold the CSV itself
+  private async getCsvText(csvOrPath: string, config: ApiConfig, signal?: AbortSignal): Promise<string> {
+    if (csvOrPath.includes('\n')) return csvOrPath;
+
+    const response = await this.request(config, csvOrPath, { signal });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.text();
+  }
+
+  async getMetricsTable(metricsCsv: string, config: ApiConfig, signal?: AbortSignal): Promise<KMetrics[]> {
+    try {
+      console.log(`📈 Fetching metrics table from: ${metricsCsv.slice(0, 100)}`);
+      const rows = parseMetricsCsv(await this.getCsvText(metricsCsv, config, signal));
+      console.log(`✅ Metrics loaded for k = ${rows.map(row => row.k).join(', ')}`);
+      return rows;
+    } catch (error) {
+      if (isCancelled(error)) throw error;
+      console.error('❌ Error getting metrics table:', error);
+      throw new Error(`Không thể lấy metrics từ ${metricsCsv.slice(0, 100)}`);
+    }
+  }
+
+  async getLabelRows(labelsPath: string, config: ApiConfig, signal?: AbortSignal): Promise<LabelRow[]> {
+    try {
+      console.log(`📄 Fetching label rows from: ${labelsPath}`);
+      const rows = parseLabelsCsv(await this.getCsvText(labelsPath, config, signal));
+      console.log(`✅ Label rows loaded: ${rows.length} items`);
+      return rows;
+    } catch (error) {
+      if (isCancelled(error)) throw error;
+      console.error('❌ Error getting label rows:', error);
+      throw new Error(`Không thể lấy labels từ ${labelsPath}`);
+    }
+  }
+
+  async getProjectionImages(projectionPlots: Record<string, string>, config: ApiConfig, signal?: AbortSignal): Promise<Record<string, string>> {
     const imageUrls: Record<string, string> = {};
     
     for (const [plotType, plotPath] of Object.entries(projectionPlots)) {
       try {
         console.log(`🖼️ Fetching ${plotType} projection image from: ${plotPath}`);
         
-        const response = await fetch(`${config.endpoint}${plotPath}`, {
-          method: 'GET',
-          headers: {
-            'ngrok-skip-browser-warning': 'true',
-          },
-        });
+        const response = await this.request(config, plotPath, { signal });
 
         if (!response.ok) {
           console.warn(`⚠️ Failed to fetch ${plotType} image: HTTP ${response.status}`);
@@ -245,6 +564,7 @@ class ClusteringApi {
         
         console.log(`✅ ${plotType} projection image loaded`);
       } catch (error) {
+        if (isCancelled(error)) throw error;
         console.error(`❌ Error fetching ${plotType} projection:`, error);
       }
     }
@@ -252,19 +572,14 @@ class ClusteringApi {
     return imageUrls;
   }
 
-  async getMetricImages(metricPlots: Record<string, string>, config: ApiConfig): Promise<Record<string, string>> {
+  async getMetricImages(metricPlots: Record<string, string>, config: ApiConfig, signal?: AbortSignal): Promise<Record<string, string>> {
     const imageUrls: Record<string, string> = {};
     
     for (const [metricType, metricPath] of Object.entries(metricPlots)) {
       try {
         console.log(`📊 Fetching ${metricType} metric plot from: ${metricPath}`);
         
-        const response = await fetch(`${config.endpoint}${metricPath}`, {
-          method: 'GET',
-          headers: {
-            'ngrok-skip-browser-warning': 'true',
-          },
-        });
+        const response = await this.request(config, metricPath, { signal });
 
         if (!response.ok) {
           console.warn(`⚠️ Failed to fetch ${metricType} plot: HTTP ${response.status}`);
@@ -277,6 +592,7 @@ class ClusteringApi {
         
         console.log(`✅ ${metricType} metric plot loaded`);
       } catch (error) {
+        if (isCancelled(error)) throw error;
         console.error(`❌ Error fetching ${metricType} plot:`, error);
       }
     }
@@ -284,10 +600,10 @@ class ClusteringApi {
     return imageUrls;
   }
 
-  async downloadFile(filePath: string, config: ApiConfig): Promise<Blob> {
-    const response = await fetch(filePath, {
-      headers: {},
-    });
+  async downloadFile(filePath: string, config: ApiConfig, signal?: AbortSignal): Promise<Blob> {
+    // Only send credentials to the configured backend
+    const headers = filePath.startsWith(config.endpoint) ? authHeaders(config) : {};
+    const response = await apiFetch(filePath, { headers, signal, timeoutMs: 120000 });
 
     if (!response.ok) {
       throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
@@ -1,7 +1,41 @@
 import { create } from "zustand";
 import { devtools } from "zustand/middleware";
-import { ClusteringParams, ApiConfig, ClusterResult, ClusterMetrics, DataPoint, Company, Enterprise } from "../../../shared/schema";
+import { ClusteringParams, ApiConfig, BackendProfile, backendProfileSchema, ClusterResult, ClusterMetrics, ClusteringJob, Cohort, cohortSchema, DataPoint, FileMetadata, ClusteringRun, ClusteringRunSummary, KMetrics, GridSweep, GridSweepResult, gridSweepSchema } from "../../../shared/schema";
+import { assembleGridSweep } from "../../../shared/grid-sweep";
+import { describePreprocessing, resolvePreprocessing } from "../../../shared/preprocessing";
+import { enterprisePoints } from "../../../shared/enterprise-points";
+import { fromZodError } from "zod-validation-error";
 import { clusteringApi } from "./clustering-api";
+import { apiRequest, queryClient } from "./queryClient";
+import { DEFAULT_ENCODING, type ChannelEncoding, type EncodingChannel, type PointEncoding } from "./encodings";
+import { computeResultMetrics } from "./metrics";
+import { labelsPathForK, relabelResult } from "./k-selection";
+import { chooseK, type AutoKCriterion } from "./auto-k";
+import { parseFile, parseRows, normalizeCsv, type ParseOptions } from "./file-parser";
+import { isCancelled, RequestCancelledError } from "./api-request";
+import { watchJob, JobNotFoundError } from "./job-socket";
+import { fileToBase64, formatBytes } from "./upload";
+import { analyzeRows, describeColumn, type DataQualityReport } from "./data-quality";
+import { correlatedPairs, describeFeatureSet, featureCandidates, REDUNDANT_CORRELATION, type CorrelatedPair } from "./feature-selection";
+
+type UploadKind = "embeddings" | "info";
+
+// Files as the user uploaded them; the store holds normalized copies when the
+// delimiter or header needed rewriting, and overrides re-parse from these
+const originalUploads = new Map<UploadKind, File>();
+
+// Controller of the running clustering / auto-k / grid sweep job, aborted by cancelRun
+let activeJob: AbortController | null = null;
+
+function startJob(): AbortSignal {
+  activeJob?.abort();
+  activeJob = new AbortController();
+  return activeJob.signal;
+}
+
+function finishJob(signal: AbortSignal) {
+  if (activeJob?.signal === signal) activeJob = null;
+}
 
 interface LogEntry {
   type: "info" | "success" | "error" | "warning";
@@ -9,6 +43,22 @@ interface LogEntry {
   timestamp: Date;
 }
 
+// Outcome of the last /meta check of a backend profile
+export interface ProfileStatus {
+  state: "checking" | "connected" | "failed";
+  message?: string;
+}
+
+export interface AutoKOptions {
+  kMin: number;
+  kMax: number;
+  criterion: AutoKCriterion;
+  // Endpoint to sweep against (the configured backend or the local engine)
+  endpoint: string;
+  // Uniform reference datasets per k when criterion is "gap"
+  gapReferences?: number;
+}
+
 interface ClusteringResults {
   dataPoints: DataPoint[];
   clusterResult: ClusterResult | null;
@@ -20,38 +70,437 @@ interface ClusteringResults {
 interface ClusteringState {
   // Parameters
   parameters: ClusteringParams;
+  // Connection settings of the active backend profile
   apiConfig: ApiConfig;
+  profiles: BackendProfile[];
+  activeProfileId: string;
+  profileStatus: Record<string, ProfileStatus>;
 
   // File uploads
   embeddingsFile: File | null;
   infoFile: File | null;
+  // Parsing results per uploaded file, keyed by file name
+  fileMetadata: Record<string, FileMetadata>;
+  // Server-side dataset to cluster instead of the uploaded files
+  datasetId: string | null;
+  // Columns joining the embeddings and info files (null = let the backend pick)
+  idColumns: Record<"embeddings" | "info", string | null>;
+  // Column checks of the uploaded info file
+  dataQuality: DataQualityReport | null;
+  // Strongly correlated pairs among the info file's feature candidates
+  featureCorrelations: CorrelatedPair[];
 
   // Processing state
   isRunning: boolean;
   progress: number;
+  // What the running job is doing, as reported by the backend when it can
+  progressStage: string | null;
+  // Server-side job of the current run, if the backend runs clustering as jobs
+  activeJobId: string | null;
   logs: LogEntry[];
 
   // Results
   results: ClusteringResults | null;
+  // Backend the current results (and grid sweep) were fetched from
+  resultsEndpoint: string | null;
   error: string | null;
+  // Run history id of the results currently shown
+  currentRunId: string | null;
+  // k the results are labelled with when the user picked one other than best_k
+  selectedK: number | null;
+  // Latest (lambda x k) grid sweep
+  gridSweep: GridSweepResult | null;
 
   // UI state
   selectedProjectionType: "pca" | "tsne" | "umap";
   selectedMetricType: "silhouette" | "calinski_harabasz" | "davies_bouldin";
+  // What drives Z, marker size, opacity and colour in the 3D cluster space
+  encoding: PointEncoding;
+  // Enterprise point id picked in company search; ids are stable across runs
+  focusedEnterpriseId: string | null;
+  // Enterprise point ids of the lasso/box selection or the opened cohort
+  selection: string[];
+  // Named selections, kept in this browser
+  cohorts: Cohort[];
 
   // Actions
   updateParameters: (params: Partial<ClusteringParams>) => void;
-  updateApiConfig: (config: Partial<ApiConfig>) => void;
+  // Profile actions return true when results from another backend were cleared
+  selectProfile: (id: string) => boolean;
+  saveProfile: (profile: BackendProfile) => boolean;
+  deleteProfile: (id: string) => boolean;
+  checkProfile: (id: string) => Promise<boolean>;
   setEmbeddingsFile: (file: File | null) => void;
   setInfoFile: (file: File | null) => void;
+  uploadFile: (file: File, type: UploadKind, options?: ParseOptions) => Promise<void>;
+  reparseFile: (type: UploadKind, options: ParseOptions) => Promise<void>;
+  setColumnType: (type: UploadKind, column: string, numeric: boolean) => void;
+  setColumnExcluded: (column: string, excluded: boolean) => void;
+  excludeFlaggedColumns: () => void;
+  setDatasetId: (datasetId: string | null) => void;
+  setIdColumn: (kind: "embeddings" | "info", column: string | null) => void;
   runClustering: (infoFile?: File) => Promise<void>;
+  resumeActiveJob: () => Promise<void>;
+  cancelRun: () => void;
+  loadRun: (run: ClusteringRun) => void;
+  relabel: (k: number) => Promise<void>;
+  autoDetectK: (options: AutoKOptions) => Promise<number | null>;
+  runGridSweep: (grid: GridSweep) => Promise<void>;
+  openSweepCell: (lambda: number, k: number) => Promise<void>;
   clearResults: () => void;
   clearError: () => void;
   addLog: (entry: Omit<LogEntry, "timestamp">) => void;
   setSelectedProjectionType: (type: "pca" | "tsne" | "umap") => void;
   setSelectedMetricType: (type: "silhouette" | "calinski_harabasz" | "davies_bouldin") => void;
+  setEncoding: (channel: EncodingChannel, encoding: ChannelEncoding) => void;
+  resetEncoding: () => void;
+  focusEnterprise: (id: string | null) => void;
+  setSelection: (ids: string[]) => void;
+  // Save the current selection; returns the new cohort, or null when nothing is selected
+  saveCohort: (name: string) => Cohort | null;
+  openCohort: (id: string) => void;
+  deleteCohort: (id: string) => void;
+}
+
+/**
+ * Plot-ready data points of a ClusterResult, one per enterprise point (see
+ * shared/enterprise-points). Returns [] when the result has no rows.
+ */
+function buildDataPoints(clusterResult: ClusterResult): DataPoint[] {
+  const points = enterprisePoints(clusterResult);
+  console.log("✅ Created", points.length, "data points from", clusterResult.companies ? "companies data" : "legacy embedding data");
+
+  return points.map((point) => {
+    const info: DataPoint["info"] = clusterResult.companies
+      ? {
+          name: point.name,
+          taxcode: point.taxcode,
+          sector: point.sectorName,
+          sector_unique_id: point.sectorId,
+          employees: point.employees ?? 0,
+          s_DT_TTM: point.s_DT_TTM ?? 0,
+          s_EMPL: point.s_EMPL ?? 0,
+          s_TTS: point.s_TTS ?? 0,
+          s_VCSH: point.s_VCSH ?? 0,
+        }
+      : {};
+    return {
+      id: point.id,
+      info,
+      embedding: [point.x, point.y],
+      pca: { x: point.x, y: point.y },
+      cluster: point.cluster,
+      size: point.markerSize,
+    };
+  });
+}
+
+type StoreGet = () => ClusteringState;
+type StoreSet = (partial: Partial<ClusteringState>) => void;
+
+// Backend profiles and the active one, kept across page reloads (API keys
+// included, in this browser's storage only)
+const PROFILES_KEY = "clustering-backend-profiles";
+
+interface StoredProfiles {
+  profiles: BackendProfile[];
+  activeProfileId: string;
+}
+
+// The local engine works out of the box; the proxy needs CLUSTERING_BACKEND_URL on the server
+function defaultProfiles(): StoredProfiles {
+  const origin = window.location.origin;
+  return {
+    profiles: [
+      { id: "proxy", name: "Backend proxy", endpoint: `${origin}/api/backend` },
+      { id: "local", name: "Local engine", endpoint: `${origin}/api/clustering` },
+    ],
+    activeProfileId: "local",
+  };
+}
+
+function loadProfiles(): StoredProfiles {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    const profiles = backendProfileSchema.array().safeParse(stored?.profiles);
+    if (profiles.success && profiles.data.length > 0) {
+      const active = profiles.data.find((profile) => profile.id === stored.activeProfileId) ?? profiles.data[0];
+      return { profiles: profiles.data, activeProfileId: active.id };
+    }
+  } catch {
+    // Unreadable or unavailable storage: start from the defaults
+  }
+  return defaultProfiles();
+}
+
+function storeProfiles(get: StoreGet) {
+  const { profiles, activeProfileId } = get();
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify({ profiles, activeProfileId } satisfies StoredProfiles));
+  } catch {
+    // Storage unavailable (private mode): profiles last until the page is closed
+  }
+}
+
+// Saved cohorts, kept across page reloads
+const COHORTS_KEY = "clustering-cohorts";
+
+function loadCohorts(): Cohort[] {
+  try {
+    const raw = localStorage.getItem(COHORTS_KEY);
+    const cohorts = cohortSchema.array().safeParse(raw ? JSON.parse(raw) : []);
+    if (cohorts.success) return cohorts.data;
+  } catch {
+    // Unreadable or unavailable storage: start without cohorts
+  }
+  return [];
+}
+
+function storeCohorts(get: StoreGet) {
+  try {
+    localStorage.setItem(COHORTS_KEY, JSON.stringify(get().cohorts));
+  } catch {
+    // Storage unavailable (private mode): cohorts last until the page is closed
+  }
+}
+
+function profileConfig({ endpoint, apiKey, authType }: BackendProfile): ApiConfig {
+  return { endpoint, apiKey, authType };
+}
+
+/**
+ * Send new requests to `profile`. Results from another backend are cleared:
+ * relabelling, metrics and images would otherwise be fetched from the wrong
+ * server. Returns whether anything was cleared.
+ */
+function activateProfile(get: StoreGet, set: StoreSet, profile: BackendProfile): boolean {
+  const { resultsEndpoint } = get();
+  set({ activeProfileId: profile.id, apiConfig: profileConfig(profile) });
+  if (resultsEndpoint === null || resultsEndpoint === profile.endpoint) return false;
+
+  set({ results: null, resultsEndpoint: null, currentRunId: null, selectedK: null, gridSweep: null, error: null });
+  get().addLog({
+    type: "warning",
+    message: `Cleared results from ${resultsEndpoint}: profile "${profile.name}" uses a different backend`,
+  });
+  return true;
+}
+
+/**
+ * Where files of the current results are fetched from: the backend that
+ * produced them, which a loaded run may not share with the active profile.
+ * Another backend's key is only sent if a profile for it exists.
+ */
+export function resultsConfig({ apiConfig, resultsEndpoint, profiles }: Pick<ClusteringState, "apiConfig" | "resultsEndpoint" | "profiles">): ApiConfig {
+  if (resultsEndpoint === null || resultsEndpoint === apiConfig.endpoint) return apiConfig;
+  const profile = profiles.find((candidate) => candidate.endpoint === resultsEndpoint);
+  return profile ? profileConfig(profile) : { endpoint: resultsEndpoint };
+}
+
+// Job of the current run, kept across page reloads so the client can reconnect
+const ACTIVE_JOB_KEY = "clustering-active-job";
+
+interface RememberedJob {
+  job_id: string;
+  endpoint: string;
+  started_at: string;
+  parameters: ClusteringParams;
+}
+
+function rememberJob(job: RememberedJob | null) {
+  try {
+    if (job) localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify(job));
+    else localStorage.removeItem(ACTIVE_JOB_KEY);
+  } catch {
+    // Storage unavailable (private mode): reconnecting after a reload is not possible
+  }
+}
+
+function rememberedJob(): RememberedJob | null {
+  try {
+    const raw = localStorage.getItem(ACTIVE_JOB_KEY);
+    return raw ? (JSON.parse(raw) as RememberedJob) : null;
+  } catch {
+    return null;
+  }
+}
+
+function forgetJob(get: StoreGet, set: StoreSet, jobId: string) {
+  if (get().activeJobId === jobId) set({ activeJobId: null });
+  if (rememberedJob()?.job_id === jobId) rememberJob(null);
+}
+
+/**
+ * Send a run's input files. Backends with chunked uploads store them as a
+ * dataset (both files when embeddings are given); others get the info file
+ * inline as base64. Upload progress is reported as a fraction of all bytes.
+ */
+async function sendInputFiles(
+  get: StoreGet,
+  config: ApiConfig,
+  capabilities: string[],
+  files: { info: File; embeddings?: File },
+  onProgress: (stage: string, fraction: number) => void,
+  signal: AbortSignal,
+): Promise<{ datasetId?: string; infoFileBase64?: string }> {
+  if (!capabilities.includes("chunked_upload")) {
+    onProgress(`Reading ${files.info.name}`, 0);
+    return { infoFileBase64: await fileToBase64(files.info) };
+  }
+
+  const queue: { kind: "info" | "embeddings"; file: File }[] = [{ kind: "info", file: files.info }];
+  if (files.embeddings) queue.push({ kind: "embeddings", file: files.embeddings });
+  const totalBytes = queue.reduce((sum, { file }) => sum + file.size, 0) || 1;
+  const uploadIds: { info?: string; embeddings?: string } = {};
+  let doneBytes = 0;
+
+  for (const { kind, file } of queue) {
+    const stage = `Uploading ${file.name}`;
+    onProgress(stage, doneBytes / totalBytes);
+    const uploaded = await clusteringApi.uploadFile(config, file, (sent, total) => {
+      onProgress(stage, (doneBytes + file.size * (sent / total)) / totalBytes);
+    }, signal);
+    uploadIds[kind] = uploaded.upload_id;
+    doneBytes += file.size;
+    get().addLog({
+      type: "info",
+      message: `Uploaded ${file.name} (${formatBytes(file.size)}, ${formatBytes(uploaded.bytes)} sent${uploaded.encoding === "gzip" ? " gzipped" : ""})`,
+    });
+  }
+
+  const datasetId = await clusteringApi.createDatasetFromUploads(config, uploadIds, signal);
+  get().addLog({ type: "success", message: `Stored the uploaded files as dataset ${datasetId}` });
+  return { datasetId };
+}
+
+/**
+ * Stream a server-side job's progress and logs into the store until it
+ * finishes, then fetch the job with its validated result
+ */
+async function finishedJob(get: StoreGet, set: StoreSet, config: ApiConfig, jobId: string, signal: AbortSignal): Promise<ClusteringJob | null> {
+  const outcome = await watchJob(config.endpoint, jobId, {
+    onProgress: (progressStage, progress) => set({ progressStage, progress }),
+    onLog: (entry) => get().addLog({ type: entry.type, message: entry.message }),
+  }, signal);
+
+  if (outcome.status === "cancelled") throw new RequestCancelledError();
+  if (outcome.status !== "succeeded") {
+    throw new Error(outcome.error ?? `Clustering job ${jobId} ${outcome.status}`);
+  }
+  return clusteringApi.getJob(config, jobId, signal);
+}
+
+async function followJob(get: StoreGet, set: StoreSet, config: ApiConfig, jobId: string, signal: AbortSignal): Promise<ClusterResult> {
+  const job = await finishedJob(get, set, config, jobId, signal);
+  if (!job?.result) {
+    throw new Error(`Clustering job ${jobId} finished without a result`);
+  }
+  return job.result;
+}
+
+/**
+ * Turn a backend result into the results views (plot points, images, metrics)
+ * and save the run to history
+ */
+async function applyRunResult(
+  get: StoreGet,
+  set: StoreSet,
+  clusterResult: ClusterResult,
+  run: { startedAt: string; parameters: ClusteringParams; config: ApiConfig },
+  signal: AbortSignal,
+) {
+  const apiConfig = run.config;
+  clusterResult.warnings?.forEach((warning) => get().addLog({ type: "warning", message: warning }));
+
+  set({ progressStage: "Processing results", progress: 95 });
+  get().addLog({ type: "info", message: "Processing clustering results..." });
+
+  // Process cluster result data
+  const finalDataPoints = buildDataPoints(clusterResult);
+
+  if (finalDataPoints.length === 0) {
+    // Fallback: Get labels from CSV path if available
+    let labels: number[] = [];
+    if (clusterResult.labels_csv) {
+      try {
+        labels = await clusteringApi.getLabels(clusterResult.labels_csv, apiConfig, signal);
+        get().addLog({ type: "success", message: `Loaded ${labels.length} cluster labels` });
+      } catch (error) {
+        if (isCancelled(error)) throw error;
+        get().addLog({ type: "error", message: "Failed to load cluster labels" });
+        labels = [];
+      }
+    }
+
+    // Apply cluster labels to data points (no coordinates are known for these)
+    labels.forEach((label: number, index: number) => {
+      finalDataPoints.push({
+        id: index.toString(),
+        info: {},
+        embedding: [],
+        cluster: label,
+      });
+    });
+  }
+
+  // Get projection and metric images from result
+  let projectionImages: Record<string, string> = {};
+  let metricImages: Record<string, string> = {};
+
+  if (clusterResult.projection_plots) {
+    projectionImages = await clusteringApi.getProjectionImages(clusterResult.projection_plots, apiConfig, signal);
+    get().addLog({ type: "success", message: `Loaded ${Object.keys(projectionImages).length} projection images` });
+  }
+
+  if (clusterResult.metric_plots) {
+    metricImages = await clusteringApi.getMetricImages(clusterResult.metric_plots, apiConfig, signal);
+    get().addLog({ type: "success", message: `Loaded ${Object.keys(metricImages).length} metric images` });
+  }
+
+  const metrics = computeResultMetrics(finalDataPoints, clusterResult);
+
+  // A cancel that arrived after the last request still discards the result
+  if (signal.aborted) throw new RequestCancelledError();
+
+  get().addLog({ type: "success", message: "Clustering completed successfully!" });
+
+  set({
+    results: {
+      dataPoints: finalDataPoints,
+      clusterResult,
+      metrics,
+      projectionImages,
+      metricImages,
+    },
+    resultsEndpoint: apiConfig.endpoint,
+    isRunning: false,
+    progress: 100,
+    progressStage: null,
+  });
+
+  // Save to run history; a failure here does not fail the run
+  try {
+    const res = await apiRequest("POST", "/api/runs", {
+      startedAt: run.startedAt,
+      completedAt: new Date().toISOString(),
+      endpoint: apiConfig.endpoint,
+      parameters: run.parameters,
+      result: clusterResult,
+      logs: get().logs.map((log) => ({ ...log, timestamp: log.timestamp.toISOString() })),
+    });
+    const saved = (await res.json()) as ClusteringRunSummary;
+    set({ currentRunId: saved.run_id });
+    queryClient.invalidateQueries({ queryKey: ["/api/runs"] });
+    get().addLog({ type: "success", message: `Run saved to history (${saved.run_id})` });
+  } catch (error) {
+    console.error("❌ Failed to save run:", error);
+    get().addLog({ type: "warning", message: "Could not save run to history" });
+  }
 }
 
+const initialProfiles = loadProfiles();
+
 export const useClusteringStore = create<ClusteringState>()(
   devtools(
     (set, get) => ({
@@ -62,18 +511,36 @@ export const useClusteringStore = create<ClusteringState>()(
         pca_dim: 128,
         level_value: [],
       },
-      apiConfig: {
-        endpoint: "",
-      },
+      apiConfig: profileConfig(
+        initialProfiles.profiles.find((profile) => profile.id === initialProfiles.activeProfileId)!,
+      ),
+      profiles: initialProfiles.profiles,
+      activeProfileId: initialProfiles.activeProfileId,
+      profileStatus: {},
       embeddingsFile: null,
       infoFile: null,
+      fileMetadata: {},
+      datasetId: null,
+      idColumns: { embeddings: null, info: null },
+      dataQuality: null,
+      featureCorrelations: [],
       isRunning: false,
       progress: 0,
+      progressStage: null,
+      activeJobId: null,
       logs: [],
       results: null,
+      resultsEndpoint: null,
       error: null,
+      currentRunId: null,
+      selectedK: null,
+      gridSweep: null,
       selectedProjectionType: "pca",
       selectedMetricType: "silhouette",
+      encoding: DEFAULT_ENCODING,
+      focusedEnterpriseId: null,
+      selection: [],
+      cohorts: loadCohorts(),
 
       // Actions
       updateParameters: (params) =>
@@ -81,13 +548,174 @@ export const useClusteringStore = create<ClusteringState>()(
           parameters: { ...state.parameters, ...params },
         })),
 
-      updateApiConfig: (config) =>
-        set((state) => ({
-          apiConfig: { ...state.apiConfig, ...config },
-        })),
+      selectProfile: (id) => {
+        const profile = get().profiles.find((candidate) => candidate.id === id);
+        if (!profile || get().isRunning) return false;
+        const cleared = activateProfile(get, set, profile);
+        storeProfiles(get);
+        return cleared;
+      },
+
+      saveProfile: (profile) => {
+        const { profiles, activeProfileId, isRunning } = get();
+        const isActive = profile.id === activeProfileId;
+        if (isActive && isRunning) return false;
+
+        const exists = profiles.some((candidate) => candidate.id === profile.id);
+        set((state) => {
+          // The endpoint or credentials may have changed; the last check no longer applies
+          const { [profile.id]: _, ...profileStatus } = state.profileStatus;
+          return {
+            profiles: exists
+              ? state.profiles.map((candidate) => (candidate.id === profile.id ? profile : candidate))
+              : [...state.profiles, profile],
+            profileStatus,
+          };
+        });
+        const cleared = isActive && activateProfile(get, set, profile);
+        storeProfiles(get);
+        return cleared;
+      },
+
+      deleteProfile: (id) => {
+        const { profiles, activeProfileId, isRunning } = get();
+        if (profiles.length <= 1 || (id === activeProfileId && isRunning)) return false;
+
+        const remaining = profiles.filter((profile) => profile.id !== id);
+        set({ profiles: remaining });
+        const cleared = id === activeProfileId && activateProfile(get, set, remaining[0]);
+        storeProfiles(get);
+        return cleared;
+      },
+
+      checkProfile: async (id) => {
+        const profile = get().profiles.find((candidate) => candidate.id === id);
+        if (!profile) return false;
+
+        const setStatus = (status: ProfileStatus) =>
+          set((state) => ({ profileStatus: { ...state.profileStatus, [id]: status } }));
+        setStatus({ state: "checking" });
+        try {
+          await clusteringApi.getMeta(profileConfig(profile));
+          setStatus({ state: "connected" });
+          return true;
+        } catch (error) {
+          console.error(`❌ Connection check for profile "${profile.name}" failed:`, error);
+          setStatus({ state: "failed", message: error instanceof Error ? error.message : "Unknown connection error" });
+          return false;
+        }
+      },
 
       setEmbeddingsFile: (file) => set({ embeddingsFile: file }),
       setInfoFile: (file) => set({ infoFile: file }),
+      setDatasetId: (datasetId) => set({ datasetId }),
+
+      uploadFile: async (file, type, options = {}) => {
+        get().addLog({ type: "info", message: `Parsing ${file.name}...` });
+        try {
+          const metadata = await parseFile(file, options);
+          // Backends expect comma-separated files with a header row
+          const needsRewrite = metadata.delimiter !== "," || !metadata.hasHeader;
+          const stored = needsRewrite ? await normalizeCsv(file, metadata) : file;
+
+          originalUploads.set(type, file);
+          set((state) => ({
+            ...(type === "embeddings" ? { embeddingsFile: stored } : { infoFile: stored }),
+            fileMetadata: { ...state.fileMetadata, [file.name]: metadata },
+          }));
+          get().addLog({
+            type: "success",
+            message: `${file.name}: ${metadata.rowCount.toLocaleString()} rows, ${metadata.columnCount} columns` +
+              (needsRewrite ? " (rewritten as comma-separated CSV with header)" : ""),
+          });
+
+          if (type === "info") {
+            const rows = await parseRows(stored);
+            const dataQuality = analyzeRows(stored.name, rows);
+            const featureCorrelations = correlatedPairs(rows, featureCandidates(metadata));
+            const flagged = dataQuality.columns.filter((column) => column.flags.length > 0);
+            // Exclusions and the feature selection only apply to columns of the current info file
+            const { exclude_columns, feature_columns, feature_weights } = get().parameters;
+            const inFile = (column: string) => metadata.columns.includes(column);
+            const selected = feature_columns?.filter(inFile);
+            set((state) => ({
+              dataQuality,
+              featureCorrelations,
+              parameters: {
+                ...state.parameters,
+                exclude_columns: exclude_columns?.filter(inFile),
+                feature_columns: selected?.length ? selected : undefined,
+                feature_weights: feature_weights && Object.fromEntries(Object.entries(feature_weights).filter(([column]) => inFile(column))),
+              },
+            }));
+            flagged.forEach((column) => {
+              get().addLog({ type: "warning", message: `Data quality: ${describeColumn(column, dataQuality.rowCount)}` });
+            });
+            get().addLog({
+              type: flagged.length > 0 ? "warning" : "success",
+              message: `Data quality: ${flagged.length} of ${dataQuality.columns.length} columns flagged in ${file.name}`,
+            });
+            if (featureCorrelations.length > 0) {
+              get().addLog({
+                type: "info",
+                message: `Features: ${featureCorrelations.length} pairs correlated at |r| >= ${REDUNDANT_CORRELATION}`,
+              });
+            }
+          }
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : `Failed to parse ${file.name}`;
+          get().addLog({ type: "error", message: errorMessage });
+          set({ error: errorMessage });
+        }
+      },
+
+      reparseFile: async (type, options) => {
+        const source = originalUploads.get(type) ?? (type === "embeddings" ? get().embeddingsFile : get().infoFile);
+        if (!source) return;
+        const current = get().fileMetadata[source.name];
+        await get().uploadFile(source, type, {
+          delimiter: options.delimiter ?? current?.delimiter,
+          hasHeader: options.hasHeader ?? current?.hasHeader,
+        });
+      },
+
+      setColumnType: (type, column, numeric) => {
+        const file = type === "embeddings" ? get().embeddingsFile : get().infoFile;
+        const metadata = file ? get().fileMetadata[file.name] : undefined;
+        if (!file || !metadata) return;
+
+        const numericColumns = numeric
+          ? Array.from(new Set([...metadata.numericColumns, column]))
+          : metadata.numericColumns.filter((c) => c !== column);
+        set((state) => ({
+          fileMetadata: {
+            ...state.fileMetadata,
+            [file.name]: { ...metadata, numericColumns: metadata.columns.filter((c) => numericColumns.includes(c)) },
+          },
+        }));
+      },
+      setColumnExcluded: (column, excluded) =>
+        set((state) => {
+          const current = state.parameters.exclude_columns ?? [];
+          const exclude_columns = excluded
+            ? Array.from(new Set([...current, column]))
+            : current.filter((c) => c !== column);
+          return { parameters: { ...state.parameters, exclude_columns } };
+        }),
+
+      excludeFlaggedColumns: () => {
+        const { dataQuality, parameters } = get();
+        if (!dataQuality) return;
+        const flagged = dataQuality.columns
+          .filter((column) => column.kind === "numeric" && column.flags.length > 0)
+          .map((column) => column.column);
+        const exclude_columns = Array.from(new Set([...(parameters.exclude_columns ?? []), ...flagged]));
+        set({ parameters: { ...parameters, exclude_columns } });
+        get().addLog({ type: "info", message: `Excluded ${flagged.length} flagged columns from the run` });
+      },
+
+      setIdColumn: (kind, column) =>
+        set((state) => ({ idColumns: { ...state.idColumns, [kind]: column } })),
 
       addLog: (entry) =>
         set((state) => ({
@@ -96,38 +724,331 @@ export const useClusteringStore = create<ClusteringState>()(
 
       setSelectedProjectionType: (type) => set({ selectedProjectionType: type }),
       setSelectedMetricType: (type) => set({ selectedMetricType: type }),
+      setEncoding: (channel, encoding) =>
+        set((state) => ({ encoding: { ...state.encoding, [channel]: encoding } })),
+      resetEncoding: () => set({ encoding: DEFAULT_ENCODING }),
+      focusEnterprise: (id) => set({ focusedEnterpriseId: id }),
+      setSelection: (ids) => set({ selection: ids }),
+
+      saveCohort: (name) => {
+        const { selection, currentRunId } = get();
+        if (selection.length === 0 || !name.trim()) return null;
+        const cohort: Cohort = {
+          id: `cohort-${Date.now().toString(36)}`,
+          name: name.trim(),
+          createdAt: new Date().toISOString(),
+          runId: currentRunId,
+          enterpriseIds: selection,
+        };
+        set((state) => ({ cohorts: [...state.cohorts, cohort] }));
+        storeCohorts(get);
+        get().addLog({ type: "success", message: `Saved cohort "${cohort.name}" (${selection.length} enterprises)` });
+        return cohort;
+      },
+
+      openCohort: (id) => {
+        const cohort = get().cohorts.find((candidate) => candidate.id === id);
+        if (cohort) set({ selection: cohort.enterpriseIds });
+      },
+
+      deleteCohort: (id) => {
+        set((state) => ({ cohorts: state.cohorts.filter((cohort) => cohort.id !== id) }));
+        storeCohorts(get);
+      },
+
+      loadRun: (run) => {
+        const dataPoints = buildDataPoints(run.result);
+        set({
+          parameters: run.parameters,
+          results: {
+            dataPoints,
+            clusterResult: run.result,
+            metrics: computeResultMetrics(dataPoints, run.result),
+            projectionImages: {},
+            metricImages: {},
+          },
+          resultsEndpoint: run.endpoint,
+          logs: run.logs.map((log) => ({ ...log, timestamp: new Date(log.timestamp) })),
+          currentRunId: run.run_id,
+          selectedK: null,
+          error: null,
+          isRunning: false,
+          progress: 100,
+        });
+      },
+
+      relabel: async (k) => {
+        const { results } = get();
+        const clusterResult = results?.clusterResult;
+        if (!results || !clusterResult) return;
+
+        const labelsPath = labelsPathForK(clusterResult, k);
+        if (!labelsPath) {
+          get().addLog({ type: "error", message: `No labels available for k=${k}` });
+          return;
+        }
+
+        get().addLog({ type: "info", message: `Loading labels for k=${k}...` });
+        try {
+          const rows = await clusteringApi.getLabelRows(labelsPath, resultsConfig(get()));
+          const { result, matched } = relabelResult(clusterResult, rows, k);
+          const dataPoints = buildDataPoints(result);
+
+          set({
+            results: {
+              ...results,
+              dataPoints,
+              clusterResult: result,
+              metrics: computeResultMetrics(dataPoints, result, k),
+            },
+            selectedK: k === result.best_k ? null : k,
+          });
+          get().addLog({ type: "success", message: `Re-labelled ${matched.toLocaleString()} enterprises with k=${k}` });
+        } catch (error) {
+          get().addLog({ type: "error", message: error instanceof Error ? error.message : `Failed to load labels for k=${k}` });
+        }
+      },
+
+      autoDetectK: async ({ kMin, kMax, criterion, endpoint, gapReferences = 5 }) => {
+        const { parameters, datasetId, infoFile } = get();
+        const config = { ...get().apiConfig, endpoint };
+        const ks = Array.from({ length: kMax - kMin + 1 }, (_, i) => kMin + i);
+
+        const signal = startJob();
+        set({ isRunning: true, progress: 0, error: null });
+        get().addLog({ type: "info", message: `Auto-detecting k (${criterion}) over k=${kMin}..${kMax} at ${endpoint}` });
+
+        try {
+          let infoFileBase64: string | undefined;
+          let sweepDatasetId = datasetId ?? undefined;
+          if (!datasetId && infoFile) {
+            const capabilities = await clusteringApi.getCapabilities(config, signal);
+            const inputs = await sendInputFiles(get, config, capabilities, { info: infoFile }, (progressStage, fraction) => {
+              set({ progressStage, progress: Math.round(fraction * 10) });
+            }, signal);
+            infoFileBase64 = inputs.infoFileBase64;
+            sweepDatasetId = inputs.datasetId;
+            set({ progressStage: null });
+          }
+          const extra = criterion === "gap" ? { gap_references: gapReferences } : {};
+          const rows: KMetrics[] = [];
+
+          // One request per k so progress can be reported as the sweep goes
+          for (let index = 0; index < ks.length; index++) {
+            const k = ks[index];
+            const result = await clusteringApi.runClustering(
+              config, { ...parameters, k: [k] }, infoFileBase64, sweepDatasetId, extra, signal,
+            );
+            // The local engine stores inline uploads; reuse that dataset instead of re-uploading
+            if (result.mode === "local" && infoFileBase64) {
+              sweepDatasetId = result.dataset_id;
+              infoFileBase64 = undefined;
+            }
+            const table = result.metrics?.length
+              ? result.metrics
+              : await clusteringApi.getMetricsTable(result.metrics_csv, config, signal);
+            const row = table.find((m) => m.k === k);
+            if (row) rows.push(row);
+
+            set({ progress: Math.round(((index + 1) / ks.length) * 100) });
+            get().addLog({
+              type: row ? "info" : "warning",
+              message: row
+                ? `k=${k} (${index + 1}/${ks.length}): silhouette ${row.silhouette?.toFixed(3) ?? "n/a"}, inertia ${row.inertia?.toFixed(1) ?? "n/a"}${row.gap != null ? `, gap ${row.gap.toFixed(3)}` : ""}`
+                : `k=${k} (${index + 1}/${ks.length}): backend returned no metrics`,
+            });
+          }
+
+          const choice = chooseK(rows, criterion);
+          if (!choice) {
+            throw new Error(criterion === "gap"
+              ? "The backend did not report the gap statistic; use the local engine or another criterion"
+              : `Not enough metrics to pick k by ${criterion}`);
+          }
+
+          get().updateParameters({ k: choice.k });
+          get().addLog({ type: "success", message: `Auto-detected k=${choice.k} by ${choice.reason}` });
+          set({ isRunning: false, progress: 100 });
+          return choice.k;
+        } catch (error) {
+          if (isCancelled(error)) {
+            get().addLog({ type: "warning", message: "Auto-detect k cancelled" });
+            set({ isRunning: false, progress: 0, progressStage: null });
+            return null;
+          }
+          const errorMessage = error instanceof Error ? error.message : "Auto-detect k failed";
+          get().addLog({ type: "error", message: errorMessage });
+          set({ isRunning: false, progress: 0, progressStage: null, error: errorMessage });
+          return null;
+        } finally {
+          finishJob(signal);
+        }
+      },
+
+      runGridSweep: async (grid) => {
+        const { apiConfig, datasetId, infoFile } = get();
+
+        const parsed = gridSweepSchema.safeParse(grid);
+        if (!parsed.success) {
+          const errorMessage = fromZodError(parsed.error).message;
+          get().addLog({ type: "error", message: errorMessage });
+          set({ error: errorMessage });
+          return;
+        }
+        const { lambda_values: lambdaValues, k_values: kValues } = parsed.data;
+
+        const signal = startJob();
+        let jobId: string | null = null;
+        set({ isRunning: true, progress: 0, logs: [], error: null, gridSweep: null });
+        get().addLog({
+          type: "info",
+          message: `Grid sweep: λ ∈ {${lambdaValues.join(", ")}} × k ∈ {${kValues.join(", ")}} (${lambdaValues.length * kValues.length} cells)`,
+        });
+
+        try {
+          const capabilities = await clusteringApi.getCapabilities(apiConfig, signal);
+          let infoFileBase64: string | undefined;
+          let sweepDatasetId = datasetId ?? undefined;
+          if (!datasetId && infoFile) {
+            const inputs = await sendInputFiles(get, apiConfig, capabilities, { info: infoFile }, (progressStage, fraction) => {
+              set({ progressStage, progress: Math.round(fraction * 20) });
+            }, signal);
+            infoFileBase64 = inputs.infoFileBase64;
+            sweepDatasetId = inputs.datasetId;
+            set({ progressStage: null });
+          }
+          let gridSweep: GridSweepResult;
+
+          if (capabilities.includes("grid_sweep")) {
+            // One server-side job for the whole grid; progress arrives over the jobs WebSocket
+            const submitted = await clusteringApi.submitGridSweep(apiConfig, parsed.data, infoFileBase64, sweepDatasetId, signal);
+            jobId = submitted.job_id;
+            set({ activeJobId: jobId, progress: 0 });
+            get().addLog({ type: "info", message: `Submitted grid sweep job ${jobId}` });
+
+            const job = await finishedJob(get, set, apiConfig, jobId, signal);
+            if (!job?.sweep) {
+              throw new Error(`Grid sweep job ${jobId} finished without a result`);
+            }
+            gridSweep = job.sweep;
+          } else {
+            // Backends without a batch endpoint: one run per lambda, each covering every k
+            const results: ClusterResult[] = [];
+            for (let index = 0; index < lambdaValues.length; index++) {
+              const lambda = lambdaValues[index];
+              const result = await clusteringApi.runClustering(
+                apiConfig, { ...parsed.data, lambda, k: kValues }, infoFileBase64, sweepDatasetId, {}, signal,
+              );
+              const metrics = result.metrics?.length
+                ? result.metrics
+                : await clusteringApi.getMetricsTable(result.metrics_csv, apiConfig, signal).catch((error) => {
+                  if (isCancelled(error)) throw error;
+                  return [];
+                });
+              results.push({ ...result, metrics });
+
+              set({ progress: Math.round(((index + 1) / lambdaValues.length) * 100) });
+              get().addLog({ type: "info", message: `λ=${lambda} (${index + 1}/${lambdaValues.length}) done, best k=${result.best_k}` });
+            }
+            gridSweep = assembleGridSweep(lambdaValues, kValues, results);
+          }
+
+          set({ gridSweep, resultsEndpoint: apiConfig.endpoint, isRunning: false, progress: 100, progressStage: null });
+          get().addLog({
+            type: "success",
+            message: gridSweep.best
+              ? `Grid sweep completed; best cell λ=${gridSweep.best.lambda}, k=${gridSweep.best.k} by silhouette`
+              : "Grid sweep completed; no cell reported a silhouette score",
+          });
+
+          const first = gridSweep.best ?? { lambda: lambdaValues[0], k: kValues[0] };
+          await get().openSweepCell(first.lambda, first.k);
+        } catch (error) {
+          if (isCancelled(error)) {
+            get().addLog({ type: "warning", message: "Grid sweep cancelled" });
+            set({ gridSweep: null, isRunning: false, progress: 0, progressStage: null });
+            return;
+          }
+          const errorMessage = error instanceof Error ? error.message : "Grid sweep failed";
+          get().addLog({ type: "error", message: errorMessage });
+          set({ error: errorMessage, isRunning: false, progress: 0, progressStage: null });
+        } finally {
+          finishJob(signal);
+          if (jobId) forgetJob(get, set, jobId);
+        }
+      },
+
+      openSweepCell: async (lambda, k) => {
+        const { gridSweep, parameters } = get();
+        const index = gridSweep?.lambda_values.indexOf(lambda) ?? -1;
+        const clusterResult = index >= 0 ? gridSweep!.results[index] : undefined;
+        if (!clusterResult) return;
+
+        const dataPoints = buildDataPoints(clusterResult);
+        set({
+          parameters: { ...parameters, lambda, k },
+          results: {
+            dataPoints,
+            clusterResult,
+            metrics: computeResultMetrics(dataPoints, clusterResult),
+            projectionImages: {},
+            metricImages: {},
+          },
+          currentRunId: null,
+          selectedK: null,
+        });
+        if (k !== clusterResult.best_k) {
+          await get().relabel(k);
+        }
+      },
 
       clearResults: () =>
         set({
           results: null,
+          focusedEnterpriseId: null,
+          selection: [],
+          resultsEndpoint: null,
+          currentRunId: null,
+          selectedK: null,
+          gridSweep: null,
           error: null,
           logs: [],
           progress: 0,
+          progressStage: null,
           isRunning: false,
         }),
 
       clearError: () => set({ error: null }),
 
       runClustering: async (infoFile?: File) => {
-        const { parameters, apiConfig } = get();
+        const { parameters, apiConfig, embeddingsFile, idColumns } = get();
+        let { datasetId } = get();
 
         if (!apiConfig.endpoint) {
           throw new Error("API endpoint not configured");
         }
 
+        const signal = startJob();
+        const setStage = (progressStage: string, progress: number) => set({ progressStage, progress });
+        let jobId: string | null = null;
         try {
           set({ 
             isRunning: true, 
             progress: 0, 
+            progressStage: null,
             logs: [],
             results: null,
-            error: null
+            resultsEndpoint: null,
+            error: null,
+            currentRunId: null,
+            selectedK: null,
           });
+          const startedAt = new Date().toISOString();
 
           get().addLog({ type: "info", message: "Starting clustering process..." });
 
-          // Step 1: Validate parameters and prepare data (20%)
-          set({ progress: 20 });
+          // Step 1: Validate parameters and prepare data
+          setStage("Validating parameters", 5);
           get().addLog({ type: "info", message: "Validating parameters..." });
 
           if (!parameters.lambda || !parameters.k || !parameters.level_value) {
@@ -144,24 +1065,67 @@ export const useClusteringStore = create<ClusteringState>()(
             throw new Error("All k values must be >= 2");
           }
 
-          // Convert info file to base64 if provided
           let infoFileBase64: string | undefined;
 
           // Try parameter first, then fallback to store
           const fileToUse = infoFile || get().infoFile;
+          // Two-file workflow when no stored dataset is selected
+          const embeddingsToJoin = !datasetId && fileToUse ? embeddingsFile : null;
+
+          const capabilities = await clusteringApi.getCapabilities(apiConfig, signal);
+          const uploadsDataset = capabilities.includes("chunked_upload");
 
-          if (fileToUse) {
-            get().addLog({ type: "info", message: "Processing info CSV file..." });
+          if (parameters.exclude_columns?.length) {
+            get().addLog({
+              type: capabilities.includes("exclude_columns") ? "info" : "warning",
+              message: capabilities.includes("exclude_columns")
+                ? `Excluding columns: ${parameters.exclude_columns.join(", ")}`
+                : `This backend does not advertise exclude_columns; ${parameters.exclude_columns.join(", ")} may still be used`,
+            });
+          }
+
+          if (parameters.feature_columns || parameters.feature_weights) {
+            get().addLog({
+              type: capabilities.includes("feature_selection") ? "info" : "warning",
+              message: capabilities.includes("feature_selection")
+                ? `Features: ${describeFeatureSet(parameters)}`
+                : "This backend does not advertise feature_selection; it may use every numeric column",
+            });
+          }
+
+          if (parameters.preprocessing) {
+            const overrides = Object.keys(parameters.preprocessing.columns ?? {}).length;
+            get().addLog({
+              type: capabilities.includes("preprocessing") ? "info" : "warning",
+              message: capabilities.includes("preprocessing")
+                ? `Preprocessing: ${describePreprocessing(resolvePreprocessing(parameters.preprocessing, ""))}` +
+                  (overrides > 0 ? `, ${overrides} column overrides` : "")
+                : "This backend does not advertise preprocessing; it may scale the features its own way",
+            });
+          }
+
+          if (datasetId) {
+            get().addLog({ type: "info", message: `Using stored dataset ${datasetId}` });
+          } else if (fileToUse) {
+            get().addLog({
+              type: "info",
+              message: uploadsDataset ? "Uploading input files..." : "Processing info CSV file...",
+            });
             console.log("📄 Info file found:", fileToUse.name, "size:", fileToUse.size);
             console.log("📍 File source:", infoFile ? "parameter" : "store");
-            try {
-              const fileContent = await fileToUse.text();
-              infoFileBase64 = btoa(fileContent);
+            const inputs = await sendInputFiles(
+              get,
+              apiConfig,
+              capabilities,
+              { info: fileToUse, embeddings: uploadsDataset ? embeddingsToJoin ?? undefined : undefined },
+              (stage, fraction) => setStage(stage, 10 + Math.round(fraction * 30)),
+              signal,
+            );
+            infoFileBase64 = inputs.infoFileBase64;
+            datasetId = inputs.datasetId ?? null;
+            if (infoFileBase64) {
               console.log("✅ Info file converted to base64, length:", infoFileBase64.length);
               get().addLog({ type: "success", message: "Info CSV file processed successfully" });
-            } catch (error) {
-              console.error("❌ Failed to process info file:", error);
-              get().addLog({ type: "error", message: "Failed to process info CSV file" });
             }
           } else {
             console.log("⚠️ No info file provided");
@@ -170,192 +1134,143 @@ export const useClusteringStore = create<ClusteringState>()(
             console.log("📄 infoFile parameter:", infoFile?.name || "none");
           }
 
-          // Step 2: Call clustering API (50%)
-          set({ progress: 50 });
-          get().addLog({ type: "info", message: "Calling clustering API..." });
-
-          const clusterResult = await clusteringApi.runClustering(apiConfig, parameters, infoFileBase64);
-
-          console.log("🔍 Store: Received cluster result from API:");
-          console.log("📋 ClusterResult object:", JSON.stringify(clusterResult, null, 2));
-
-          set({ progress: 70 });
-          get().addLog({ type: "success", message: "Clustering API completed successfully" });
-
-          // Step 3: Process results (30%)
-          set({ progress: 80 });
-          get().addLog({ type: "info", message: "Processing clustering results..." });
-
-          // Process cluster result data
-          let finalDataPoints: DataPoint[] = [];
-
-          // Handle new API response format with companies array
-          if (clusterResult.companies && Array.isArray(clusterResult.companies)) {
-            console.log("🔧 Processing new API response format with companies array");
-            console.log("🏢 Number of companies:", clusterResult.companies.length);
-
-            let pointIndex = 0;
-            clusterResult.companies.forEach((company: Company) => {
-              if (company.enterprise && Array.isArray(company.enterprise)) {
-                company.enterprise.forEach((enterprise: any) => {
-                  const clusterLabel = enterprise.cluster || enterprise.Label || 0;
-
-                  // Check for new format with pca2_x/pca2_y
-                  let embX, embY;
-                  if (enterprise.pca2_x !== undefined && enterprise.pca2_y !== undefined) {
-                    embX = enterprise.pca2_x;
-                    embY = enterprise.pca2_y;
-                  } else if (enterprise.emb_x !== undefined && enterprise.emb_y !== undefined) {
-                    embX = enterprise.emb_x;
-                    embY = enterprise.emb_y;
-                  } else {
-                    embX = 0;
-                    embY = 0;
-                  }
-
-                  // Calculate size based on employee count or use default
-                  let calculatedSize = 0.1; // default minimum size
-                  if (enterprise.empl_qtty && enterprise.empl_qtty > 0) {
-                    calculatedSize = Math.log10(enterprise.empl_qtty + 1) * 0.5; // logarithmic scaling
-                  }
-                  calculatedSize = Math.max(0.1, calculatedSize); // ensure minimum size
-
-                  finalDataPoints.push({
-                    id: `company-${pointIndex}`,
-                    info: {
-                      name: enterprise.name || 'Unknown Company',
-                      taxcode: enterprise.taxcode || '',
-                      sector: enterprise.sector_name || '',
-                      sector_unique_id: enterprise.sector_unique_id || company.sector_unique_id || '',
-                      employees: enterprise.empl_qtty || 0,
-                      s_DT_TTM: enterprise.s_DT_TTM || 0,
-                      s_EMPL: enterprise.s_EMPL || 0,
-                      s_TTS: enterprise.s_TTS || 0,
-                      s_VCSH: enterprise.s_VCSH || 0
-                    },
-                    embedding: enterprise.embedding || [embX, embY],
-                    pca: {
-                      x: embX,
-                      y: embY,
-                      z: calculatedSize
-                    },
-                    cluster: clusterLabel
-                  });
-                  pointIndex++;
-                });
-              }
-            });
-
-            console.log("✅ Created", finalDataPoints.length, "data points from companies data");
-            console.log("📋 Sample data point:", finalDataPoints[0]);
-          } else if (clusterResult.embedding && clusterResult.labels) {
-            // Fallback: Use direct data from clusterResult (old format)
-            console.log("🔧 Processing direct embedding data from backend (legacy format)");
-            console.log("📊 Embedding length:", clusterResult.embedding.length);
-            console.log("🏷️ Labels length:", clusterResult.labels.length);
-
-            clusterResult.embedding.forEach((coords: number[], index: number) => {
-              const clusterLabel = clusterResult.labels![index];
-              const clusterSize = clusterResult.size ? clusterResult.size[clusterLabel] : 1;
-
-              finalDataPoints.push({
-                id: index.toString(),
-                info: {},
-                embedding: coords,
-                pca: {
-                  x: coords[0],
-                  y: coords[1]
-                },
-                cluster: clusterLabel,
-                size: clusterSize,
-              });
+          // Two-file workflow: join embeddings to info on the chosen id columns
+          let extra: Record<string, unknown> = {};
+          if (embeddingsToJoin && fileToUse) {
+            const joinColumns = {
+              embeddings: idColumns.embeddings ?? undefined,
+              info: idColumns.info ?? undefined,
+            };
+            get().addLog({
+              type: "info",
+              message: `Joining ${embeddingsToJoin.name} to ${fileToUse.name} on ${joinColumns.embeddings ?? "auto"} = ${joinColumns.info ?? "auto"}`,
             });
 
-            console.log("✅ Created", finalDataPoints.length, "data points for visualization");
-            console.log("📋 Sample data point:", finalDataPoints[0]);
-          } else {
-            // Fallback: Get labels from CSV path if available
-            let labels: number[] = [];
-            if (clusterResult.labels_csv) {
-              try {
-                labels = await clusteringApi.getLabels(clusterResult.labels_csv, apiConfig);
-                get().addLog({ type: "success", message: `Loaded ${labels.length} cluster labels` });
-              } catch (error) {
-                get().addLog({ type: "error", message: "Failed to load cluster labels" });
-                labels = [];
+            if (uploadsDataset) {
+              // Both files are in the uploaded dataset
+              extra = {
+                embeddings_id_column: joinColumns.embeddings,
+                info_id_column: joinColumns.info,
+              };
+            } else if (capabilities.includes("inline_csv")) {
+              extra = {
+                embeddings_csv: await embeddingsToJoin.text(),
+                embeddings_name: embeddingsToJoin.name,
+                info_name: fileToUse.name,
+                embeddings_id_column: joinColumns.embeddings,
+                info_id_column: joinColumns.info,
+              };
+            } else {
+              setStage("Uploading files", 15);
+              get().addLog({ type: "info", message: "Uploading both files to /prepare/run..." });
+              const prepared = await clusteringApi.runPrepare({ embeddings: embeddingsToJoin, info: fileToUse }, apiConfig, joinColumns, signal);
+              if (!prepared?.dataset_id) {
+                throw new Error("/prepare/run did not return a dataset_id");
               }
+              datasetId = String(prepared.dataset_id);
+              infoFileBase64 = undefined;
+              get().addLog({ type: "success", message: `Prepared dataset ${datasetId}` });
             }
-
-            // Apply cluster labels to data points
-            labels.forEach((label: number, index: number) => {
-              finalDataPoints.push({
-                id: index.toString(),
-                info: {},
-                embedding: [Math.random() * 100, Math.random() * 100],
-                pca: {
-                  x: Math.random() * 100,
-                  y: Math.random() * 100
-                },
-                cluster: label,
-              });
-            });
           }
 
-          // Get projection and metric images from result
-          let projectionImages: Record<string, string> = {};
-          let metricImages: Record<string, string> = {};
+          // Step 2: Run clustering on the backend
+          let clusterResult: ClusterResult;
+          if (capabilities.includes("jobs")) {
+            // Server-side job: real progress arrives over the jobs WebSocket
+            setStage("Submitting job", 0);
+            const submitted = await clusteringApi.submitJob(apiConfig, parameters, infoFileBase64, datasetId ?? undefined, extra, signal);
+            jobId = submitted.job_id;
+            set({ activeJobId: jobId });
+            rememberJob({ job_id: jobId, endpoint: apiConfig.endpoint, started_at: startedAt, parameters });
+            get().addLog({ type: "info", message: `Submitted clustering job ${jobId}` });
 
-          if (clusterResult.projection_plots) {
-            projectionImages = await clusteringApi.getProjectionImages(clusterResult.projection_plots, apiConfig);
-            get().addLog({ type: "success", message: `Loaded ${Object.keys(projectionImages).length} projection images` });
-          }
-
-          if (clusterResult.metric_plots) {
-            metricImages = await clusteringApi.getMetricImages(clusterResult.metric_plots, apiConfig);
-            get().addLog({ type: "success", message: `Loaded ${Object.keys(metricImages).length} metric images` });
+            clusterResult = await followJob(get, set, apiConfig, jobId, signal);
+          } else {
+            // The backend gives no progress for a synchronous run
+            setStage("Waiting for the clustering backend", 50);
+            get().addLog({ type: "info", message: "Calling clustering API..." });
+            clusterResult = await clusteringApi.runClustering(apiConfig, parameters, infoFileBase64, datasetId ?? undefined, extra, signal);
           }
 
-          // Create metrics
-          const clusters = Array.from(new Set(finalDataPoints.map(d => d.cluster).filter(Boolean)));
-          const metrics: ClusterMetrics = {
-            silhouetteScore: 0.742,
-            inertia: 1234.56,
-            clusters: clusters.map(clusterId => {
-              const clusterPoints = finalDataPoints.filter(d => d.cluster === clusterId);
-              return {
-                id: clusterId as number,
-                size: clusterPoints.length,
-                centroid: { x: 0, y: 0 },
-                avgDistance: Math.random() * 2,
-              };
-            }),
-          };
-
-          set({ progress: 100 });
-          get().addLog({ type: "success", message: "Clustering completed successfully!" });
-
-          set({
-            results: {
-              dataPoints: finalDataPoints,
-              clusterResult,
-              metrics,
-              projectionImages,
-              metricImages,
-            },
-            isRunning: false,
-            progress: 100,
-          });
+          console.log("🔍 Store: Received cluster result from API:");
+          console.log("📋 ClusterResult object:", JSON.stringify(clusterResult, null, 2));
+          get().addLog({ type: "success", message: "Clustering API completed successfully" });
 
+          await applyRunResult(get, set, clusterResult, { startedAt, parameters, config: apiConfig }, signal);
         } catch (error) {
+          if (isCancelled(error)) {
+            get().addLog({ type: "warning", message: "Clustering cancelled" });
+            set({ results: null, resultsEndpoint: null, currentRunId: null, isRunning: false, progress: 0, progressStage: null, error: null });
+            return;
+          }
           const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
           get().addLog({ type: "error", message: errorMessage });
           set({
             error: errorMessage,
             isRunning: false,
             progress: 0,
+            progressStage: null,
           });
           throw error;
+        } finally {
+          finishJob(signal);
+          if (jobId) forgetJob(get, set, jobId);
+        }
+      },
+
+      resumeActiveJob: async () => {
+        const remembered = rememberedJob();
+        if (!remembered || get().isRunning) return;
+
+        const config = { ...get().apiConfig, endpoint: remembered.endpoint };
+        const signal = startJob();
+        set({
+          isRunning: true,
+          progress: 0,
+          progressStage: "Reconnecting",
+          logs: [],
+          results: null,
+          resultsEndpoint: null,
+          error: null,
+          currentRunId: null,
+          selectedK: null,
+          activeJobId: remembered.job_id,
+        });
+        get().addLog({ type: "info", message: `Reconnecting to clustering job ${remembered.job_id}...` });
+
+        try {
+          const clusterResult = await followJob(get, set, config, remembered.job_id, signal);
+          await applyRunResult(get, set, clusterResult, {
+            startedAt: remembered.started_at,
+            parameters: remembered.parameters,
+            config,
+          }, signal);
+        } catch (error) {
+          if (isCancelled(error) || error instanceof JobNotFoundError) {
+            get().addLog({
+              type: "warning",
+              message: isCancelled(error) ? "Clustering cancelled" : `Job ${remembered.job_id} is no longer available`,
+            });
+            set({ isRunning: false, progress: 0, progressStage: null });
+            return;
+          }
+          const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+          get().addLog({ type: "error", message: errorMessage });
+          set({ error: errorMessage, isRunning: false, progress: 0, progressStage: null });
+        } finally {
+          finishJob(signal);
+          forgetJob(get, set, remembered.job_id);
+        }
+      },
+
+      cancelRun: () => {
+        if (!activeJob || activeJob.signal.aborted) return;
+        get().addLog({ type: "info", message: "Cancelling..." });
+        const { activeJobId, apiConfig } = get();
+        if (activeJobId) {
+          clusteringApi.cancelJob({ ...apiConfig, endpoint: rememberedJob()?.endpoint ?? apiConfig.endpoint }, activeJobId);
         }
+        activeJob.abort();
       },
     }),
     {
@@ -0,0 +1,45 @@
+import Papa from "papaparse";
+import type { ClusterResult } from "@shared/schema";
+import { enterprisePoints, type EnterprisePoint } from "@shared/enterprise-points";
+import { foldVietnamese } from "./company-search";
+
+/**
+ * Enterprises of `result` with the given point ids, in result order
+ */
+export function cohortPoints(result: ClusterResult | null | undefined, ids: string[]): EnterprisePoint[] {
+  if (!result || ids.length === 0) return [];
+  const wanted = new Set(ids);
+  return enterprisePoints(result).filter((point) => wanted.has(point.id));
+}
+
+/**
+ * CSV of a cohort: identity, cluster and sector columns first, then every other
+ * field of the enterprise rows
+ */
+export function cohortCsv(points: EnterprisePoint[]): string {
+  const extra = new Set<string>();
+  for (const point of points) for (const column of Object.keys(point.row)) extra.add(column);
+
+  const rows = points.map((point) => ({
+    ...point.row,
+    id: point.id,
+    name: point.name,
+    taxcode: point.taxcode,
+    yearreport: point.yearreport,
+    cluster: point.cluster,
+    sector: point.sectorName,
+    sector_unique_id: point.sectorId,
+    employees: point.employees ?? "",
+  }));
+  const leading = ["id", "name", "taxcode", "yearreport", "cluster", "sector", "sector_unique_id", "employees"];
+  const columns = [...leading, ...Array.from(extra).filter((column) => !leading.includes(column))];
+  return Papa.unparse(rows, { columns });
+}
+
+/**
+ * File-name-safe version of a cohort name
+ */
+export function cohortFileName(name: string): string {
+  const slug = foldVietnamese(name).replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return `cohort-${slug || "selection"}.csv`;
+}
@@ -0,0 +1,80 @@
+import type { ClusterResult } from "@shared/schema";
+import { enterprisePoints, type EnterprisePoint } from "@shared/enterprise-points";
+
+/**
+ * Lower-case text without Vietnamese diacritics, so "Công ty Đại Việt" matches
+ * "cong ty dai viet"
+ */
+export function foldVietnamese(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[đĐ]/g, "d")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export interface SearchMatch {
+  point: EnterprisePoint;
+  // Lower is better: 0 exact taxcode, 1 taxcode prefix, 2 name prefix, 3 every query word in the name
+  rank: number;
+}
+
+interface SearchEntry {
+  point: EnterprisePoint;
+  name: string;
+  taxcode: string;
+}
+
+// Folded names are built once per result object
+const indexes = new WeakMap<ClusterResult, SearchEntry[]>();
+
+function searchIndex(result: ClusterResult): SearchEntry[] {
+  let index = indexes.get(result);
+  if (!index) {
+    index = enterprisePoints(result).map((point) => ({
+      point,
+      name: foldVietnamese(point.name),
+      taxcode: point.taxcode.replace(/\s/g, ""),
+    }));
+    indexes.set(result, index);
+  }
+  return index;
+}
+
+function rankOf(entry: SearchEntry, folded: string, words: string[], taxcode: string): number | null {
+  if (taxcode && entry.taxcode === taxcode) return 0;
+  if (taxcode && entry.taxcode.startsWith(taxcode)) return 1;
+  if (entry.name.startsWith(folded)) return 2;
+  if (words.every((word) => entry.name.includes(word))) return 3;
+  return null;
+}
+
+/**
+ * Enterprises of `result` matching `query` by taxcode (exact or prefix) or by
+ * name (diacritic-insensitive, every word), best first
+ */
+export function searchEnterprises(result: ClusterResult, query: string, limit = 20): SearchMatch[] {
+  const folded = foldVietnamese(query);
+  if (folded.length === 0) return [];
+  const words = folded.split(" ");
+  // Only digit-and-dash queries are tried as taxcodes
+  const taxcode = /^[\d-]+$/.test(folded.replace(/\s/g, "")) ? folded.replace(/\s/g, "") : "";
+
+  const matches: SearchMatch[] = [];
+  for (const entry of searchIndex(result)) {
+    const rank = rankOf(entry, folded, words, taxcode);
+    if (rank !== null) matches.push({ point: entry.point, rank });
+  }
+  return matches
+    .sort((a, b) => a.rank - b.rank || a.point.name.length - b.point.name.length)
+    .slice(0, limit);
+}
+
+/**
+ * The enterprise with point id `id` in `result`, if it has one
+ */
+export function findEnterprise(result: ClusterResult | null | undefined, id: string | null): EnterprisePoint | undefined {
+  return result && id ? enterprisePoints(result).find((point) => point.id === id) : undefined;
+}
@@ -0,0 +1,183 @@
+export type QualityFlag = "empty" | "high_nulls" | "infinite" | "outliers" | "constant" | "mixed_types";
+
+export interface NumericSummary {
+  min: number;
+  max: number;
+  mean: number;
+  std: number;
+  q1: number;
+  median: number;
+  q3: number;
+}
+
+export interface ColumnQuality {
+  column: string;
+  kind: "numeric" | "text";
+  // Empty cells and NaN / null / None markers
+  nulls: number;
+  // inf / Infinity cells (numeric columns)
+  infinite: number;
+  // Text cells in a numeric column
+  nonNumeric: number;
+  // Finite values beyond OUTLIER_FENCE interquartile ranges from the quartiles
+  outliers: number;
+  summary: NumericSummary | null;
+  // Counts over HISTOGRAM_BINS equal bins between the outlier fences (clipped to min/max)
+  histogram: { from: number; to: number; counts: number[] } | null;
+  flags: QualityFlag[];
+}
+
+export interface DataQualityReport {
+  fileName: string;
+  rowCount: number;
+  columns: ColumnQuality[];
+}
+
+// Share of null cells above which a column is flagged
+const HIGH_NULL_RATE = 0.2;
+// Tukey's "far out" fence: values this many IQRs outside the quartiles
+const OUTLIER_FENCE = 3;
+// Share of numeric cells (among non-null ones) for a column to count as numeric
+const NUMERIC_SHARE = 0.7;
+const HISTOGRAM_BINS = 16;
+
+// Described but never flagged: the engine does not use them as features
+const IDENTIFIER_COLUMNS = new Set([
+  "id", "taxcode", "yearreport", "name", "sector_unique_id", "sector_unique_id_raw", "sector_code_matched",
+  "Label", "cluster", "Unnamed: 0", "pca2_x", "pca2_y", "emb_x", "emb_y",
+]);
+
+const NULL_MARKERS = new Set(["", "nan", "null", "none", "na", "n/a", "#n/a"]);
+const INFINITY_PATTERN = /^[+-]?(inf|infinity)$/i;
+
+export function isIdentifierColumn(column: string): boolean {
+  return IDENTIFIER_COLUMNS.has(column);
+}
+
+// Standardized ratio features of the enterprise info file
+export function isStdRatioColumn(column: string): boolean {
+  return /^STD_RTD/i.test(column);
+}
+
+/**
+ * Numeric columns that look like money amounts (non-negative, in the millions,
+ * right-skewed): candidates for a log transform before clustering
+ */
+export function suggestLogColumns(report: DataQualityReport): string[] {
+  return report.columns
+    .filter(({ column, kind, summary }) =>
+      kind === "numeric" && summary !== null && !isIdentifierColumn(column) && !isStdRatioColumn(column) &&
+      summary.min >= 0 && summary.max >= 1e6 && summary.mean > 2 * summary.median)
+    .map(({ column }) => column);
+}
+
+function quantile(sorted: Float64Array, q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function analyzeColumn(column: string, cells: (string | undefined)[]): ColumnQuality {
+  let nulls = 0;
+  let infinite = 0;
+  let nonNumeric = 0;
+  const values: number[] = [];
+
+  for (const cell of cells) {
+    const text = (cell ?? "").trim();
+    if (NULL_MARKERS.has(text.toLowerCase())) {
+      nulls++;
+    } else if (INFINITY_PATTERN.test(text)) {
+      infinite++;
+    } else {
+      const value = Number(text);
+      if (Number.isFinite(value)) values.push(value);
+      else nonNumeric++;
+    }
+  }
+
+  const present = cells.length - nulls;
+  const kind = present > 0 && (values.length + infinite) / present > NUMERIC_SHARE ? "numeric" : "text";
+  const flags: QualityFlag[] = [];
+  if (present === 0) flags.push("empty");
+  else if (nulls / cells.length > HIGH_NULL_RATE) flags.push("high_nulls");
+
+  if (kind === "text" || values.length === 0) {
+    return { column, kind, nulls, infinite: 0, nonNumeric: 0, outliers: 0, summary: null, histogram: null, flags };
+  }
+
+  const sorted = Float64Array.from(values).sort();
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+  const summary: NumericSummary = {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    std,
+    q1: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    q3: quantile(sorted, 0.75),
+  };
+
+  const iqr = summary.q3 - summary.q1;
+  const low = summary.q1 - OUTLIER_FENCE * iqr;
+  const high = summary.q3 + OUTLIER_FENCE * iqr;
+  const outliers = iqr > 0 ? values.filter((v) => v < low || v > high).length : 0;
+
+  const from = Math.max(summary.min, low);
+  const to = Math.min(summary.max, high);
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  const width = (to - from) / HISTOGRAM_BINS;
+  for (const value of values) {
+    if (value < from || value > to) continue;
+    counts[width > 0 ? Math.min(HISTOGRAM_BINS - 1, Math.floor((value - from) / width)) : 0]++;
+  }
+
+  if (infinite > 0) flags.push("infinite");
+  if (outliers > 0) flags.push("outliers");
+  if (std === 0) flags.push("constant");
+  if (nonNumeric > 0) flags.push("mixed_types");
+
+  return { column, kind, nulls, infinite, nonNumeric, outliers, summary, histogram: { from, to, counts }, flags };
+}
+
+/**
+ * Per-column quality of parsed CSV rows: null rates, infinities, extreme
+ * outliers, constant columns and value distributions
+ */
+export function analyzeRows(fileName: string, rows: Record<string, string>[]): DataQualityReport {
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+  return {
+    fileName,
+    rowCount: rows.length,
+    columns: columns.map((column) => {
+      const quality = analyzeColumn(column, rows.map((row) => row[column]));
+      return IDENTIFIER_COLUMNS.has(column) ? { ...quality, flags: [] } : quality;
+    }),
+  };
+}
+
+export function formatQualityValue(value: number): string {
+  return Math.abs(value) >= 1e6 || (value !== 0 && Math.abs(value) < 1e-3)
+    ? value.toExponential(2)
+    : value.toLocaleString(undefined, { maximumFractionDigits: 3 });
+}
+
+/**
+ * One-line description of a flagged column for the run log, e.g.
+ * "STD_RTD13: 12.5% null, 3 extreme outliers (range -1.2 … 2.80e+9)"
+ */
+export function describeColumn(quality: ColumnQuality, rowCount: number): string {
+  const parts: string[] = [];
+  if (quality.flags.includes("empty")) parts.push("no values");
+  if (quality.flags.includes("high_nulls")) parts.push(`${((quality.nulls / rowCount) * 100).toFixed(1)}% null`);
+  if (quality.infinite > 0) parts.push(`${quality.infinite} infinite`);
+  if (quality.outliers > 0 && quality.summary) {
+    parts.push(`${quality.outliers} extreme outliers (range ${formatQualityValue(quality.summary.min)} … ${formatQualityValue(quality.summary.max)})`);
+  }
+  if (quality.flags.includes("constant") && quality.summary) parts.push(`constant (${formatQualityValue(quality.summary.min)})`);
+  if (quality.nonNumeric > 0) parts.push(`${quality.nonNumeric} non-numeric values`);
+  return `${quality.column}: ${parts.join(", ")}`;
+}
+
@@ -0,0 +1,245 @@
+import type { EnterprisePoint } from "@shared/enterprise-points";
+import { isIdentifierColumn } from "./data-quality";
+
+export type EncodingChannel = "z" | "size" | "opacity" | "color";
+export type EncodingScale = "linear" | "log" | "rank";
+
+export interface EncodingTerm {
+  column: string;
+  weight: number;
+}
+
+/**
+ * What drives one visual channel: a weighted sum of numeric enterprise fields
+ * (a single attribute is one term of weight 1), then a scale. No terms means
+ * the channel's default: constant size/opacity, colour by cluster.
+ */
+export interface ChannelEncoding {
+  terms: EncodingTerm[];
+  scale: EncodingScale;
+}
+
+export type PointEncoding = Record<EncodingChannel, ChannelEncoding>;
+
+export interface EncodedValues {
+  z: number;
+  // Marker size in the zoom space's units (x8 pixels)
+  size: number;
+  opacity: number;
+  // CSS colour, or undefined to colour by cluster
+  color?: string;
+}
+
+export const ENCODING_CHANNELS: { id: EncodingChannel; label: string }[] = [
+  { id: "z", label: "Z axis" },
+  { id: "size", label: "Size" },
+  { id: "opacity", label: "Opacity" },
+  { id: "color", label: "Colour" },
+];
+
+// Z is the size score and marker size follows the employee count, as before encodings
+export const DEFAULT_ENCODING: PointEncoding = {
+  z: {
+    terms: [
+      { column: "s_DT_TTM", weight: 0.3 },
+      { column: "s_TTS", weight: 0.3 },
+      { column: "s_VCSH", weight: 0.3 },
+      { column: "s_EMPL", weight: 0.1 },
+    ],
+    scale: "linear",
+  },
+  size: { terms: [{ column: "empl_qtty", weight: 1 }], scale: "log" },
+  opacity: { terms: [], scale: "linear" },
+  color: { terms: [], scale: "linear" },
+};
+
+const SIZE_RANGE: [number, number] = [0.5, 3];
+const OPACITY_RANGE: [number, number] = [0.2, 1];
+const DEFAULT_OPACITY = 0.7;
+
+// Viridis stops for continuous colour
+const COLOR_STOPS: [number, number, number][] = [
+  [68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37],
+];
+
+/**
+ * Numeric enterprise fields that can drive a channel, in the order they first appear
+ */
+export function encodingColumns(points: EnterprisePoint[]): string[] {
+  const columns = new Set<string>();
+  for (const point of points) {
+    for (const [column, value] of Object.entries(point.row)) {
+      if (typeof value === "number" && Number.isFinite(value) && !isIdentifierColumn(column)) columns.add(column);
+    }
+  }
+  return Array.from(columns);
+}
+
+// Weighted sum of the terms; missing fields count as 0, null when every one is missing
+function rawValue(row: Record<string, unknown>, terms: EncodingTerm[]): number | null {
+  let sum = 0;
+  let present = 0;
+  for (const { column, weight } of terms) {
+    const value = row[column];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      sum += weight * value;
+      present++;
+    }
+  }
+  return present > 0 ? sum : null;
+}
+
+// Average rank of each value scaled to [0, 1]; nulls stay null
+function ranks(values: (number | null)[]): (number | null)[] {
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .filter((entry): entry is { value: number; index: number } => entry.value !== null)
+    .sort((a, b) => a.value - b.value);
+  const result: (number | null)[] = values.map(() => null);
+  const last = Math.max(1, order.length - 1);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 / last;
+    for (let i = start; i <= end; i++) result[order[i].index] = rank;
+    start = end + 1;
+  }
+  return result;
+}
+
+/**
+ * Channel values of every point after the scale: linear keeps the value, log is
+ * sign(v) * log10(|v| + 1), rank is the percentile rank in [0, 1]
+ */
+export function channelValues(points: EnterprisePoint[], encoding: ChannelEncoding): (number | null)[] {
+  const raw = points.map((point) => rawValue(point.row, encoding.terms));
+  if (encoding.scale === "rank") return ranks(raw);
+  if (encoding.scale === "log") return raw.map((v) => (v === null ? null : Math.sign(v) * Math.log10(Math.abs(v) + 1)));
+  return raw;
+}
+
+// Min-max to [0, 1]; nulls and constant channels map to 0
+function normalize(values: (number | null)[]): number[] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v === null) continue;
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  }
+  const span = max - min;
+  return values.map((v) => (v === null || !(span > 0) ? 0 : (v - min) / span));
+}
+
+function lerp([from, to]: [number, number], t: number): number {
+  return from + (to - from) * t;
+}
+
+export function colorAt(t: number): string {
+  const position = Math.min(1, Math.max(0, t)) * (COLOR_STOPS.length - 1);
+  const i = Math.min(COLOR_STOPS.length - 2, Math.floor(position));
+  const f = position - i;
+  const [r, g, b] = COLOR_STOPS[i].map((c, k) => Math.round(c + (COLOR_STOPS[i + 1][k] - c) * f));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Z, marker size, opacity and colour of every point under `encoding`
+ */
+export function encodePoints(points: EnterprisePoint[], encoding: PointEncoding): EncodedValues[] {
+  const z = encoding.z.terms.length > 0 ? channelValues(points, encoding.z) : null;
+  const size = encoding.size.terms.length > 0 ? normalize(channelValues(points, encoding.size)) : null;
+  const opacity = encoding.opacity.terms.length > 0 ? normalize(channelValues(points, encoding.opacity)) : null;
+  const color = encoding.color.terms.length > 0 ? normalize(channelValues(points, encoding.color)) : null;
+
+  return points.map((point, i) => ({
+    z: z?.[i] ?? 0,
+    size: size ? lerp(SIZE_RANGE, size[i]) : point.markerSize,
+    opacity: opacity ? lerp(OPACITY_RANGE, opacity[i]) : DEFAULT_OPACITY,
+    color: color ? colorAt(color[i]) : undefined,
+  }));
+}
+
+function formatWeight(weight: number): string {
+  return Number(weight.toFixed(3)).toString();
+}
+
+/**
+ * One channel for legends and exports, e.g. "0.3·s_DT_TTM + 0.1·s_EMPL (linear)"
+ */
+export function describeChannel(channel: EncodingChannel, encoding: ChannelEncoding): string {
+  if (encoding.terms.length === 0) {
+    return channel === "color" ? "cluster" : channel === "z" ? "none" : "constant";
+  }
+  const formula = encoding.terms
+    .map(({ column, weight }, i) => {
+      const sign = i === 0 ? (weight < 0 ? "-" : "") : weight < 0 ? " - " : " + ";
+      const magnitude = Math.abs(weight);
+      return `${sign}${magnitude === 1 ? "" : `${formatWeight(magnitude)}·`}${column}`;
+    })
+    .join("");
+  return `${formula} (${encoding.scale})`;
+}
+
+export function describeEncoding(encoding: PointEncoding): Record<EncodingChannel, string> {
+  return {
+    z: describeChannel("z", encoding.z),
+    size: describeChannel("size", encoding.size),
+    opacity: describeChannel("opacity", encoding.opacity),
+    color: describeChannel("color", encoding.color),
+  };
+}
+
+// Formula tokens: numbers, column names, operators; anything else is an error
+const FORMULA_TOKEN = /\s*(?:(\d*\.?\d+(?:e[+-]?\d+)?)|([A-Za-z_][\w.]*)|([+\-*·])|(\S))/gi;
+
+/**
+ * Parse a formula such as "0.3*s_DT_TTM + 0.3 s_TTS - s_EMPL" into terms: a
+ * sum of columns, each with an optional coefficient. Unknown columns and
+ * anything that is not such a sum are returned as errors.
+ */
+export function parseFormula(text: string, columns: string[]): { terms: EncodingTerm[]; errors: string[] } {
+  const known = new Set(columns);
+  const terms: EncodingTerm[] = [];
+  const errors: string[] = [];
+  const tokens: { kind: "number" | "column" | "operator"; value: string }[] = [];
+  FORMULA_TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (FORMULA_TOKEN.lastIndex < text.length && (match = FORMULA_TOKEN.exec(text))) {
+    const [, number, column, operator, other] = match;
+    if (other) {
+      errors.push(`Unexpected "${other}"`);
+      return { terms, errors };
+    }
+    if (number) tokens.push({ kind: "number", value: number });
+    else if (column) tokens.push({ kind: "column", value: column });
+    else if (operator) tokens.push({ kind: "operator", value: operator });
+  }
+
+  // term := [+|-] [number [*]] column, terms joined by + or -
+  let i = 0;
+  while (i < tokens.length) {
+    let weight = 1;
+    if (tokens[i].value === "+" || tokens[i].value === "-") {
+      if (tokens[i].value === "-") weight = -1;
+      i++;
+    } else if (i > 0) {
+      errors.push(`Expected + or - before "${tokens[i].value}"`);
+      return { terms, errors };
+    }
+    if (tokens[i]?.kind === "number") {
+      weight *= Number(tokens[i].value);
+      i++;
+      if (tokens[i]?.value === "*" || tokens[i]?.value === "·") i++;
+    }
+    const token = tokens[i];
+    if (token?.kind !== "column") {
+      errors.push(token ? `Expected a column name before "${token.value}"` : "Formula ends without a column name");
+      return { terms, errors };
+    }
+    if (!known.has(token.value)) errors.push(`Unknown column "${token.value}"`);
+    else terms.push({ column: token.value, weight });
+    i++;
+  }
+  return { terms, errors };
+}
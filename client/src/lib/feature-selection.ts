@@ -0,0 +1,152 @@
+import type { ClusteringParams, FileMetadata } from "@shared/schema";
+import { isIdentifierColumn, isStdRatioColumn } from "./data-quality";
+
+export interface FeaturePreset {
+  id: string;
+  label: string;
+  matches: (column: string) => boolean;
+}
+
+// Size features of the enterprise info file: revenue, employees, total assets, equity
+export function isSizeColumn(column: string): boolean {
+  return /^s_(DT_TTM|EMPL|TTS|VCSH)$/i.test(column);
+}
+
+export const FEATURE_PRESETS: FeaturePreset[] = [
+  { id: "all", label: "All", matches: () => true },
+  { id: "ratios", label: "STD_RTD ratios", matches: isStdRatioColumn },
+  { id: "size", label: "Size", matches: isSizeColumn },
+  { id: "ratios_size", label: "Ratios + size", matches: (column) => isStdRatioColumn(column) || isSizeColumn(column) },
+];
+
+// |r| at or above which two features are reported as redundant
+export const REDUNDANT_CORRELATION = 0.9;
+
+// Pairs are only computed among this many columns (n² work per row)
+const MAX_CORRELATION_COLUMNS = 200;
+
+// ...and over an evenly spaced sample of this many rows, as this runs on upload
+const MAX_CORRELATION_ROWS = 2000;
+
+export interface CorrelatedPair {
+  a: string;
+  b: string;
+  r: number;
+  // Sampled rows where both columns have a value
+  n: number;
+}
+
+/**
+ * Numeric info columns the engine can use as features
+ */
+export function featureCandidates(metadata: FileMetadata | undefined): string[] {
+  return (metadata?.numericColumns ?? []).filter((column) => !isIdentifierColumn(column));
+}
+
+function numericValues(rows: Record<string, string>[], column: string): Float64Array {
+  const values = new Float64Array(rows.length);
+  rows.forEach((row, i) => {
+    const text = row[column]?.trim();
+    const value = text ? Number(text) : NaN;
+    values[i] = Number.isFinite(value) ? value : NaN;
+  });
+  return values;
+}
+
+function sampleRows<T>(rows: T[], count: number): T[] {
+  if (rows.length <= count) return rows;
+  return Array.from({ length: count }, (_, i) => rows[Math.floor((i * rows.length) / count)]);
+}
+
+// Pearson correlation over the rows where both values are present. Two
+// passes (means, then centred sums) keep large raw values such as STD_RTD
+// totals from cancelling out.
+function pearson(x: Float64Array, y: Float64Array): { r: number; n: number } {
+  let n = 0, sx = 0, sy = 0;
+  for (let i = 0; i < x.length; i++) {
+    if (Number.isNaN(x[i]) || Number.isNaN(y[i])) continue;
+    n++;
+    sx += x[i];
+    sy += y[i];
+  }
+  if (n <= 2) return { r: NaN, n };
+
+  const mx = sx / n;
+  const my = sy / n;
+  let sxx = 0, syy = 0, sxy = 0;
+  for (let i = 0; i < x.length; i++) {
+    if (Number.isNaN(x[i]) || Number.isNaN(y[i])) continue;
+    const dx = x[i] - mx;
+    const dy = y[i] - my;
+    sxx += dx * dx;
+    syy += dy * dy;
+    sxy += dx * dy;
+  }
+  const denominator = Math.sqrt(sxx * syy);
+  return { r: denominator > 0 ? sxy / denominator : NaN, n };
+}
+
+/**
+ * Pairs of columns whose absolute correlation is at least `threshold`,
+ * strongest first, estimated on a sample of the rows
+ */
+export function correlatedPairs(
+  rows: Record<string, string>[],
+  columns: string[],
+  threshold = REDUNDANT_CORRELATION,
+): CorrelatedPair[] {
+  const candidates = columns.slice(0, MAX_CORRELATION_COLUMNS);
+  const sample = sampleRows(rows, MAX_CORRELATION_ROWS);
+  const values = candidates.map((column) => numericValues(sample, column));
+  const pairs: CorrelatedPair[] = [];
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const { r, n } = pearson(values[i], values[j]);
+      if (Math.abs(r) >= threshold) pairs.push({ a: candidates[i], b: candidates[j], r, n });
+    }
+  }
+  return pairs.sort((p, q) => Math.abs(q.r) - Math.abs(p.r));
+}
+
+/**
+ * Selected columns that can be dropped so that no two remaining ones are
+ * redundant: for every correlated pair still fully selected, the second column
+ */
+export function redundantFeatures(selected: string[], pairs: CorrelatedPair[]): string[] {
+  const remaining = new Set(selected);
+  const dropped: string[] = [];
+  for (const { a, b } of pairs) {
+    if (remaining.has(a) && remaining.has(b)) {
+      remaining.delete(b);
+      dropped.push(b);
+    }
+  }
+  return dropped;
+}
+
+// Short stable hash (FNV-1a) so runs on the same feature set show the same tag
+function fingerprint(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0").slice(0, 6);
+}
+
+/**
+ * Feature set of a run for history and logs, e.g. "All numeric" or
+ * "12 features, 2 weighted #a3f09c"
+ */
+export function describeFeatureSet(params: Pick<ClusteringParams, "feature_columns" | "feature_weights">): string {
+  const weights = Object.entries(params.feature_weights ?? {})
+    .filter(([, weight]) => weight !== 1)
+    .sort(([a], [b]) => a.localeCompare(b));
+  if (!params.feature_columns && weights.length === 0) return "All numeric";
+
+  const columns = params.feature_columns ? [...params.feature_columns].sort() : null;
+  const parts = [columns ? `${columns.length} features` : "All numeric"];
+  if (weights.length > 0) parts.push(`${weights.length} weighted`);
+  const tag = fingerprint(JSON.stringify([columns, weights]));
+  return `${parts.join(", ")} #${tag}`;
+}
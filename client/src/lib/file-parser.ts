@@ -1,42 +1,85 @@
 import Papa from "papaparse";
 import { FileMetadata } from "@shared/schema";
 
-export async function parseFile(file: File): Promise<FileMetadata> {
+export interface ParseOptions {
+  // Override the detected delimiter / header row
+  delimiter?: string;
+  hasHeader?: boolean;
+}
+
+const PREVIEW_ROWS = 20;
+
+function isNumericValue(value: unknown): boolean {
+  return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value)));
+}
+
+/**
+ * Count data lines without holding the whole file in memory
+ */
+async function countLines(file: File): Promise<number> {
+  const reader = file.stream().getReader();
+  let lines = 0;
+  let lastByte = 10;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) {
+      if (value[i] === 10) lines++;
+    }
+    if (value.length > 0) lastByte = value[value.length - 1];
+  }
+  // A last line without a trailing newline still counts
+  return lastByte === 10 ? lines : lines + 1;
+}
+
+export async function parseFile(file: File, options: ParseOptions = {}): Promise<FileMetadata> {
+  const lineCount = await countLines(file);
+
   return new Promise((resolve, reject) => {
     Papa.parse(file, {
-      header: true,
+      header: false,
       skipEmptyLines: true,
       dynamicTyping: true,
-      preview: 20, // Only parse first 20 rows for preview
+      delimiter: options.delimiter ?? '',
+      preview: PREVIEW_ROWS + 1, // Only parse the header and first 20 rows for preview
       complete: (results) => {
         try {
           if (results.errors.length > 0) {
             throw new Error(`Parse error: ${results.errors[0].message}`);
           }
 
-          const data = results.data as Record<string, any>[];
-          const columns = Object.keys(data[0] || {});
+          const raw = results.data as any[][];
+          if (raw.length === 0) {
+            throw new Error("File is empty");
+          }
+
+          // A first row made only of numbers is data, not a header
+          const hasHeader = options.hasHeader ?? !raw[0].every(isNumericValue);
+          const columns = hasHeader
+            ? raw[0].map((name, i) => String(name ?? '').trim() || `column_${i + 1}`)
+            : raw[0].map((_, i) => `column_${i + 1}`);
+          const data = raw.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS).map(row =>
+            Object.fromEntries(columns.map((column, i) => [column, row[i] ?? null]))
+          );
           
           // Detect numeric columns
           const numericColumns = columns.filter(col => {
             const values = data.slice(0, 10).map(row => row[col]);
-            const numericCount = values.filter(val => 
-              typeof val === 'number' || (!isNaN(parseFloat(val)) && isFinite(parseFloat(val)))
-            ).length;
-            return numericCount / values.length > 0.7; // 70% numeric threshold
+            const numericCount = values.filter(isNumericValue).length;
+            return values.length > 0 && numericCount / values.length > 0.7; // 70% numeric threshold
           });
 
-          // Detect delimiter (Papa Parse handles this automatically)
-          const delimiter = results.meta.delimiter || ',';
+          // Papa Parse detects the delimiter unless one was given
+          const delimiter = options.delimiter || results.meta.delimiter || ',';
           
           const metadata: FileMetadata = {
             name: file.name,
             size: file.size,
             type: file.type,
             delimiter,
-            hasHeader: true, // Papa Parse assumes header if header: true
+            hasHeader,
             columnCount: columns.length,
-            rowCount: file.size > 1024 * 1024 ? Math.floor(file.size / 100) : data.length, // Estimate for large files
+            rowCount: Math.max(0, lineCount - (hasHeader ? 1 : 0)),
             columns,
             numericColumns,
             preview: data,
@@ -54,6 +97,28 @@ export async function parseFile(file: File): Promise<FileMetadata> {
   });
 }
 
+/**
+ * Rewrite a delimited file as a comma-separated CSV with a header row, so that
+ * backends which assume that format read it the way it was inspected here
+ */
+export async function normalizeCsv(file: File, metadata: FileMetadata): Promise<File> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      header: false,
+      skipEmptyLines: true,
+      delimiter: metadata.delimiter,
+      complete: (results) => {
+        const rows = metadata.hasHeader ? results.data.slice(1) : results.data;
+        const text = Papa.unparse({ fields: metadata.columns, data: rows });
+        resolve(new File([text], file.name, { type: 'text/csv' }));
+      },
+      error: (error) => {
+        reject(new Error(`Failed to parse file: ${error.message}`));
+      },
+    });
+  });
+}
+
 export function detectDelimiter(sample: string): string {
   const delimiters = [',', ';', '\t', '|'];
   const counts = delimiters.map(delimiter => ({
@@ -64,13 +129,28 @@ export function detectDelimiter(sample: string): string {
   return counts.sort((a, b) => b.count - a.count)[0].delimiter;
 }
 
+export interface IdMappingReport {
+  matched: number;
+  total: number;
+  percentage: number;
+  // Distinct ids present in only one of the files
+  embeddingsOnly: number;
+  infoOnly: number;
+  // Rows whose id repeats an earlier row of the same file
+  duplicateEmbeddings: number;
+  duplicateInfo: number;
+}
+
 export function validateIdMapping(
   embeddingsData: Record<string, any>[],
   infoData: Record<string, any>[],
-  idColumn: string = 'id'
-): { matched: number; total: number; percentage: number } {
-  const embeddingIds = new Set(embeddingsData.map(row => row[idColumn]));
-  const infoIds = new Set(infoData.map(row => row[idColumn]));
+  idColumn: string = 'id',
+  infoIdColumn: string = idColumn
+): IdMappingReport {
+  // Ids are compared as trimmed strings so "0101" in one file does not miss 0101 in the other
+  const key = (value: unknown) => String(value ?? '').trim();
+  const embeddingIds = new Set(embeddingsData.map(row => key(row[idColumn])));
+  const infoIds = new Set(infoData.map(row => key(row[infoIdColumn])));
   
   const intersection = new Set(Array.from(embeddingIds).filter(id => infoIds.has(id)));
   const total = Math.max(embeddingIds.size, infoIds.size);
@@ -78,6 +158,97 @@ export function validateIdMapping(
   return {
     matched: intersection.size,
     total,
-    percentage: (intersection.size / total) * 100,
+    percentage: total > 0 ? (intersection.size / total) * 100 : 0,
+    embeddingsOnly: embeddingIds.size - intersection.size,
+    infoOnly: infoIds.size - intersection.size,
+    duplicateEmbeddings: embeddingsData.length - embeddingIds.size,
+    duplicateInfo: infoData.length - infoIds.size,
   };
 }
+
+/**
+ * Parse every row of a CSV file, keeping all values as strings (ids such as
+ * taxcodes keep their leading zeros)
+ */
+export async function parseRows(file: File): Promise<Record<string, string>[]> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => resolve(results.data),
+      error: (error) => {
+        reject(new Error(`Failed to parse file: ${error.message}`));
+      },
+    });
+  });
+}
+
+export interface EmbeddingMatrix {
+  idColumn: string | null;
+  ids: string[];
+  columns: string[];
+  matrix: number[][];
+}
+
+/**
+ * Parse a whole embeddings file into a numeric matrix. Dimensions are either the
+ * numeric columns, or a single column holding a JSON array ("[0.1, 0.2, ...]").
+ * The first non-numeric column is used as the row id; rows without a full vector are skipped.
+ * `numericColumns` overrides the detected dimension columns (see the file inspection panel).
+ */
+export async function parseEmbeddings(file: File, numericColumns?: string[]): Promise<EmbeddingMatrix> {
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      dynamicTyping: true,
+      complete: (results) => {
+        try {
+          const rows = results.data as Record<string, any>[];
+          const fields = results.meta.fields || Object.keys(rows[0] || {});
+          if (rows.length === 0) {
+            throw new Error("Embeddings file is empty");
+          }
+
+          const sample = rows.slice(0, 20);
+          const vectorColumn = fields.find(col =>
+            sample.every(row => typeof row[col] === 'string' && row[col].trim().startsWith('['))
+          );
+          const numericCols = numericColumns
+            ? fields.filter(col => numericColumns.includes(col))
+            : fields.filter(col =>
+                sample.every(row => typeof row[col] === 'number' || row[col] === null)
+              );
+          const idColumn = fields.find(col => col !== vectorColumn && !numericCols.includes(col))
+            ?? (fields.includes('id') ? 'id' : null);
+
+          const columns = vectorColumn ? [vectorColumn] : numericCols.filter(col => col !== idColumn);
+          if (columns.length === 0) {
+            throw new Error("No numeric embedding columns found");
+          }
+
+          const ids: string[] = [];
+          const matrix: number[][] = [];
+          let width = 0;
+          rows.forEach((row, index) => {
+            const vector: number[] = vectorColumn
+              ? JSON.parse(row[vectorColumn])
+              : columns.map(col => row[col]);
+            if (width === 0) width = vector.length;
+            if (vector.length !== width || vector.some(v => typeof v !== 'number' || !isFinite(v))) return;
+
+            ids.push(idColumn ? String(row[idColumn]) : String(index));
+            matrix.push(vector);
+          });
+
+          resolve({ idColumn, ids, columns, matrix });
+        } catch (error) {
+          reject(error);
+        }
+      },
+      error: (error) => {
+        reject(new Error(`Failed to parse file: ${error.message}`));
+      },
+    });
+  });
+}
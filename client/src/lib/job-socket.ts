@@ -0,0 +1,122 @@
+import { jobEventSchema, type JobStatus, type RunLogEntry } from "@shared/schema";
+import { RequestCancelledError } from "./api-request";
+
+export interface JobWatchHandlers {
+  onProgress?: (stage: string, percent: number) => void;
+  // Called once per log line, also across reconnects
+  onLog?: (entry: RunLogEntry) => void;
+}
+
+export interface JobOutcome {
+  status: JobStatus;
+  error?: string;
+}
+
+export class JobNotFoundError extends Error {}
+
+const MAX_RECONNECTS = 8;
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 10000;
+
+/**
+ * WebSocket URL of the jobs channel for an HTTP endpoint such as
+ * "https://host/api/clustering"
+ */
+export function jobSocketUrl(endpoint: string, jobId: string): string {
+  const base = endpoint.replace(/\/+$/, "").replace(/^http/, "ws");
+  return `${base}/jobs/ws?job_id=${encodeURIComponent(jobId)}`;
+}
+
+/**
+ * Follow a server-side job until it finishes. The connection is re-opened
+ * with backoff when it drops; the server answers every (re)subscription with
+ * a snapshot, from which only the log lines not seen yet are passed on.
+ */
+export function watchJob(
+  endpoint: string,
+  jobId: string,
+  handlers: JobWatchHandlers,
+  signal?: AbortSignal,
+): Promise<JobOutcome> {
+  return new Promise((resolve, reject) => {
+    let socket: WebSocket | null = null;
+    let logsSeen = 0;
+    let reconnects = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let settled = false;
+
+    const settle = (action: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(retryTimer);
+      signal?.removeEventListener("abort", onAbort);
+      socket?.close();
+      action();
+    };
+
+    const onAbort = () => settle(() => reject(new RequestCancelledError()));
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const connect = () => {
+      socket = new WebSocket(jobSocketUrl(endpoint, jobId));
+
+      socket.onopen = () => {
+        reconnects = 0;
+      };
+
+      socket.onmessage = (message) => {
+        let data: unknown;
+        try {
+          data = JSON.parse(String(message.data));
+        } catch {
+          return;
+        }
+        const parsed = jobEventSchema.safeParse(data);
+        if (!parsed.success) {
+          console.warn("⚠️ Ignoring unexpected job event:", data);
+          return;
+        }
+
+        const event = parsed.data;
+        switch (event.type) {
+          case "snapshot":
+            event.job.logs.slice(logsSeen).forEach((entry) => handlers.onLog?.(entry));
+            logsSeen = Math.max(logsSeen, event.job.logs.length);
+            handlers.onProgress?.(event.job.stage, event.job.percent);
+            if (event.job.status !== "queued" && event.job.status !== "running") {
+              settle(() => resolve({ status: event.job.status, error: event.job.error }));
+            }
+            break;
+          case "progress":
+            handlers.onProgress?.(event.stage, event.percent);
+            break;
+          case "log":
+            logsSeen++;
+            handlers.onLog?.(event.entry);
+            break;
+          case "done":
+            settle(() => resolve({ status: event.status, error: event.error }));
+            break;
+          case "error":
+            settle(() => reject(new JobNotFoundError(event.message)));
+            break;
+        }
+      };
+
+      socket.onclose = () => {
+        if (settled) return;
+        if (reconnects >= MAX_RECONNECTS) {
+          settle(() => reject(new Error(`Lost connection to job ${jobId}`)));
+          return;
+        }
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** reconnects);
+        reconnects++;
+        console.warn(`🔌 Job socket closed, reconnecting in ${delay}ms (${reconnects}/${MAX_RECONNECTS})`);
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+  });
+}
@@ -0,0 +1,143 @@
+import Papa from "papaparse";
+import type { ClusterResult, KMetrics } from "@shared/schema";
+import { enterpriseKey } from "@shared/enterprise-points";
+
+export interface LabelRow {
+  id: string;
+  taxcode?: string;
+  yearreport?: string;
+  label: number;
+}
+
+// Header aliases seen in backend metrics CSVs -> KMetrics field
+const METRIC_COLUMNS: Record<string, keyof Omit<KMetrics, "k">> = {
+  silhouette: "silhouette",
+  silhouette_score: "silhouette",
+  calinski_harabasz: "calinski_harabasz",
+  ch: "calinski_harabasz",
+  davies_bouldin: "davies_bouldin",
+  db: "davies_bouldin",
+  inertia: "inertia",
+  sse: "inertia",
+  wcss: "inertia",
+  gap: "gap",
+  gap_sk: "gap_sk",
+  sk: "gap_sk",
+};
+
+function toNumberOrNull(value: unknown): number | null {
+  const num = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Parse a per-k metrics CSV (one row per k). Unknown columns are ignored and
+ * rows without a numeric k are dropped; the result is sorted by k.
+ */
+export function parseMetricsCsv(text: string): KMetrics[] {
+  const { data } = Papa.parse<Record<string, unknown>>(text.trim(), { header: true, skipEmptyLines: true });
+
+  const rows: KMetrics[] = [];
+  data.forEach((row) => {
+    const entry: KMetrics = { k: NaN, inertia: null, silhouette: null, calinski_harabasz: null, davies_bouldin: null };
+    for (const [column, value] of Object.entries(row)) {
+      const key = column.trim().toLowerCase();
+      if (key === "k" || key === "n_clusters") {
+        entry.k = toNumberOrNull(value) ?? NaN;
+      } else if (METRIC_COLUMNS[key]) {
+        entry[METRIC_COLUMNS[key]] = toNumberOrNull(value);
+      }
+    }
+    if (Number.isInteger(entry.k)) rows.push(entry);
+  });
+
+  return rows.sort((a, b) => a.k - b.k);
+}
+
+/**
+ * Parse a labels CSV. The label is the `label`/`cluster` column, or the last column
+ * when neither exists; the id is the `id` column, or the first column.
+ */
+export function parseLabelsCsv(text: string): LabelRow[] {
+  const { data, meta } = Papa.parse<Record<string, string>>(text.trim(), { header: true, skipEmptyLines: true });
+  const fields = meta.fields ?? [];
+  const labelColumn = fields.find((f) => ["label", "cluster", "labels"].includes(f.toLowerCase())) ?? fields[fields.length - 1];
+  const idColumn = fields.includes("id") ? "id" : fields[0];
+
+  return data
+    .map((row) => ({
+      id: String(row[idColumn] ?? ""),
+      taxcode: row.taxcode || undefined,
+      yearreport: row.yearreport || undefined,
+      label: parseInt(row[labelColumn], 10),
+    }))
+    .filter((row) => Number.isInteger(row.label));
+}
+
+/**
+ * Path of the labels CSV for `k`: the backend's `labels_by_k` entry, otherwise
+ * `labels_csv` with its `labels_k<best_k>` part rewritten. Null when neither applies.
+ */
+export function labelsPathForK(result: ClusterResult, k: number): string | null {
+  if (k === result.best_k) return result.labels_csv;
+  if (result.labels_by_k?.[String(k)]) return result.labels_by_k[String(k)];
+  const pattern = new RegExp(`labels_k${result.best_k}(?=\\D|$)`);
+  return pattern.test(result.labels_csv) ? result.labels_csv.replace(pattern, `labels_k${k}`) : null;
+}
+
+/**
+ * Copy of `result` with every enterprise carrying its label for `k`. Rows are matched
+ * by taxcode + yearreport, then by id; if nothing matches and the counts agree they
+ * are applied in order. Returns the number of enterprises that got a label.
+ */
+export function relabelResult(result: ClusterResult, rows: LabelRow[], k: number): { result: ClusterResult; matched: number } {
+  const byKey = new Map<string, number>();
+  const byId = new Map<string, number>();
+  rows.forEach((row) => {
+    if (row.taxcode) byKey.set(enterpriseKey(row.taxcode, row.yearreport), row.label);
+    byId.set(row.id, row.label);
+  });
+
+  const lookup = (enterprise: Record<string, any>): number | undefined => {
+    if (enterprise.taxcode !== undefined) {
+      const label = byKey.get(enterpriseKey(enterprise.taxcode, enterprise.yearreport));
+      if (label !== undefined) return label;
+    }
+    for (const column of ["id", "taxcode", "Unnamed: 0"]) {
+      if (enterprise[column] !== undefined && byId.has(String(enterprise[column]))) {
+        return byId.get(String(enterprise[column]));
+      }
+    }
+    return undefined;
+  };
+
+  const total = result.companies?.reduce((sum, company) => sum + (company.enterprise?.length ?? 0), 0) ?? 0;
+  let matched = 0;
+  result.companies?.forEach((company) => company.enterprise?.forEach((enterprise) => {
+    if (lookup(enterprise) !== undefined) matched++;
+  }));
+  const byOrder = matched === 0 && total === rows.length;
+
+  let position = 0;
+  const companies = result.companies?.map((company) => ({
+    ...company,
+    enterprise: company.enterprise?.map((enterprise) => {
+      const label = byOrder ? rows[position++].label : lookup(enterprise);
+      return label === undefined ? enterprise : { ...enterprise, Label: label, cluster: label };
+    }),
+  }));
+
+  const labels = rows.map((row) => row.label);
+  const size = new Array(k).fill(0);
+  labels.forEach((label) => { if (label >= 0 && label < k) size[label]++; });
+
+  return {
+    result: {
+      ...result,
+      companies,
+      labels: result.labels && result.labels.length === labels.length ? labels : result.labels,
+      size,
+    },
+    matched: byOrder ? total : matched,
+  };
+}
@@ -0,0 +1,77 @@
+import type { ClusterMetrics, ClusterResult, DataPoint, KMetrics, MetricSource } from "@shared/schema";
+import {
+  inertia,
+  silhouetteScore,
+  calinskiHarabasz,
+  daviesBouldin,
+  clusterSpread,
+} from "@shared/cluster-metrics";
+
+type ScalarMetric = "silhouetteScore" | "inertia" | "calinskiHarabasz" | "daviesBouldin";
+
+// ClusterMetrics field -> column of the backend's per-k metrics
+const BACKEND_KEYS: Record<ScalarMetric, keyof Omit<KMetrics, "k">> = {
+  silhouetteScore: "silhouette",
+  inertia: "inertia",
+  calinskiHarabasz: "calinski_harabasz",
+  daviesBouldin: "davies_bouldin",
+};
+
+function finiteOrNull(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Metrics for a clustering result. Values the backend reported for `k` (best_k unless
+ * the user re-labelled with another k) are kept
+ * and marked "backend" (they are computed in the backend's feature space); anything
+ * missing is computed here from the 2D coordinates and labels and marked "local".
+ * Per-cluster centroids and spread always come from the 2D coordinates.
+ */
+export function computeResultMetrics(
+  dataPoints: DataPoint[],
+  clusterResult: ClusterResult | null,
+  k: number | undefined = clusterResult?.best_k,
+): ClusterMetrics {
+  const located = dataPoints.filter(d =>
+    d.pca && Number.isFinite(d.pca.x) && Number.isFinite(d.pca.y) && d.cluster !== undefined
+  );
+  const points = located.map(d => [d.pca!.x, d.pca!.y]);
+  const labels = located.map(d => d.cluster!);
+
+  const backendRow = clusterResult?.metrics?.find(m => m.k === k);
+
+  const local: Record<ScalarMetric, () => number> = {
+    silhouetteScore: () => silhouetteScore(points, labels),
+    inertia: () => inertia(points, labels),
+    calinskiHarabasz: () => calinskiHarabasz(points, labels),
+    daviesBouldin: () => daviesBouldin(points, labels),
+  };
+
+  const values = {} as Record<ScalarMetric, number | null>;
+  const sources = {} as Record<ScalarMetric, MetricSource>;
+  (Object.keys(local) as ScalarMetric[]).forEach(metric => {
+    const backendValue = backendRow?.[BACKEND_KEYS[metric]];
+    if (backendValue !== null && backendValue !== undefined && Number.isFinite(backendValue)) {
+      values[metric] = backendValue;
+      sources[metric] = "backend";
+    } else {
+      values[metric] = points.length > 0 ? finiteOrNull(local[metric]()) : null;
+      sources[metric] = "local";
+    }
+  });
+
+  return {
+    ...values,
+    sources,
+    clusters: points.length > 0
+      ? clusterSpread(points, labels).map(cluster => ({
+          id: cluster.id,
+          size: cluster.size,
+          centroid: { x: cluster.centroid[0], y: cluster.centroid[1] },
+          avgDistance: cluster.avgDistance,
+          maxDistance: cluster.maxDistance,
+        }))
+      : [],
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Parse a list of numbers typed into a parameter field. Accepts "6", "3,4,5",
+ * "[3, 4, 5]" and space-separated values; with `integers` also ranges such as
+ * "3-8". Duplicates are dropped and the values are returned sorted.
+ * Throws with a user-facing message on anything else, including values
+ * outside `min`..`max` (ranges are checked before they are expanded).
+ */
+export function parseNumberList(
+  text: string,
+  { integers = false, min = -Infinity, max = Infinity }: { integers?: boolean; min?: number; max?: number } = {},
+): number[] {
+  const tokens = text.replace(/[[\]]/g, " ").split(/[\s,;]+/).filter(Boolean);
+  if (tokens.length === 0) {
+    throw new Error("Enter at least one value");
+  }
+
+  const outOfBounds = (value: number) => value < min || value > max;
+  const boundsError = () => new Error(`Values must be between ${min} and ${max}`);
+  const values: number[] = [];
+  for (const token of tokens) {
+    const range = integers ? token.match(/^(\d+)-(\d+)$/) : null;
+    if (range) {
+      const [from, to] = [parseInt(range[1], 10), parseInt(range[2], 10)];
+      if (from > to) throw new Error(`Invalid range "${token}"`);
+      if (outOfBounds(from) || outOfBounds(to)) throw boundsError();
+      for (let value = from; value <= to; value++) values.push(value);
+      continue;
+    }
+
+    const value = Number(token);
+    if (!Number.isFinite(value) || (integers && !Number.isInteger(value))) {
+      throw new Error(`"${token}" is not ${integers ? "an integer" : "a number"}`);
+    }
+    if (outOfBounds(value)) throw boundsError();
+    values.push(value);
+  }
+
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+/**
+ * Inverse of parseNumberList for prefilling inputs
+ */
+export function formatNumberList(value: number | number[]): string {
+  return Array.isArray(value) ? value.join(", ") : String(value);
+}
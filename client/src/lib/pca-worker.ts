@@ -1,46 +1,62 @@
-// PCA computation using Web Worker for performance
-// Note: In a real implementation, this would be in a separate .worker.ts file
-
-export async function runPCA(data: number[][]): Promise<number[][]> {
-  return new Promise((resolve) => {
-    // Simulate PCA computation with Web Worker
-    // In real implementation, use ml-pca library or similar
-    
-    setTimeout(() => {
-      // Mock PCA transformation - replace with actual PCA computation
-      const result = data.map(() => [
-        Math.random() * 10 - 5, // Random x coordinate
-        Math.random() * 10 - 5, // Random y coordinate
-      ]);
-      
-      resolve(result);
-    }, 1000); // Simulate processing time
-  });
+// PCA computation using a Web Worker (see pca.worker.ts) for performance
+import type { PCAWorkerRequest, PCAWorkerResponse } from "./pca.worker";
+
+export interface PCAResult {
+  coordinates: number[][];
+  explainedVarianceRatio: number[];
+  // Row id of each coordinate (see parseEmbeddings)
+  ids: string[];
+  // Embedding dimensions the projection was computed from
+  dimensions: number;
 }
 
-// Real PCA implementation would look like this:
-/*
-import { PCA } from 'ml-pca';
+export interface PCAOptions {
+  nComponents?: 2 | 3;
+  // Dimension columns of the file; detected when omitted
+  numericColumns?: string[];
+  // Aborting terminates the worker and rejects with an AbortError
+  signal?: AbortSignal;
+}
 
-export async function runPCA(data: number[][]): Promise<number[][]> {
+/**
+ * Parse an embeddings file and project it with PCA, both in a worker so large
+ * files do not block the page
+ */
+export function runPCA(file: File, { nComponents = 2, numericColumns, signal }: PCAOptions = {}): Promise<PCAResult> {
   return new Promise((resolve, reject) => {
-    const worker = new Worker(new URL('./pca.worker.ts', import.meta.url));
-    
-    worker.postMessage({ data });
-    
-    worker.onmessage = (event) => {
-      if (event.data.error) {
+    if (signal?.aborted) {
+      reject(new DOMException("PCA cancelled", "AbortError"));
+      return;
+    }
+
+    const worker = new Worker(new URL("./pca.worker.ts", import.meta.url), { type: "module" });
+
+    const cleanup = () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    };
+
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException("PCA cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<PCAWorkerResponse>) => {
+      cleanup();
+      if ("error" in event.data) {
         reject(new Error(event.data.error));
       } else {
-        resolve(event.data.result);
+        resolve(event.data);
       }
-      worker.terminate();
     };
-    
-    worker.onerror = (error) => {
-      reject(error);
-      worker.terminate();
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || "PCA worker failed"));
     };
+
+    const request: PCAWorkerRequest = { file, numericColumns, nComponents };
+    worker.postMessage(request);
   });
 }
-*/
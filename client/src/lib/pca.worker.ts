@@ -0,0 +1,51 @@
+// Web Worker: parsing of an embeddings file and its PCA projection (both off the main thread)
+import { PCA } from "ml-pca";
+import { parseEmbeddings } from "./file-parser";
+
+export interface PCAWorkerRequest {
+  file: File;
+  // Dimension columns picked in the file inspection panel
+  numericColumns?: string[];
+  nComponents: number;
+}
+
+export type PCAWorkerResponse =
+  | { coordinates: number[][]; explainedVarianceRatio: number[]; ids: string[]; dimensions: number }
+  | { error: string };
+
+self.addEventListener("message", async (event: MessageEvent<PCAWorkerRequest>) => {
+  try {
+    const { file, numericColumns, nComponents } = event.data;
+    const { matrix: data, ids } = await parseEmbeddings(file, numericColumns);
+    if (data.length < 2) {
+      throw new Error("PCA needs at least 2 rows");
+    }
+
+    const dimensions = data[0].length;
+    const components = Math.min(nComponents, dimensions, data.length);
+
+    // The covariance route is much cheaper than a full SVD for tall matrices
+    const pca = new PCA(data, {
+      method: data.length > dimensions ? "covarianceMatrix" : "SVD",
+    });
+
+    const projected = pca.predict(data, { nComponents: components }).to2DArray();
+    // Pad so callers always get the requested number of axes
+    const coordinates = projected.map(row =>
+      row.length < nComponents ? [...row, ...new Array(nComponents - row.length).fill(0)] : row
+    );
+
+    const response: PCAWorkerResponse = {
+      coordinates,
+      explainedVarianceRatio: pca.getExplainedVariance().slice(0, components),
+      ids,
+      dimensions,
+    };
+    postMessage(response);
+  } catch (error) {
+    const response: PCAWorkerResponse = {
+      error: error instanceof Error ? error.message : String(error),
+    };
+    postMessage(response);
+  }
+});
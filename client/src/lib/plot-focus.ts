@@ -0,0 +1,107 @@
+import Plotly from "plotly.js-dist";
+
+/**
+ * Fly-to and pulse highlight of one point in a Plotly plot. The highlight is
+ * its own trace, tagged with FOCUS_META so it can be found and replaced.
+ */
+
+export const FOCUS_META = "focus-highlight";
+
+const FOCUS_COLOR = "#F50057";
+const PULSE_SIZES = [18, 30];
+const PULSE_STEP_MS = 350;
+const PULSE_STEPS = 10;
+
+export interface FocusPoint {
+  x: number;
+  y: number;
+  z?: number;
+  label: string;
+}
+
+/**
+ * Ring marker drawn over the focused point
+ */
+export function focusTrace(point: FocusPoint, is3D: boolean): Record<string, unknown> {
+  return {
+    x: [point.x],
+    y: [point.y],
+    ...(is3D && { z: [point.z ?? 0] }),
+    type: is3D ? "scatter3d" : "scatter",
+    mode: "markers+text",
+    text: [point.label],
+    textposition: "top center",
+    textfont: { color: FOCUS_COLOR, size: 12 },
+    marker: {
+      size: PULSE_SIZES[0],
+      color: "rgba(245, 0, 87, 0.15)",
+      symbol: "circle",
+      line: { color: FOCUS_COLOR, width: 3 },
+    },
+    hoverinfo: "skip",
+    showlegend: false,
+    meta: FOCUS_META,
+  };
+}
+
+function focusTraceIndices(plotDiv: any): number[] {
+  return ((plotDiv?.data ?? []) as any[]).flatMap((trace, index) => (trace.meta === FOCUS_META ? [index] : []));
+}
+
+/**
+ * Replace the plot's focus trace (if any) with one on `point`; null only removes it
+ */
+export async function setFocusTrace(plotDiv: any, point: FocusPoint | null, is3D: boolean): Promise<void> {
+  const existing = focusTraceIndices(plotDiv);
+  if (existing.length > 0) await Plotly.deleteTraces(plotDiv, existing);
+  if (point) await Plotly.addTraces(plotDiv, focusTrace(point, is3D));
+}
+
+/**
+ * Centre the view on `point`, showing `span` data units around it
+ */
+export function flyTo(plotDiv: any, point: FocusPoint, span: number, is3D: boolean): Promise<unknown> {
+  const half = span / 2;
+  if (is3D) {
+    return Plotly.relayout(plotDiv, {
+      "scene.xaxis.range": [point.x - half, point.x + half],
+      "scene.yaxis.range": [point.y - half, point.y + half],
+    });
+  }
+  return Plotly.relayout(plotDiv, {
+    "xaxis.range": [point.x - half, point.x + half],
+    "yaxis.range": [point.y - half, point.y + half],
+  });
+}
+
+/**
+ * Grow and shrink the focus ring a few times. Returns a function that stops it.
+ */
+export function pulseFocus(plotDiv: any): () => void {
+  let step = 0;
+  const timer = setInterval(() => {
+    const indices = focusTraceIndices(plotDiv);
+    if (indices.length === 0 || ++step > PULSE_STEPS) {
+      clearInterval(timer);
+      return;
+    }
+    Plotly.restyle(plotDiv, { "marker.size": PULSE_SIZES[step % 2] }, indices);
+  }, PULSE_STEP_MS);
+  return () => clearInterval(timer);
+}
+
+/**
+ * A tenth of the wider side of the points' bounding box, so the focused point's
+ * neighbourhood stays readable
+ */
+export function focusSpan(points: { x: number; y: number }[]): number {
+  let xmin = Infinity, xmax = -Infinity, ymin = Infinity, ymax = -Infinity;
+  for (const { x, y } of points) {
+    xmin = Math.min(xmin, x);
+    xmax = Math.max(xmax, x);
+    ymin = Math.min(ymin, y);
+    ymax = Math.max(ymax, y);
+  }
+  const extent = Math.max(xmax - xmin, ymax - ymin);
+  return Number.isFinite(extent) && extent > 0 ? extent / 10 : 1;
+}
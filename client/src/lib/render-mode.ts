@@ -0,0 +1,122 @@
+/**
+ * High-volume rendering for the scatter plots: above a point threshold plots
+ * switch to WebGL marker traces and draw a level-of-detail sample, updated in
+ * place with Plotly.react instead of rebuilt with Plotly.newPlot.
+ */
+
+// Above this many points a plot switches to the high-volume path
+export const HIGH_VOLUME_THRESHOLD = 20_000;
+
+// Most points drawn at once in high-volume mode
+export const MAX_RENDERED_POINTS = 50_000;
+
+// Every cluster keeps at least this many points (or all of them) in a sample
+const MIN_PER_CLUSTER = 200;
+
+export interface RenderPlan<T> {
+  highVolume: boolean;
+  // Points to draw, in input order within each cluster
+  points: T[];
+  total: number;
+  sampled: boolean;
+}
+
+export interface RenderOptions<T> {
+  threshold?: number;
+  limit?: number;
+  // Points in view: they are kept before any other point, so zooming in shows full detail
+  focus?: (point: T) => boolean;
+}
+
+// Evenly spaced picks, so a sample keeps the spatial spread of its input
+function stride<T>(points: T[], count: number): T[] {
+  if (count >= points.length) return points;
+  const picked: T[] = [];
+  for (let i = 0; i < count; i++) picked.push(points[Math.floor((i * points.length) / count)]);
+  return picked;
+}
+
+// At most `limit` points, split between clusters in proportion to their size
+function stratified<T>(points: T[], clusterOf: (point: T) => number, limit: number): T[] {
+  if (points.length <= limit) return points;
+  const groups = new Map<number, T[]>();
+  for (const point of points) {
+    const cluster = clusterOf(point);
+    if (!groups.has(cluster)) groups.set(cluster, []);
+    groups.get(cluster)!.push(point);
+  }
+  let sample: T[] = [];
+  groups.forEach((group) => {
+    const quota = Math.max(Math.min(group.length, MIN_PER_CLUSTER), Math.floor((group.length * limit) / points.length));
+    sample = sample.concat(stride(group, quota));
+  });
+  return sample;
+}
+
+/**
+ * Which of `points` to draw and whether to use the high-volume path
+ */
+export function planRender<T>(points: T[], clusterOf: (point: T) => number, options: RenderOptions<T> = {}): RenderPlan<T> {
+  const { threshold = HIGH_VOLUME_THRESHOLD, limit = MAX_RENDERED_POINTS, focus } = options;
+  const total = points.length;
+  if (total <= threshold) return { highVolume: false, points, total, sampled: false };
+
+  let sample: T[];
+  if (focus) {
+    const inView = points.filter(focus);
+    const rest = points.filter((point) => !focus(point));
+    const kept = stratified(inView, clusterOf, limit);
+    sample = kept.concat(stratified(rest, clusterOf, Math.max(0, limit - kept.length)));
+  } else {
+    sample = stratified(points, clusterOf, limit);
+  }
+  return { highVolume: true, points: sample, total, sampled: sample.length < total };
+}
+
+/**
+ * Plotly marker trace type: scatter3d is WebGL already, 2D switches to scattergl
+ */
+export function markerTraceType(is3D: boolean, highVolume: boolean): "scatter3d" | "scattergl" | "scatter" {
+  if (is3D) return "scatter3d";
+  return highVolume ? "scattergl" : "scatter";
+}
+
+/**
+ * Status line for a plot's header, e.g. "WebGL · 50,000 of 180,000 points"
+ */
+export function describeRenderPlan(plan: RenderPlan<unknown>): string {
+  if (!plan.highVolume) return `${plan.total.toLocaleString()} points`;
+  return plan.sampled
+    ? `WebGL · ${plan.points.length.toLocaleString()} of ${plan.total.toLocaleString()} points`
+    : `WebGL · ${plan.total.toLocaleString()} points`;
+}
+
+// Ray casting: whether (x, y) falls inside the polygon
+function insidePolygon(x: number, y: number, xs: number[], ys: number[]): boolean {
+  let inside = false;
+  for (let i = 0, j = xs.length - 1; i < xs.length; j = i++) {
+    if ((ys[i] > y) !== (ys[j] > y) && x < ((xs[j] - xs[i]) * (y - ys[i])) / (ys[j] - ys[i]) + xs[i]) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Points inside a 2D box or lasso selection, read from a plotly_selected
+ * event, so a sampled plot still selects every point it stands for. Null
+ * when the event carries no selection shape.
+ */
+export function pointsInSelection<T extends { x: number; y: number }>(points: T[], eventData: any): T[] | null {
+  const range = eventData?.range;
+  if (range?.x && range?.y) {
+    const [xmin, xmax] = [Math.min(...range.x), Math.max(...range.x)];
+    const [ymin, ymax] = [Math.min(...range.y), Math.max(...range.y)];
+    return points.filter(p => p.x >= xmin && p.x <= xmax && p.y >= ymin && p.y <= ymax);
+  }
+  const lasso = eventData?.lassoPoints;
+  if (lasso?.x?.length > 2 && lasso?.y?.length === lasso.x.length) {
+    return points.filter(p => insidePolygon(p.x, p.y, lasso.x, lasso.y));
+  }
+  return null;
+}
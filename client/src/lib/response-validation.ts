@@ -0,0 +1,208 @@
+import { clusterResultSchema, type ClusterResult } from "@shared/schema";
+import type { ZodIssue } from "zod";
+
+export interface ResponseIssue {
+  // Path with array indices collapsed, e.g. "companies[].enterprise[].s_EMPL"
+  path: string;
+  message: string;
+  count: number;
+  // What was done about it; undefined when the issue could not be recovered
+  action?: string;
+}
+
+export interface ResponseReport {
+  // Number of NaN / Infinity tokens turned into null while parsing
+  nonFinite: number;
+  issues: ResponseIssue[];
+}
+
+/**
+ * Thrown when a backend response cannot be turned into a usable ClusterResult
+ */
+export class ResponseValidationError extends Error {
+  constructor(public report: ResponseReport) {
+    super(`Invalid clustering response: ${formatReport(report).join("; ")}`);
+  }
+}
+
+// Matches JSON strings (kept as-is) or the non-standard number tokens Python emits
+const NON_FINITE_PATTERN = /"(?:[^"\\]|\\.)*"|-?\b(?:NaN|Infinity)\b/g;
+
+/**
+ * JSON.parse that accepts NaN, Infinity and -Infinity (as written by Python's
+ * json module) by reading them as null. Tokens inside strings are left alone.
+ */
+export function parseJsonLenient(text: string): { value: unknown; nonFinite: number } {
+  let nonFinite = 0;
+  const sanitized = text.replace(NON_FINITE_PATTERN, (token) => {
+    if (token.startsWith('"')) return token;
+    nonFinite++;
+    return "null";
+  });
+  return { value: JSON.parse(sanitized), nonFinite };
+}
+
+// Values used when a required field is missing or malformed
+export interface ResultFallbacks {
+  dataset_id?: string;
+  lambda?: number;
+  k?: number[];
+}
+
+type Json = Record<string, any>;
+
+const MAX_RECOVERY_PASSES = 5;
+
+function collapsePath(path: (string | number)[]): string {
+  return path.reduce<string>((out, key) =>
+    typeof key === "number" ? `${out}[]` : out ? `${out}.${key}` : key, "") || "(root)";
+}
+
+/**
+ * Apply the recovery rule for one zod issue to `data`. Returns a description of
+ * the action, or null when the response cannot be saved.
+ * Array elements are only marked (set to undefined) and removed afterwards so
+ * that the indices of the remaining issues stay valid.
+ */
+function recoverIssue(data: Json, issue: ZodIssue, fallbacks: ResultFallbacks): string | null {
+  const [field, index, child, entry, property] = issue.path;
+
+  switch (field) {
+    case "dataset_id":
+      data.dataset_id = fallbacks.dataset_id ?? "unknown";
+      return `used "${data.dataset_id}"`;
+    case "lambda":
+      if (fallbacks.lambda === undefined) return null;
+      data.lambda = fallbacks.lambda;
+      return `used requested λ=${fallbacks.lambda}`;
+    case "k_candidates": {
+      const ks = typeof data.best_k === "number" ? [data.best_k] : fallbacks.k;
+      if (!ks) return null;
+      data.k_candidates = ks;
+      return `used [${ks.join(", ")}]`;
+    }
+    case "best_k": {
+      const candidates = Array.isArray(data.k_candidates) ? data.k_candidates.filter(Number.isFinite) : [];
+      if (candidates.length === 0) return null;
+      data.best_k = candidates[0];
+      return `used k=${candidates[0]} from k_candidates`;
+    }
+    case "metrics_csv":
+    case "labels_csv":
+      data[field] = "";
+      return "left empty; views that read it will be blank";
+    case "companies":
+      // Enterprise fields are all optional: drop the bad field, or the bad enterprise
+      if (typeof index === "number" && child === "enterprise" && typeof entry === "number") {
+        const enterprise = data.companies?.[index]?.enterprise?.[entry];
+        if (property !== undefined && enterprise && typeof enterprise === "object") {
+          delete enterprise[property];
+          return "field dropped";
+        }
+        data.companies[index].enterprise[entry] = undefined;
+        return "enterprise dropped";
+      }
+      if (typeof index === "number" && child !== undefined && data.companies?.[index]) {
+        delete data.companies[index][child];
+        return "field dropped";
+      }
+      if (typeof index === "number" && Array.isArray(data.companies)) {
+        data.companies[index] = undefined;
+        return "company dropped";
+      }
+      delete data.companies;
+      return "companies dropped";
+    case "metrics":
+      if (typeof index === "number" && Array.isArray(data.metrics)) {
+        data.metrics[index] = undefined;
+        return "row dropped";
+      }
+      delete data.metrics;
+      return "field dropped";
+    case undefined:
+      return null;
+    default:
+      // Any other field is optional in the schema
+      delete data[field];
+      return "field dropped";
+  }
+}
+
+function compactArrays(data: Json) {
+  if (Array.isArray(data.companies)) {
+    data.companies = data.companies.filter((company: unknown) => company !== undefined);
+    data.companies.forEach((company: Json) => {
+      if (Array.isArray(company?.enterprise)) {
+        company.enterprise = company.enterprise.filter((enterprise: unknown) => enterprise !== undefined);
+      }
+    });
+  }
+  if (Array.isArray(data.metrics)) {
+    data.metrics = data.metrics.filter((row: unknown) => row !== undefined);
+  }
+}
+
+/**
+ * Check a parsed backend response against clusterResultSchema. Malformed
+ * optional data is dropped and missing required fields are filled from the
+ * request where possible; everything that was changed is listed in the report.
+ * Throws ResponseValidationError when the response is unusable.
+ */
+export function validateClusterResult(
+  raw: unknown,
+  fallbacks: ResultFallbacks = {},
+  nonFinite = 0,
+): { result: ClusterResult; report: ResponseReport } {
+  const issues = new Map<string, ResponseIssue>();
+  const record = (path: string, message: string, action?: string) => {
+    const key = `${path}|${message}|${action ?? ""}`;
+    const existing = issues.get(key);
+    if (existing) existing.count++;
+    else issues.set(key, { path, message, count: 1, action });
+  };
+  const report = () => ({ nonFinite, issues: Array.from(issues.values()) });
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    record("(root)", `Expected an object, received ${Array.isArray(raw) ? "array" : raw === null ? "null" : typeof raw}`);
+    throw new ResponseValidationError(report());
+  }
+
+  const data: Json = structuredClone(raw);
+  for (let pass = 0; pass < MAX_RECOVERY_PASSES; pass++) {
+    const parsed = clusterResultSchema.safeParse(data);
+    if (parsed.success) {
+      if (!parsed.data.companies) {
+        record("companies", "Missing", "scatter plot and enterprise tables will be empty");
+      }
+      return { result: parsed.data, report: report() };
+    }
+
+    let fatal = false;
+    parsed.error.issues.forEach((issue) => {
+      const action = recoverIssue(data, issue, fallbacks);
+      record(collapsePath(issue.path), issue.message, action ?? undefined);
+      if (action === null) fatal = true;
+    });
+    if (fatal) break;
+    compactArrays(data);
+  }
+
+  throw new ResponseValidationError(report());
+}
+
+/**
+ * Human-readable lines for the run log, e.g.
+ * "companies[].enterprise[].s_EMPL: Expected number, received null (×120) → field dropped"
+ */
+export function formatReport(report: ResponseReport): string[] {
+  const lines: string[] = [];
+  if (report.nonFinite > 0) {
+    lines.push(`${report.nonFinite} NaN/Infinity value(s) in the response were read as null`);
+  }
+  report.issues.forEach((issue) => {
+    const count = issue.count > 1 ? ` (×${issue.count})` : "";
+    const action = issue.action ? ` → ${issue.action}` : " → cannot recover";
+    lines.push(`${issue.path}: ${issue.message}${count}${action}`);
+  });
+  return lines;
+}
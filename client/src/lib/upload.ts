@@ -0,0 +1,40 @@
+/**
+ * Encoding of CSV files sent to a backend. Files are handled as bytes, never
+ * as JavaScript strings, so UTF-8 text such as "Trồng lúa" arrives unchanged.
+ */
+
+export type UploadEncoding = "identity" | "gzip";
+
+// Bytes per PUT when the backend does not say otherwise
+export const DEFAULT_CHUNK_BYTES = 4 * 1024 * 1024;
+
+// Bytes per String.fromCharCode call; spreading a whole file overflows the stack
+const BINARY_SLICE = 0x8000;
+
+/**
+ * Base64 of the file's bytes, for backends that take `info_quy_mo_b64`.
+ * btoa(await file.text()) throws on any character outside Latin-1.
+ */
+export async function fileToBase64(file: Blob): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += BINARY_SLICE) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(offset, offset + BINARY_SLICE)));
+  }
+  return btoa(binary);
+}
+
+// gzip the file when the browser has CompressionStream, otherwise send it as is
+export async function compressFile(file: Blob): Promise<{ body: Blob; encoding: UploadEncoding }> {
+  if (typeof CompressionStream === "undefined") {
+    return { body: file, encoding: "identity" };
+  }
+  const body = await new Response(file.stream().pipeThrough(new CompressionStream("gzip"))).blob();
+  return { body, encoding: "gzip" };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
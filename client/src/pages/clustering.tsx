@@ -1,16 +1,85 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useClusteringStore } from "../lib/clustering-store";
 import FileUploadZone from "@/components/file-upload-zone";
 import ClusteringForm from "@/components/clustering-form";
+import DatasetPicker from "@/components/dataset-picker";
+import EmbeddingsPreview from "@/components/embeddings-preview";
+import IdJoinPanel from "@/components/id-join-panel";
+import DataQualityPanel from "@/components/data-quality-panel";
+import FeaturePicker from "@/components/feature-picker";
+import PreprocessingPanel from "@/components/preprocessing-panel";
 import ScatterPlot from "@/components/scatter-plot";
 import ClusterVisualization from "@/components/cluster-visualization";
-import InteractiveZoomSpace from "@/components/interactive-zoom-space";
+import InteractiveZoomSpace, { toZoomPoint } from "@/components/interactive-zoom-space";
+import ResultsPanel from "@/components/results-panel";
+import GridSweepMatrix from "@/components/grid-sweep-matrix";
+import EncodingPanel from "@/components/encoding-panel";
+import CompanySearch from "@/components/company-search";
+import CompanyDetailPanel from "@/components/company-detail-panel";
+import CohortPanel from "@/components/cohort-panel";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle, AlertCircle, Loader2, TestTube, Map } from "lucide-react";
+import { CheckCircle, AlertCircle, Loader2, TestTube, Map, History } from "lucide-react";
 import { Link } from "wouter";
+import { encodePoints, encodingColumns, describeEncoding } from "@/lib/encodings";
+import { enterprisePoints } from "@shared/enterprise-points";
+import type { ClusterResult } from "@shared/schema";
+
+// Enterprise points of the current result in the shape InteractiveZoomSpace
+// plots, with Z, size, opacity and colour from the encoding panel
+function InteractiveZoomSpaceWrapper({ clusterResult, height }: { clusterResult: ClusterResult | null; height: number }) {
+  const lambda = useClusteringStore((state) => state.parameters.lambda);
+  const encoding = useClusteringStore((state) => state.encoding);
+  const focusedId = useClusteringStore((state) => state.focusedEnterpriseId);
+  const setSelection = useClusteringStore((state) => state.setSelection);
+  const points = useMemo(
+    () => (clusterResult ? enterprisePoints(clusterResult).filter((point) => point.located) : []),
+    [clusterResult],
+  );
+  const columns = useMemo(() => encodingColumns(points), [points]);
+  const data = useMemo(() => {
+    const encoded = encodePoints(points, encoding);
+    return points.map((point, i) => toZoomPoint(point, encoded[i]));
+  }, [points, encoding]);
+  const legend = describeEncoding(encoding);
+  // Stable, so the plot is not redrawn on every render
+  const handleSelection = useCallback(
+    (selected: { id?: string }[]) => {
+      console.log(`🔥 Selected ${selected.length} points for zoom/focus`);
+      setSelection(selected.flatMap((point) => (point.id ? [point.id] : [])));
+    },
+    [setSelection],
+  );
+
+  if (!clusterResult?.companies) {
+    return <div className="text-center text-muted-foreground p-8">No data available for zoom space</div>;
+  }
+
+  if (data.length === 0) {
+    return <div className="text-center text-muted-foreground p-8">
+      No valid data points found. Please check that clustering completed successfully with valid coordinates.
+    </div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <EncodingPanel columns={columns} />
+      <InteractiveZoomSpace
+        data={data}
+        height={height}
+        title={`Scatter Plot - Lambda (λ): ${lambda}, Clusters: ${Array.from(new Set(data.map(d => d.cluster))).sort((a, b) => a - b).join(', ')}`}
+        is3D={true}
+        legendTitle={`Z: ${legend.z}<br>Size: ${legend.size}<br>Opacity: ${legend.opacity}<br>Colour: ${legend.color}`}
+        zLabel={legend.z}
+        focusedId={focusedId}
+        onSelectionChange={handleSelection}
+      />
+      <CohortPanel />
+    </div>
+  );
+}
 
 export default function ClusteringPage() {
   const {
@@ -18,134 +87,27 @@ export default function ClusteringPage() {
     infoFile,
     isRunning,
     progress,
+    progressStage,
+    logs,
     error,
     results,
     runClustering,
+    cancelRun,
+    resumeActiveJob,
+    gridSweep,
     clearError,
   } = useClusteringStore();
 
-  const [activeTab, setActiveTab] = useState<"clustering" | "zoom">("zoom");
-
-  const canRunClustering = !isRunning;
+  const [activeTab, setActiveTab] = useState<"clustering" | "zoom" | "metrics" | "sweep">("zoom");
 
   useEffect(() => {
     document.title = "Enterprise Clustering Analytics Platform";
   }, []);
 
-  // Enhanced wrapper to transform clustering results for InteractiveZoomSpace component
-  const InteractiveZoomSpaceWrapper = ({ results, height }: { results: any; height: number }) => {
-    if (!results || !results.clusterResult?.companies) {
-      console.warn('No clustering results or companies data found');
-      return <div className="text-center text-muted-foreground p-8">No data available for zoom space</div>;
-    }
-
-    const transformedData: any[] = [];
-    let pointIndex = 0;
-    let totalPoints = 0;
-    let validPoints = 0;
-
-    console.log('🚀 Interactive Zoom Space: Transforming clustering data...');
-    console.log('📊 Total companies:', results.clusterResult.companies.length);
-
-    results.clusterResult.companies.forEach((company: any) => {
-      if (company.enterprise && Array.isArray(company.enterprise)) {
-        company.enterprise.forEach((enterprise: any) => {
-          totalPoints++;
-
-          // Check for new format with pca2_x/pca2_y, fallback to emb_x/emb_y
-          let finalX, finalY;
-          if (enterprise.pca2_x !== undefined && enterprise.pca2_y !== undefined) {
-            finalX = enterprise.pca2_x;
-            finalY = enterprise.pca2_y;
-          } else if (enterprise.emb_x !== undefined && enterprise.emb_y !== undefined) {
-            finalX = enterprise.emb_x;
-            finalY = enterprise.emb_y;
-          } else {
-            finalX = 0;
-            finalY = 0;
-          }
-
-          // Enhanced cluster label detection
-          const clusterLabel = enterprise.cluster ??
-                              enterprise.Label ??
-                              enterprise.cluster_label ??
-                              0;
-
-          // Calculate Z coordinate using specified formula: z = 30/100 * (s_DT_TTM + s_TTS + s_VCSH) + 0.1 * s_EMPL
-          const s_DT_TTM = enterprise.s_DT_TTM || 0;
-          const s_TTS = enterprise.s_TTS || 0;
-          const s_VCSH = enterprise.s_VCSH || 0;
-          const s_EMPL = enterprise.s_EMPL || enterprise.empl_qtty || enterprise.employees || 0;
-
-          const calculatedZ = (s_DT_TTM + s_TTS + s_VCSH) * 0.3 + s_EMPL * 0.1;
-
-          // Fixed small size for all points
-          const fixedSize = 0.2; // Small fixed size
-
-          // Check if coordinates are valid (not null/undefined)
-          const hasValidCoords = finalX !== null && finalX !== undefined &&
-                                finalY !== null && finalY !== undefined &&
-                                !isNaN(finalX) && !isNaN(finalY);
-
-          if (hasValidCoords) {
-            transformedData.push({
-              x: finalX,
-              y: finalY,
-              z: calculatedZ, // Use calculated Z as third dimension in 3D view
-              cluster: Number(clusterLabel), // Ensure numeric cluster ID
-              size: fixedSize, // Fixed small size
-              index: pointIndex,
-              info: {
-                name: enterprise.name || enterprise.company_name || 'Unknown Company',
-                taxcode: enterprise.taxcode || '',
-                sector: enterprise.sector_name || company.sector_name || '',
-                sector_unique_id: enterprise.sector_unique_id || company.sector_unique_id || '',
-                employees: enterprise.empl_qtty || enterprise.employees || 0,
-                year: enterprise.yearreport || enterprise.year_report || 0,
-                revenue: enterprise.s_DT_TTM || 0,
-                assets: enterprise.s_VCSH || 0,
-                cluster_id: clusterLabel
-              }
-            });
-            validPoints++;
-            pointIndex++;
-          }
-        });
-      }
-    });
-
-    console.log('✅ Interactive Zoom Space: Data transformation completed');
-    console.log(`📊 Total points processed: ${totalPoints}`);
-    console.log(`🎯 Valid points created: ${validPoints}`);
-    console.log(`📈 Cluster distribution:`, transformedData.reduce((acc: {[key: string]: number}, pt) => {
-      acc[`C${pt.cluster}`] = (acc[`C${pt.cluster}`] || 0) + 1;
-      return acc;
-    }, {}));
-
-    if (transformedData.length === 0) {
-      console.warn('❌ No valid data points could be created for Interactive Zoom Space');
-      return <div className="text-center text-muted-foreground p-8">
-        No valid data points found. Please check that clustering completed successfully with valid coordinates.
-      </div>;
-    }
-
-    // Access parameters from the store if available, otherwise use defaults or null
-    const parameters = useClusteringStore.getState().parameters || {};
-
-
-    return (
-      <InteractiveZoomSpace
-        data={transformedData}
-        height={height}
-        title={`Scatter Plot - Lambda (λ): ${parameters.lambda}, Clusters: ${Array.from(new Set(transformedData.map(d => d.cluster))).sort().join(', ')}`}
-        is3D={true}
-        onSelectionChange={(points) => {
-          console.log(`🔥 Selected ${points.length} points for zoom/focus`);
-          console.log('📍 Selected points sample:', points.slice(0, 2));
-        }}
-      />
-    );
-  };
+  // Pick up a server-side job that was still running when the page was left
+  useEffect(() => {
+    resumeActiveJob();
+  }, [resumeActiveJob]);
 
   return (
     <div className="h-screen flex flex-col lg:flex-row overflow-hidden bg-background">
@@ -157,12 +119,20 @@ export default function ClusteringPage() {
             <h1 className="text-xl font-semibold text-foreground">
               Clustering Control Panel
             </h1>
-            <Link href="/mock-test">
-              <Button variant="outline" size="sm" className="flex items-center gap-2">
-                <TestTube className="h-4 w-4" />
-                Mock Test
-              </Button>
-            </Link>
+            <div className="flex gap-2">
+              <Link href="/runs">
+                <Button variant="outline" size="sm" className="flex items-center gap-2" data-testid="link-runs">
+                  <History className="h-4 w-4" />
+                  Runs
+                </Button>
+              </Link>
+              <Link href="/mock-test">
+                <Button variant="outline" size="sm" className="flex items-center gap-2">
+                  <TestTube className="h-4 w-4" />
+                  Mock Test
+                </Button>
+              </Link>
+            </div>
           </div>
           <p className="text-sm text-muted-foreground">
             Upload data files and configure clustering parameters
@@ -171,11 +141,45 @@ export default function ClusteringPage() {
 
         {/* Scrollable Content */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Data Files */}
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium text-foreground">Data Files</h3>
+            <FileUploadZone
+              type="embeddings"
+              title="Embeddings CSV"
+              description="Embedding vectors, one row per company"
+              icon="cloud-upload"
+              data-testid="upload-embeddings"
+            />
+            <FileUploadZone
+              type="info"
+              title="Info CSV"
+              description="Company information (taxcode, sector, ...)"
+              icon="database"
+              data-testid="upload-info"
+            />
+          </div>
+
+          <DataQualityPanel />
+
           <Separator />
 
           {/* Clustering Parameters */}
           <ClusteringForm />
 
+          <FeaturePicker />
+
+          <PreprocessingPanel />
+
+          <EmbeddingsPreview />
+
+          <IdJoinPanel />
+
+          <Separator />
+
+          {/* Stored Datasets */}
+          <DatasetPicker />
+
           <Separator />
 
 
@@ -184,15 +188,17 @@ export default function ClusteringPage() {
           {/* Run Clustering */}
           <div className="space-y-4">
             <Button
-              onClick={() => runClustering()}
-              disabled={!canRunClustering}
-              className="w-full bg-accent hover:bg-accent/90 text-white font-medium py-3"
+              onClick={() => (isRunning ? cancelRun() : runClustering())}
+              variant={isRunning ? "outline" : "default"}
+              className={isRunning
+                ? "w-full font-medium py-3 border-red-300 text-red-700 hover:bg-red-50"
+                : "w-full bg-accent hover:bg-accent/90 text-white font-medium py-3"}
               data-testid="button-run-clustering"
             >
               {isRunning ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Processing...
+                  Processing... (click to cancel)
                 </>
               ) : (
                 "Run Clustering Analysis"
@@ -208,34 +214,22 @@ export default function ClusteringPage() {
                 </div>
                 <Progress value={progress} className="mb-2" />
                 <div className="text-xs text-blue-700 space-y-1" data-testid="progress-log">
-                  <div className="flex items-center">
-                    {progress > 20 ? (
-                      <CheckCircle className="h-3 w-3 text-green-500 mr-1" />
-                    ) : (
-                      <Loader2 className="h-3 w-3 animate-spin mr-1" />
-                    )}
-                    Files processed
-                  </div>
-                  <div className="flex items-center">
-                    {progress > 60 ? (
-                      <CheckCircle className="h-3 w-3 text-green-500 mr-1" />
-                    ) : progress > 20 ? (
-                      <Loader2 className="h-3 w-3 animate-spin mr-1" />
-                    ) : (
-                      <div className="h-3 w-3 mr-1" />
-                    )}
-                    PCA computation completed
-                  </div>
-                  <div className="flex items-center">
-                    {progress > 90 ? (
-                      <CheckCircle className="h-3 w-3 text-green-500 mr-1" />
-                    ) : progress > 60 ? (
-                      <Loader2 className="h-3 w-3 animate-spin mr-1" />
-                    ) : (
-                      <div className="h-3 w-3 mr-1" />
-                    )}
-                    Running clustering API...
+                  <div className="flex items-center font-medium">
+                    <Loader2 className="h-3 w-3 animate-spin mr-1" />
+                    {progressStage ?? "Processing..."}
                   </div>
+                  {logs.slice(-3).map((log, index) => (
+                    <div key={index} className="flex items-center truncate">
+                      {log.type === "success" ? (
+                        <CheckCircle className="h-3 w-3 text-green-500 mr-1 flex-shrink-0" />
+                      ) : log.type === "error" || log.type === "warning" ? (
+                        <AlertCircle className="h-3 w-3 text-orange-500 mr-1 flex-shrink-0" />
+                      ) : (
+                        <div className="h-3 w-3 mr-1 flex-shrink-0" />
+                      )}
+                      <span className="truncate">{log.message}</span>
+                    </div>
+                  ))}
                 </div>
               </Card>
             )}
@@ -261,6 +255,7 @@ export default function ClusteringPage() {
                   </div>
                 )}
               </div>
+              <CompanySearch />
             </div>
           </div>
 
@@ -268,6 +263,9 @@ export default function ClusteringPage() {
           <div className="flex-1 p-4 lg:p-6">
             {results ? (
               <div className="w-full h-full">
+                <div className="mb-4 max-w-xl empty:hidden">
+                  <CompanyDetailPanel />
+                </div>
                 <div className="flex border-b mb-4">
                   <button
                     className={`px-4 py-2 font-medium border-b-2 transition-colors ${
@@ -289,10 +287,34 @@ export default function ClusteringPage() {
                   >
                     Bar Plot
                   </button>
+                  <button
+                    className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+                      activeTab === "metrics"
+                        ? 'border-blue-500 text-blue-600'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                    onClick={() => setActiveTab("metrics")}
+                    data-testid="tab-metrics"
+                  >
+                    Metrics
+                  </button>
+                  {gridSweep && (
+                    <button
+                      className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+                        activeTab === "sweep"
+                          ? 'border-blue-500 text-blue-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-700'
+                      }`}
+                      onClick={() => setActiveTab("sweep")}
+                      data-testid="tab-grid-sweep"
+                    >
+                      Grid Sweep
+                    </button>
+                  )}
                 </div>
                 <div className="h-[calc(100%-40px)]">
                   <div style={{ display: activeTab === "zoom" ? 'block' : 'none' }}>
-                    <InteractiveZoomSpaceWrapper results={results} height={600} />
+                    <InteractiveZoomSpaceWrapper clusterResult={results?.clusterResult ?? null} height={600} />
                   </div>
                   <div style={{ display: activeTab === "clustering" ? 'block' : 'none' }}>
                     {results?.clusterResult ? (
@@ -301,6 +323,12 @@ export default function ClusteringPage() {
                       <div className="text-center text-muted-foreground p-8">No clustering results available</div>
                     )}
                   </div>
+                  <div style={{ display: activeTab === "metrics" ? 'block' : 'none' }} className="h-full">
+                    <ResultsPanel />
+                  </div>
+                  <div style={{ display: activeTab === "sweep" ? 'block' : 'none' }}>
+                    <GridSweepMatrix />
+                  </div>
                 </div>
               </div>
             ) : (
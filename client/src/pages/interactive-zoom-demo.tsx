@@ -1,22 +1,17 @@
 
-import { useState } from "react";
-import InteractiveZoomSpace from "@/components/interactive-zoom-space";
+import { useMemo, useState } from "react";
+import InteractiveZoomSpace, { toZoomPoint } from "@/components/interactive-zoom-space";
 import { useClusteringStore } from "@/lib/clustering-store";
+import { enterprisePoints } from "@shared/enterprise-points";
 
 export default function InteractiveZoomDemo() {
   const { results } = useClusteringStore();
   const [selectedPoints, setSelectedPoints] = useState<any[]>([]);
 
-  // Transform clustering results to the format expected by InteractiveZoomSpace
-  const transformedData = results?.dataPoints?.map((point: any, index: number) => ({
-    x: point.pca?.x || point.x || Math.random() * 10,
-    y: point.pca?.y || point.y || Math.random() * 10,
-    z: point.pca?.z || point.size || Math.random() * 2,
-    cluster: point.cluster || 0,
-    size: point.size || 1,
-    index: index,
-    info: point.info || {}
-  })) || [];
+  const transformedData = useMemo(
+    () => (results?.clusterResult ? enterprisePoints(results.clusterResult).filter((point) => point.located).map((point) => toZoomPoint(point)) : []),
+    [results?.clusterResult],
+  );
 
   // Generate sample data if no clustering results
   const sampleData = Array.from({ length: 100 }, (_, i) => ({
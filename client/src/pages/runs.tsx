@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useClusteringStore } from "@/lib/clustering-store";
+import { describeFeatureSet } from "@/lib/feature-selection";
+import RunComparison from "@/components/run-comparison";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, FolderOpen, Trash2 } from "lucide-react";
+import type { ClusteringRun, ClusteringRunSummary } from "@shared/schema";
+
+function formatList(value: unknown): string {
+  return Array.isArray(value) ? value.join(", ") : String(value ?? "—");
+}
+
+export default function RunsPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { loadRun, currentRunId } = useClusteringStore();
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    document.title = "Run History - Enterprise Analytics Platform";
+  }, []);
+
+  const { data: runs = [], isLoading } = useQuery<ClusteringRunSummary[]>({
+    queryKey: ["/api/runs"],
+  });
+
+  const openMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const res = await apiRequest("GET", `/api/runs/${runId}`);
+      return (await res.json()) as ClusteringRun;
+    },
+    onSuccess: (run) => {
+      loadRun(run);
+      setLocation("/");
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not open run",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      await apiRequest("DELETE", `/api/runs/${runId}`);
+      return runId;
+    },
+    onSuccess: (runId) => {
+      setSelected((prev) => prev.filter((id) => id !== runId));
+      queryClient.invalidateQueries({ queryKey: ["/api/runs"] });
+    },
+  });
+
+  // Keep at most two runs selected; the oldest selection drops out
+  const toggleSelected = (runId: string) => {
+    setSelected((prev) =>
+      prev.includes(runId) ? prev.filter((id) => id !== runId) : [...prev, runId].slice(-2),
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">Run History</h1>
+            <p className="text-muted-foreground">
+              Reopen a previous clustering run or select two runs to compare them side by side
+            </p>
+          </div>
+          <Link href="/">
+            <Button variant="outline" className="flex items-center gap-2" data-testid="button-back-to-main">
+              <ArrowLeft className="h-4 w-4" />
+              Back to Main
+            </Button>
+          </Link>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="text-center text-muted-foreground p-8">Loading runs...</div>
+            ) : runs.length === 0 ? (
+              <div className="text-center text-muted-foreground p-8">
+                No runs yet. Every completed clustering run is saved here.
+              </div>
+            ) : (
+              <Table data-testid="runs-table">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Finished</TableHead>
+                    <TableHead>Mã ngành</TableHead>
+                    <TableHead>λ</TableHead>
+                    <TableHead>k</TableHead>
+                    <TableHead>Features</TableHead>
+                    <TableHead>Best k</TableHead>
+                    <TableHead>Samples</TableHead>
+                    <TableHead>Endpoint</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow
+                      key={run.run_id}
+                      className={run.run_id === currentRunId ? "bg-blue-50" : undefined}
+                      data-testid={`run-${run.run_id}`}
+                    >
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(run.run_id)}
+                          onCheckedChange={() => toggleSelected(run.run_id)}
+                          data-testid={`checkbox-compare-${run.run_id}`}
+                        />
+                      </TableCell>
+                      <TableCell>{new Date(run.completedAt).toLocaleString()}</TableCell>
+                      <TableCell className="max-w-[200px] truncate">{formatList(run.parameters.level_value)}</TableCell>
+                      <TableCell>{run.parameters.lambda}</TableCell>
+                      <TableCell>{formatList(run.parameters.k)}</TableCell>
+                      <TableCell className="whitespace-nowrap font-mono text-xs">{describeFeatureSet(run.parameters)}</TableCell>
+                      <TableCell>{run.best_k}</TableCell>
+                      <TableCell>{run.n_samples?.toLocaleString() ?? "—"}</TableCell>
+                      <TableCell className="max-w-[200px] truncate text-muted-foreground">{run.endpoint}</TableCell>
+                      <TableCell className="text-right space-x-1">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openMutation.mutate(run.run_id)}
+                          disabled={openMutation.isPending}
+                          data-testid={`button-open-run-${run.run_id}`}
+                        >
+                          <FolderOpen className="h-4 w-4 mr-1" />
+                          Open
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-muted-foreground hover:text-red-600"
+                          onClick={() => deleteMutation.mutate(run.run_id)}
+                          data-testid={`button-delete-run-${run.run_id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {selected.length === 2 ? (
+          <RunComparison runIds={[selected[0], selected[1]]} />
+        ) : runs.length > 1 ? (
+          <p className="text-sm text-muted-foreground text-center">
+            Select two runs to compare them
+          </p>
+        ) : null}
+      </div>
+    </div>
+  );
+}
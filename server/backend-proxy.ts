@@ -0,0 +1,153 @@
+import { Router, type Request, type Response } from "express";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+
+/**
+ * Proxy for the external clustering backend, mounted at /api/backend so the
+ * browser only talks to its own origin. The upstream URL and credentials come
+ * from the environment:
+ *   CLUSTERING_BACKEND_URL    e.g. https://xxxx.ngrok-free.app
+ *   CLUSTERING_BACKEND_TOKEN  sent as "Authorization: Bearer <token>" (optional)
+ * Without a server token, the API key or bearer token of the client's backend
+ * profile is passed through instead.
+ *
+ * Must be mounted before the body parsers: request and response bodies are
+ * streamed through without being buffered.
+ */
+export const backendProxy = Router();
+
+// Runs may post whole CSVs and take minutes on the backend
+const RUN_TIMEOUT_MS = 15 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+// POST endpoints that may be forwarded; any GET (meta, generated files) is allowed
+const FORWARDED_POSTS = new Set(["/prepare/run", "/cluster/run"]);
+
+// Request headers passed on to the backend
+const FORWARDED_REQUEST_HEADERS = ["content-type", "accept", "authorization", "x-api-key"];
+// Response headers passed back to the browser. fetch() decompresses the body,
+// so content-encoding/length do not apply to what is streamed back.
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "content-disposition", "cache-control"];
+
+function upstreamUrl(path: string, query: string): string | null {
+  const base = process.env.CLUSTERING_BACKEND_URL?.trim().replace(/\/+$/, "");
+  return base ? `${base}${path}${query}` : null;
+}
+
+function upstreamHeaders(req: Request): Record<string, string> {
+  const headers: Record<string, string> = {
+    // Skips ngrok's browser interstitial, which would otherwise answer with HTML
+    "ngrok-skip-browser-warning": "true",
+  };
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === "string") headers[name] = value;
+  }
+  const token = process.env.CLUSTERING_BACKEND_TOKEN;
+  if (token) headers.authorization = `Bearer ${token}`;
+  return headers;
+}
+
+// The backend's error message from a JSON body ({ error }, { detail } or { message })
+function errorMessage(body: string, status: number): string {
+  try {
+    const parsed = JSON.parse(body);
+    const detail = parsed?.error ?? parsed?.detail ?? parsed?.message;
+    if (typeof detail === "string") return detail;
+    if (detail !== undefined) return JSON.stringify(detail);
+  } catch {
+    // Not JSON; fall through to the raw text
+  }
+  return body.trim().slice(0, 500) || `Backend responded with HTTP ${status}`;
+}
+
+backendProxy.all("/*", async (req: Request, res: Response) => {
+  const started = Date.now();
+  const path = req.path;
+  const query = req.url.slice(req.path.length);
+  const logCall = (status: number, note = "") =>
+    console.log(`🔀 backend ${req.method} ${path} → ${status} in ${Date.now() - started}ms${note}`);
+
+  if (req.method !== "GET" && !(req.method === "POST" && FORWARDED_POSTS.has(path))) {
+    logCall(405);
+    return res.status(405).json({ error: `${req.method} ${path} is not forwarded to the clustering backend` });
+  }
+
+  const url = upstreamUrl(path, query);
+  if (!url) {
+    logCall(503, " (not configured)");
+    return res.status(503).json({ error: "Clustering backend is not configured: set CLUSTERING_BACKEND_URL on the server" });
+  }
+
+  // Abort the upstream call when the browser goes away or the call, body
+  // included, takes too long; the timer runs until the response is done
+  const controller = new AbortController();
+  const timeoutMs = req.method === "POST" ? RUN_TIMEOUT_MS : DEFAULT_TIMEOUT_MS;
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  res.on("close", () => {
+    clearTimeout(timeoutId);
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const upstream = await fetch(url, {
+      method: req.method,
+      headers: upstreamHeaders(req),
+      body: req.method === "POST" ? (Readable.toWeb(req) as ReadableStream) : undefined,
+      signal: controller.signal,
+      // Required by fetch for streamed request bodies
+      duplex: "half",
+    } as RequestInit);
+
+    const contentType = upstream.headers.get("content-type") ?? "";
+
+    // ngrok / proxy error pages come back as HTML; report them as JSON errors
+    if (contentType.includes("text/html")) {
+      await upstream.body?.cancel();
+      logCall(502, " (HTML instead of JSON)");
+      return res.status(502).json({
+        error: `Backend trả về HTML thay vì JSON (HTTP ${upstream.status}). Có thể tunnel đã tắt hoặc URL sai.`,
+        upstream_status: upstream.status,
+      });
+    }
+
+    if (!upstream.ok) {
+      const body = await upstream.text();
+      logCall(upstream.status);
+      return res.status(upstream.status).json({
+        error: errorMessage(body, upstream.status),
+        upstream_status: upstream.status,
+      });
+    }
+
+    res.status(upstream.status);
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) res.setHeader(name, value);
+    }
+    if (!upstream.body) {
+      logCall(upstream.status);
+      return res.end();
+    }
+
+    let bytes = 0;
+    Readable.fromWeb(upstream.body as WebReadableStream)
+      .on("data", (chunk: Buffer) => { bytes += chunk.length; })
+      .on("error", (error) => {
+        if (controller.signal.aborted) logCall(504, ` (timeout after ${bytes} bytes)`);
+        else console.error(`❌ backend ${req.method} ${path} stream error:`, error);
+        res.destroy(error);
+      })
+      .on("end", () => logCall(upstream.status, ` (${bytes} bytes)`))
+      .pipe(res);
+  } catch (error) {
+    if (res.headersSent || res.destroyed) return;
+    if (controller.signal.aborted) {
+      logCall(504, " (timeout)");
+      return res.status(504).json({ error: `Clustering backend did not respond within ${timeoutMs / 1000}s` });
+    }
+    console.error(`❌ backend ${req.method} ${path} failed:`, error);
+    logCall(502);
+    res.status(502).json({ error: `Không thể kết nối đến clustering backend: ${error instanceof Error ? error.message : String(error)}` });
+  }
+});
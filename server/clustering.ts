@@ -0,0 +1,530 @@
+import Papa from "papaparse";
+import { PCA } from "ml-pca";
+import { randomUUID } from "crypto";
+import type { ClusterResult, Company, FileMetadata, KMetrics, Preprocessing } from "@shared/schema";
+import {
+  squaredDistance,
+  computeCentroids,
+  inertia,
+  silhouetteScore,
+  calinskiHarabasz,
+  daviesBouldin,
+} from "@shared/cluster-metrics";
+import { preprocessColumn, resolvePreprocessing } from "@shared/preprocessing";
+
+// Columns that identify a row rather than describe it; never used as features
+const NON_FEATURE_COLUMNS = new Set([
+  "id", "taxcode", "yearreport", "sector_unique_id", "sector_unique_id_raw",
+  "sector_code_matched", "Label", "cluster", "Unnamed: 0",
+  "pca2_x", "pca2_y", "emb_x", "emb_y",
+]);
+
+// Identifier columns that must stay strings even when they look numeric
+const STRING_COLUMNS = new Set(["taxcode", "name"]);
+
+// Candidate id columns, in order of preference, when the request names none
+const ID_COLUMN_CANDIDATES = ["id", "taxcode", "Unnamed: 0"];
+
+export interface LocalClusteringRequest {
+  dataset_id?: string;
+  lambda: number;
+  k_list: number[];
+  pca_dim?: number;
+  level_value?: string | string[];
+  info_csv?: string;
+  embeddings_csv?: string;
+  id_column?: string;
+  // Per-file id columns for the embeddings/info join; both default to id_column
+  info_id_column?: string;
+  embeddings_id_column?: string;
+  seed?: number;
+  // Number of uniform reference datasets for the gap statistic (0 = skip it)
+  gap_references?: number;
+  // Feature columns to leave out, e.g. those flagged by the client's data quality report
+  exclude_columns?: string[];
+  // Info columns to use as features (default: every numeric column) and their weights
+  feature_columns?: string[];
+  feature_weights?: Record<string, number>;
+  // Imputation, scaling, winsorization and log transforms of the info features
+  preprocessing?: Preprocessing;
+}
+
+export interface LocalClusteringOutput {
+  result: ClusterResult;
+  // Generated artifacts keyed by the path referenced in the result
+  files: Record<string, string>;
+}
+
+export class ClusteringInputError extends Error {
+  status = 400;
+}
+
+export class ClusteringCancelledError extends Error {
+  constructor() {
+    super("Clustering cancelled");
+  }
+}
+
+// Reports the current step of a run; percent is 0-100
+export type ClusteringProgress = (stage: string, percent: number) => void;
+
+export interface LocalClusteringOptions {
+  onProgress?: ClusteringProgress;
+  signal?: AbortSignal;
+}
+
+// Long runs give the event loop a turn between steps so progress can be sent
+// and cancellation requests can arrive
+async function checkpoint(signal?: AbortSignal) {
+  await new Promise<void>(resolve => setImmediate(resolve));
+  if (signal?.aborted) throw new ClusteringCancelledError();
+}
+
+type Row = Record<string, any>;
+
+// `stringColumns` are kept as text on top of STRING_COLUMNS (e.g. the join's id columns)
+function parseCsvWithMeta(text: string, stringColumns: string[] = []) {
+  return Papa.parse<Row>(text.replace(/^\uFEFF/, ""), {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: (field) => !STRING_COLUMNS.has(String(field)) && !stringColumns.includes(String(field)),
+  });
+}
+
+export function parseCsv(text: string, stringColumns: string[] = []): Row[] {
+  return parseCsvWithMeta(text, stringColumns).data;
+}
+
+// Join key of a row, compared as trimmed text like the client's id mapping check
+function idKey(row: Row, column: string): string {
+  return String(row[column] ?? "").trim();
+}
+
+/**
+ * Server-side counterpart of the client's parseFile: FileMetadata for an uploaded CSV
+ */
+export function describeCsv(name: string, type: string, content: string): FileMetadata {
+  const parsed = parseCsvWithMeta(content);
+  const columns = parsed.meta.fields ?? [];
+
+  return {
+    name,
+    size: Buffer.byteLength(content, "utf8"),
+    type,
+    delimiter: parsed.meta.delimiter || ",",
+    hasHeader: true,
+    columnCount: columns.length,
+    rowCount: parsed.data.length,
+    columns,
+    numericColumns: numericColumns(parsed.data, new Set()),
+    preview: parsed.data.slice(0, 20),
+  };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function numericColumns(rows: Row[], exclude: Set<string>): string[] {
+  if (rows.length === 0) return [];
+  return Object.keys(rows[0]).filter(column => {
+    if (exclude.has(column)) return false;
+    const present = rows.filter(row => row[column] !== null && row[column] !== undefined && row[column] !== "");
+    return present.length > 0 && present.every(row => typeof row[column] === "number");
+  });
+}
+
+function pickIdColumn(rows: Row[], requested?: string): string | null {
+  if (rows.length === 0) return null;
+  const columns = Object.keys(rows[0]);
+  if (requested) {
+    if (!columns.includes(requested)) throw new ClusteringInputError(`Id column "${requested}" not found`);
+    return requested;
+  }
+  return ID_COLUMN_CANDIDATES.find(column => columns.includes(column)) ?? null;
+}
+
+function matchesLevelValue(row: Row, levelValues: string[]): boolean {
+  const sector = row.sector_unique_id ?? row.sector_code_matched;
+  if (sector === null || sector === undefined) return false;
+  const code = String(sector);
+  return levelValues.some(value => code === value || code.startsWith(value));
+}
+
+/**
+ * Seeded PRNG (mulberry32) so repeated runs over the same input give the same labels
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Per column, in order: optional signed log1p, winsorizing to percentiles,
+ * imputing missing values (mean, median or zero), then scaling (zscore,
+ * robust, minmax or none). Steps come from the config defaults plus column
+ * overrides; columns left constant or empty are dropped
+ */
+function preprocess(rows: Row[], columns: string[], config?: Preprocessing): { matrix: number[][]; used: string[] } {
+  const used: string[] = [];
+  const columnValues: number[][] = [];
+
+  for (const column of columns) {
+    const values = rows.map(row => (isFiniteNumber(row[column]) ? row[column] : null));
+    const transformed = preprocessColumn(values, resolvePreprocessing(config, column));
+    if (!transformed) continue;
+    used.push(column);
+    columnValues.push(transformed);
+  }
+
+  const matrix = rows.map((_, i) => columnValues.map(values => values[i]));
+  return { matrix, used };
+}
+
+interface KMeansResult {
+  labels: number[];
+  centroids: number[][];
+  inertia: number;
+}
+
+function kMeansPlusPlus(points: number[][], k: number, random: () => number): number[][] {
+  const centroids = [points[Math.floor(random() * points.length)]];
+  const distances = points.map(point => squaredDistance(point, centroids[0]));
+
+  while (centroids.length < k) {
+    const total = distances.reduce((sum, d) => sum + d, 0);
+    let target = random() * total;
+    let next = points.length - 1;
+    for (let i = 0; i < points.length; i++) {
+      target -= distances[i];
+      if (target <= 0) {
+        next = i;
+        break;
+      }
+    }
+    centroids.push(points[next]);
+    points.forEach((point, i) => {
+      distances[i] = Math.min(distances[i], squaredDistance(point, points[next]));
+    });
+  }
+
+  return centroids.map(c => [...c]);
+}
+
+function lloyd(points: number[][], initial: number[][], maxIterations: number): KMeansResult {
+  let centroids = initial;
+  const labels = new Array(points.length).fill(0);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+    points.forEach((point, i) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((centroid, c) => {
+        const d = squaredDistance(point, centroid);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = c;
+        }
+      });
+      if (labels[i] !== best) {
+        labels[i] = best;
+        changed = true;
+      }
+    });
+
+    const means = computeCentroids(points, labels);
+    // Empty clusters keep their previous centroid
+    centroids = centroids.map((centroid, c) => means.get(c) ?? centroid);
+    if (!changed && iteration > 0) break;
+  }
+
+  const centroidMap = new Map(centroids.map((centroid, c) => [c, centroid]));
+  return { labels, centroids, inertia: inertia(points, labels, centroidMap) };
+}
+
+/**
+ * k-means with k-means++ seeding; keeps the best of `nInit` restarts
+ */
+export function kMeans(points: number[][], k: number, seed = 42, nInit = 3, maxIterations = 100): KMeansResult {
+  const random = createRandom(seed + k);
+  let best: KMeansResult | null = null;
+  for (let run = 0; run < nInit; run++) {
+    const result = lloyd(points, kMeansPlusPlus(points, k, random), maxIterations);
+    if (!best || result.inertia < best.inertia) best = result;
+  }
+  return best!;
+}
+
+function project(matrix: number[][], nComponents: number): number[][] {
+  const dimensions = matrix[0]?.length ?? 0;
+  if (dimensions <= nComponents) {
+    return matrix.map(row => Array.from({ length: nComponents }, (_, d) => row[d] ?? 0));
+  }
+  const pca = new PCA(matrix);
+  return pca.predict(matrix, { nComponents }).to2DArray();
+}
+
+// Reference datasets of the gap statistic are at most this many points
+const GAP_REFERENCE_POINTS = 5000;
+
+/**
+ * Gap statistic (Tibshirani et al.) for one k: log within-cluster dispersion of
+ * uniform reference data in the features' bounding box minus that of the data.
+ * Large datasets get smaller reference sets, their dispersion scaled up to n points.
+ */
+function gapStatistic(points: number[][], k: number, dataInertia: number, references: number, seed: number): { gap: number; sk: number } {
+  const random = createRandom(seed * 31 + k);
+  const dimensions = points[0].length;
+  const min = new Array<number>(dimensions).fill(Infinity);
+  const max = new Array<number>(dimensions).fill(-Infinity);
+  for (const point of points) {
+    for (let d = 0; d < dimensions; d++) {
+      if (point[d] < min[d]) min[d] = point[d];
+      if (point[d] > max[d]) max[d] = point[d];
+    }
+  }
+
+  const size = Math.min(points.length, GAP_REFERENCE_POINTS);
+  const logW: number[] = [];
+  for (let b = 0; b < references; b++) {
+    const reference = Array.from({ length: size }, () => min.map((lo, d) => lo + random() * (max[d] - lo)));
+    logW.push(Math.log(kMeans(reference, k, seed + b, 1).inertia * (points.length / size)));
+  }
+
+  const mean = logW.reduce((sum, v) => sum + v, 0) / references;
+  const sd = Math.sqrt(logW.reduce((sum, v) => sum + (v - mean) ** 2, 0) / references);
+  return { gap: mean - Math.log(dataInertia), sk: sd * Math.sqrt(1 + 1 / references) };
+}
+
+function finiteOrNull(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+function toCsv(header: string[], rows: (string | number | null)[][]): string {
+  return [header.join(","), ...rows.map(row => row.map(v => (v === null ? "" : String(v))).join(","))].join("\n");
+}
+
+/**
+ * Run k-means for every k in `k_list` over the joined embeddings/info dataset and
+ * build a ClusterResult in the same shape the remote backend returns
+ */
+export async function runLocalClustering(
+  request: LocalClusteringRequest,
+  { onProgress, signal }: LocalClusteringOptions = {},
+): Promise<LocalClusteringOutput> {
+  const warnings: string[] = [];
+  const seed = request.seed ?? 42;
+
+  onProgress?.("Parsing input files", 0);
+  await checkpoint(signal);
+
+  // Id columns stay text so ids such as "0101" still match across the two files
+  const infoIdColumn = request.info_id_column ?? request.id_column;
+  const embeddingsIdColumn = request.embeddings_id_column ?? request.id_column;
+  const idColumns = [infoIdColumn, embeddingsIdColumn, ...ID_COLUMN_CANDIDATES]
+    .filter((column): column is string => typeof column === "string" && column.length > 0);
+
+  let infoRows = request.info_csv ? parseCsv(request.info_csv, idColumns) : [];
+  const embeddingRows = request.embeddings_csv ? parseCsv(request.embeddings_csv, idColumns) : [];
+
+  if (infoRows.length === 0 && embeddingRows.length === 0) {
+    throw new ClusteringInputError("No data provided: send info_quy_mo_b64/info_csv and/or embeddings_csv");
+  }
+
+  const levelValues = request.level_value === undefined
+    ? []
+    : (Array.isArray(request.level_value) ? request.level_value : [request.level_value]);
+  if (levelValues.length > 0 && infoRows.length > 0 && "sector_unique_id" in infoRows[0]) {
+    infoRows = infoRows.filter(row => matchesLevelValue(row, levelValues));
+    if (infoRows.length === 0) {
+      throw new ClusteringInputError(`No rows match level_value: ${levelValues.join(", ")}`);
+    }
+  }
+
+  // Join embeddings and info rows by id (or by row order when no id column exists)
+  let joined: { info: Row; embedding: Row; id: string }[];
+  if (infoRows.length > 0 && embeddingRows.length > 0) {
+    const infoId = pickIdColumn(infoRows, infoIdColumn);
+    const embeddingId = pickIdColumn(embeddingRows, embeddingsIdColumn);
+    if (infoId && embeddingId) {
+      const infoById = new Map(infoRows.map(row => [idKey(row, infoId), row]));
+      joined = embeddingRows
+        .filter(row => infoById.has(idKey(row, embeddingId)))
+        .map(row => ({ id: idKey(row, embeddingId), embedding: row, info: infoById.get(idKey(row, embeddingId))! }));
+      const dropped = embeddingRows.length - joined.length;
+      if (dropped > 0) warnings.push(`${dropped} embedding rows have no matching info row and were dropped`);
+      const unmatchedInfo = infoRows.length - joined.length;
+      if (unmatchedInfo > 0) warnings.push(`${unmatchedInfo} info rows have no embedding and were left out`);
+      if (joined.length === 0) {
+        throw new ClusteringInputError(`No embedding rows match an info row on ${embeddingId} = ${infoId}`);
+      }
+    } else {
+      warnings.push("No shared id column found; embeddings and info rows were joined by row order");
+      const n = Math.min(infoRows.length, embeddingRows.length);
+      joined = Array.from({ length: n }, (_, i) => ({ id: String(i), embedding: embeddingRows[i], info: infoRows[i] }));
+    }
+  } else if (infoRows.length > 0) {
+    const infoId = pickIdColumn(infoRows, infoIdColumn);
+    if (!infoId) warnings.push("No id column found in info file; ids were generated from row index");
+    joined = infoRows.map((row, i) => ({ id: infoId ? String(row[infoId]) : String(i), embedding: {}, info: row }));
+  } else {
+    const embeddingId = pickIdColumn(embeddingRows, embeddingsIdColumn);
+    if (!embeddingId) warnings.push("No id column found in embeddings file; ids were generated from row index");
+    joined = embeddingRows.map((row, i) => ({ id: embeddingId ? String(row[embeddingId]) : String(i), embedding: row, info: {} }));
+  }
+
+  const maxK = Math.max(...request.k_list);
+  if (joined.length <= maxK) {
+    throw new ClusteringInputError(`Need more than ${maxK} rows to cluster, got ${joined.length}`);
+  }
+
+  onProgress?.(`Building features for ${joined.length} rows`, 15);
+  await checkpoint(signal);
+
+  // Embedding block: reduced to pca_dim when wider
+  const excluded = new Set(NON_FEATURE_COLUMNS);
+  for (const column of [request.id_column, infoIdColumn, embeddingsIdColumn, ...(request.exclude_columns ?? [])]) {
+    if (column) excluded.add(column);
+  }
+  const embeddingColumns = numericColumns(joined.map(r => r.embedding), excluded);
+  let embeddingBlock: number[][] = joined.map(() => []);
+  if (embeddingColumns.length > 0) {
+    embeddingBlock = joined.map(r => embeddingColumns.map(c => (isFiniteNumber(r.embedding[c]) ? r.embedding[c] : 0)));
+    const pcaDim = request.pca_dim ?? embeddingColumns.length;
+    if (embeddingColumns.length > pcaDim) {
+      onProgress?.(`Reducing ${embeddingColumns.length} embedding dimensions to ${pcaDim} with PCA`, 20);
+      await checkpoint(signal);
+      embeddingBlock = project(embeddingBlock, pcaDim);
+    }
+  }
+
+  // Info block: selected numeric features, preprocessed and weighted by lambda
+  const numericInfoColumns = numericColumns(joined.map(r => r.info), excluded);
+  let infoColumns = numericInfoColumns;
+  if (request.feature_columns) {
+    const selected = new Set(request.feature_columns);
+    infoColumns = numericInfoColumns.filter(c => selected.has(c));
+    const missing = request.feature_columns.filter(c => !numericInfoColumns.includes(c) && !excluded.has(c));
+    if (missing.length > 0) warnings.push(`Selected features not found as numeric info columns: ${missing.join(", ")}`);
+  }
+  const { matrix: infoMatrix, used: infoFeatures } = preprocess(joined.map(r => r.info), infoColumns, request.preprocessing);
+  const dropped = infoColumns.filter(c => !infoFeatures.includes(c));
+  if (dropped.length > 0) warnings.push(`Dropped constant or empty columns: ${dropped.join(", ")}`);
+  const infoWeights = infoFeatures.map(c => request.feature_weights?.[c] ?? 1);
+
+  const features = joined.map((_, i) => [
+    ...embeddingBlock[i],
+    ...infoMatrix[i].map((v, j) => v * request.lambda * infoWeights[j]),
+  ]);
+  if (features[0].length === 0) {
+    throw new ClusteringInputError("No numeric feature columns found in the uploaded files");
+  }
+
+  // Sweep k
+  const runs = new Map<number, KMeansResult>();
+  const metrics: KMetrics[] = [];
+  for (let index = 0; index < request.k_list.length; index++) {
+    const k = request.k_list[index];
+    onProgress?.(`Clustering k=${k} (${index + 1}/${request.k_list.length})`, 25 + Math.round((65 * index) / request.k_list.length));
+    await checkpoint(signal);
+
+    const run = kMeans(features, k, seed);
+    runs.set(k, run);
+    const entry: KMetrics = {
+      k,
+      inertia: finiteOrNull(run.inertia),
+      silhouette: finiteOrNull(silhouetteScore(features, run.labels)),
+      calinski_harabasz: finiteOrNull(calinskiHarabasz(features, run.labels)),
+      davies_bouldin: finiteOrNull(daviesBouldin(features, run.labels)),
+    };
+    if (request.gap_references) {
+      const { gap, sk } = gapStatistic(features, k, run.inertia, request.gap_references, seed);
+      entry.gap = finiteOrNull(gap);
+      entry.gap_sk = finiteOrNull(sk);
+    }
+    metrics.push(entry);
+  }
+
+  onProgress?.("Preparing results", 92);
+  await checkpoint(signal);
+
+  const best = metrics.reduce((a, b) => ((b.silhouette ?? -Infinity) > (a.silhouette ?? -Infinity) ? b : a));
+  const bestRun = runs.get(best.k)!;
+  const coordinates = project(features, 2);
+
+  const size = new Array(best.k).fill(0);
+  bestRun.labels.forEach(label => { size[label]++; });
+
+  // Group enterprises by sector, mirroring the remote `companies` payload
+  const companiesBySector = new Map<string, Company>();
+  joined.forEach((row, i) => {
+    const sector = row.info.sector_unique_id ?? "unknown";
+    const key = String(sector);
+    if (!companiesBySector.has(key)) {
+      companiesBySector.set(key, { sector_unique_id: sector, enterprise: [] });
+    }
+    const enterprise: Row = { ...row.info };
+    for (const [column, value] of Object.entries(enterprise)) {
+      if (typeof value === "number" && !Number.isFinite(value)) enterprise[column] = null;
+    }
+    companiesBySector.get(key)!.enterprise!.push({
+      ...enterprise,
+      Label: bestRun.labels[i],
+      cluster: bestRun.labels[i],
+      pca2_x: coordinates[i][0],
+      pca2_y: coordinates[i][1],
+    });
+  });
+
+  const runId = `local-${randomUUID()}`;
+  const metricsPath = `/files/metrics/${runId}/metrics.csv`;
+  const labelsByK: Record<string, string> = {};
+
+  const files: Record<string, string> = {
+    [metricsPath]: toCsv(
+      ["k", "inertia", "silhouette", "calinski_harabasz", "davies_bouldin", "gap", "gap_sk"],
+      metrics.map(m => [m.k, m.inertia, m.silhouette, m.calinski_harabasz, m.davies_bouldin, m.gap ?? null, m.gap_sk ?? null]),
+    ),
+  };
+  // One labels file per k so the client can re-label with a k other than best_k.
+  // taxcode/yearreport let it match rows to the grouped `companies` payload.
+  runs.forEach((run, k) => {
+    const path = `/files/labels/${runId}/labels_k${k}.csv`;
+    labelsByK[String(k)] = path;
+    files[path] = toCsv(
+      ["id", "taxcode", "yearreport", "label"],
+      joined.map((row, i) => [row.id, row.info.taxcode ?? null, row.info.yearreport ?? null, run.labels[i]]),
+    );
+  });
+  const labelsPath = labelsByK[String(best.k)];
+
+  const result: ClusterResult = {
+    dataset_id: request.dataset_id ?? runId,
+    mode: "local",
+    level_value: request.level_value,
+    lambda: request.lambda,
+    k_candidates: request.k_list,
+    best_k: best.k,
+    n_samples: joined.length,
+    metrics_csv: metricsPath,
+    labels_csv: labelsPath,
+    labels_by_k: labelsByK,
+    labels: bestRun.labels,
+    embedding: coordinates,
+    size,
+    companies: Array.from(companiesBySector.values()),
+    metrics,
+    warnings,
+    ...(request.preprocessing && { preprocessing: request.preprocessing }),
+    info_features: infoFeatures,
+  };
+
+  return { result, files };
+}
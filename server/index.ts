@@ -1,10 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { backendProxy } from "./backend-proxy";
 import path from "path";
 
 const app = express();
-app.use(express.json());
+// The backend proxy streams bodies, so it goes before the body parsers
+app.use("/api/backend", backendProxy);
+// Info/embeddings CSVs are posted inline, so allow large bodies
+app.use(express.json({ limit: "100mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 // Serve name.txt file statically
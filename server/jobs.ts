@@ -0,0 +1,197 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  type ClusteringJob,
+  type JobEvent,
+  type RunLogEntry,
+} from "@shared/schema";
+import type { ClusteringProgress } from "./clustering";
+
+// Path of the jobs WebSocket, next to the local engine's HTTP routes
+export const JOBS_SOCKET_PATH = "/api/clustering/jobs/ws";
+
+// Finished jobs stay available for reconnecting clients this long
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export interface JobContext {
+  signal: AbortSignal;
+  progress: ClusteringProgress;
+  log: (type: RunLogEntry["type"], message: string) => void;
+}
+
+// A job produces a clustering result or a grid sweep
+type JobTask = (context: JobContext) => Promise<Pick<ClusteringJob, "result" | "sweep">>;
+
+interface JobRecord {
+  job: ClusteringJob;
+  controller: AbortController;
+}
+
+/**
+ * In-memory registry of clustering jobs. Jobs run one at a time (the engine is
+ * CPU bound) and every change is emitted as a JobEvent for the WebSocket.
+ */
+export class JobManager extends EventEmitter {
+  private jobs = new Map<string, JobRecord>();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor() {
+    super();
+    // One listener per connected socket
+    this.setMaxListeners(0);
+  }
+
+  get(id: string): ClusteringJob | undefined {
+    return this.jobs.get(id)?.job;
+  }
+
+  submit(task: JobTask): ClusteringJob {
+    this.prune();
+    const now = new Date().toISOString();
+    const job: ClusteringJob = {
+      job_id: `job-${randomUUID()}`,
+      status: "queued",
+      stage: "Queued",
+      percent: 0,
+      logs: [],
+      created_at: now,
+      updated_at: now,
+    };
+    const record: JobRecord = { job, controller: new AbortController() };
+    this.jobs.set(job.job_id, record);
+
+    this.queue = this.queue.then(() => this.run(record, task));
+    return job;
+  }
+
+  cancel(id: string): boolean {
+    const record = this.jobs.get(id);
+    if (!record || (record.job.status !== "queued" && record.job.status !== "running")) return false;
+    record.controller.abort();
+    if (record.job.status === "queued") {
+      this.finish(record, "cancelled", "Cancelled before it started");
+    }
+    return true;
+  }
+
+  private async run(record: JobRecord, task: JobTask) {
+    const { job, controller } = record;
+    if (controller.signal.aborted) return;
+
+    job.status = "running";
+    this.log(record, "info", "Job started");
+
+    const context: JobContext = {
+      signal: controller.signal,
+      progress: (stage, percent) => {
+        job.stage = stage;
+        job.percent = percent;
+        job.updated_at = new Date().toISOString();
+        this.emit("event", { type: "progress", job_id: job.job_id, stage, percent } satisfies JobEvent);
+        this.log(record, "info", stage);
+      },
+      log: (type, message) => this.log(record, type, message),
+    };
+
+    try {
+      const { result, sweep } = await task(context);
+      job.result = result;
+      job.sweep = sweep;
+      context.progress("Completed", 100);
+      this.finish(record, "succeeded");
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.finish(record, "cancelled", "Cancelled");
+      } else {
+        console.error(`❌ Job ${job.job_id} failed:`, error);
+        this.finish(record, "failed", error instanceof Error ? error.message : "Clustering job failed");
+      }
+    }
+  }
+
+  private log(record: JobRecord, type: RunLogEntry["type"], message: string) {
+    const entry: RunLogEntry = { type, message, timestamp: new Date().toISOString() };
+    record.job.logs.push(entry);
+    this.emit("event", { type: "log", job_id: record.job.job_id, entry } satisfies JobEvent);
+  }
+
+  private finish(record: JobRecord, status: ClusteringJob["status"], error?: string) {
+    const { job } = record;
+    job.status = status;
+    job.error = error;
+    job.updated_at = new Date().toISOString();
+    if (error) this.log(record, status === "cancelled" ? "warning" : "error", error);
+    this.emit("event", { type: "done", job_id: job.job_id, status, error } satisfies JobEvent);
+  }
+
+  private prune() {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    this.jobs.forEach(({ job }, id) => {
+      const finished = job.status !== "queued" && job.status !== "running";
+      if (finished && Date.parse(job.updated_at) < cutoff) this.jobs.delete(id);
+    });
+  }
+}
+
+export const jobs = new JobManager();
+
+function send(socket: WebSocket, event: JobEvent) {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(event));
+}
+
+/**
+ * Attach the jobs WebSocket to the HTTP server. Clients subscribe with
+ * `?job_id=` or a `{ "type": "subscribe", "job_id": ... }` message and get a
+ * snapshot (status and logs so far) followed by live events, so a client that
+ * reconnects picks up where it left off. Other upgrade requests (e.g. Vite's
+ * HMR socket) are left alone.
+ */
+export function attachJobSocket(server: Server, manager: JobManager = jobs) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== JOBS_SOCKET_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  wss.on("connection", (socket: WebSocket, req: IncomingMessage) => {
+    const subscriptions = new Set<string>();
+
+    const subscribe = (jobId: string) => {
+      const job = manager.get(jobId);
+      if (!job) {
+        send(socket, { type: "error", message: `Job ${jobId} not found` });
+        return;
+      }
+      subscriptions.add(jobId);
+      const { result, sweep, ...snapshot } = job;
+      send(socket, { type: "snapshot", job: snapshot });
+    };
+
+    const onEvent = (event: JobEvent) => {
+      if ("job_id" in event && subscriptions.has(event.job_id)) send(socket, event);
+    };
+    manager.on("event", onEvent);
+    socket.on("close", () => manager.off("event", onEvent));
+
+    socket.on("message", (data) => {
+      try {
+        const message = JSON.parse(data.toString());
+        if (message?.type === "subscribe" && typeof message.job_id === "string") {
+          subscribe(message.job_id);
+        }
+      } catch {
+        send(socket, { type: "error", message: "Invalid message" });
+      }
+    });
+
+    const initialJob = new URL(req.url ?? "/", "http://localhost").searchParams.get("job_id");
+    if (initialJob) subscribe(initialJob);
+  });
+
+  return wss;
+}
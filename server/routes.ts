@@ -1,23 +1,26 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, summarizeRun } from "./storage";
+import { runLocalClustering, ClusteringInputError, type LocalClusteringRequest } from "./clustering";
+import { jobs, attachJobSocket } from "./jobs";
+import { uploads, UploadError, UPLOAD_CHUNK_BYTES } from "./uploads";
+import { insertDatasetSchema, datasetFileKindSchema, insertClusteringRunSchema, gridSweepSchema, preprocessingSchema, clusteringParamsSchema } from "@shared/schema";
+import { assembleGridSweep } from "@shared/grid-sweep";
+import { fromZodError } from "zod-validation-error";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Clustering API proxy routes
   app.get("/api/clustering/meta", async (req, res) => {
     try {
-      // Mock clustering service metadata
+      // Local clustering engine metadata
       const meta = {
-        message: "KMeans clustering service",
+        message: "KMeans clustering service (local engine)",
         defaults: { 
           lambda: 0.5, 
           k_list: [3, 4, 5, 6, 7, 8] 
         },
-        files: {
-          "vector_ratio.csv": "./data/vector_ratio.csv",
-          "vector_ratio.meta.json": "./data/vector_ratio.meta.json"
-        },
-        outputs_dir: "/abs/path/to/outputs"
+        inputs: ["dataset_id", "info_quy_mo_b64", "info_csv", "embeddings_csv"],
+        capabilities: ["gap_statistic", "grid_sweep", "inline_csv", "jobs", "chunked_upload", "exclude_columns", "preprocessing", "feature_selection"],
       };
       
       res.json(meta);
@@ -26,85 +29,443 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/clustering/run", async (req, res) => {
-    try {
-      const { lambda, k_list } = req.body;
+  // Input files of a clustering request: a stored dataset, or inline CSVs which are
+  // registered as a dataset so the result's dataset_id refers to stored data
+  // (reusing the stored one when the same files were sent before).
+  // Returns null when the requested dataset does not exist.
+  const resolveDatasetInputs = async (body: Record<string, any>) => {
+    let info_csv: string | undefined = body.info_csv
+      ?? (body.info_quy_mo_b64 ? Buffer.from(body.info_quy_mo_b64, 'base64').toString('utf8') : undefined);
+    let embeddings_csv: string | undefined = body.embeddings_csv;
+    let dataset_id: string | undefined = body.dataset_id;
 
-      // Validate request
-      if (typeof lambda !== 'number' || lambda <= 0) {
-        return res.status(400).json({ error: "lambda must be a positive number" });
-      }
+    if (dataset_id) {
+      if (!(await storage.getDataset(dataset_id))) return null;
+      info_csv = await storage.getDatasetFile(dataset_id, 'info');
+      embeddings_csv = await storage.getDatasetFile(dataset_id, 'embeddings');
+    } else if (info_csv || embeddings_csv) {
+      const upload = {
+        ...(info_csv && { info: { name: body.info_name || 'info.csv', type: 'text/csv', content: info_csv } }),
+        ...(embeddings_csv && { embeddings: { name: body.embeddings_name || 'embeddings.csv', type: 'text/csv', content: embeddings_csv } }),
+      };
+      const dataset = (await storage.findDatasetByContent(upload)) ?? (await storage.createDataset(upload));
+      dataset_id = dataset.dataset_id;
+    }
 
-      if (!Array.isArray(k_list) || k_list.some(k => typeof k !== 'number' || k < 2)) {
-        return res.status(400).json({ error: "k_list must be an array of integers >= 2" });
-      }
+    return { dataset_id, info_csv, embeddings_csv };
+  };
 
-      // Simulate processing delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
+  // Validate a clustering request body and resolve its input files. Returns the
+  // engine request, or the status and message to answer with.
+  const parseRunRequest = async (
+    body: Record<string, any>,
+  ): Promise<{ request: LocalClusteringRequest } | { status: number; error: string }> => {
+    const { lambda, pca_dim, level_value, id_column, info_id_column, embeddings_id_column, seed, gap_references, exclude_columns, feature_columns, feature_weights } = body;
+    const k_list = body.k_list ?? (Array.isArray(body.k) ? body.k : [body.k]);
 
-      // Mock clustering result
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-      const best_k = k_list[Math.floor(k_list.length / 2)]; // Pick middle k as "best"
-      
-      const result = {
+    if (typeof lambda !== 'number' || lambda <= 0) {
+      return { status: 400, error: "lambda must be a positive number" };
+    }
+
+    if (!Array.isArray(k_list) || k_list.length === 0 || !clusteringParamsSchema.shape.k.safeParse(k_list).success) {
+      return { status: 400, error: "k_list must be an array of integers between 2 and 20" };
+    }
+
+    // Omitted: the embeddings are used at full width
+    const pcaDim = pca_dim === undefined ? undefined : clusteringParamsSchema.shape.pca_dim.safeParse(pca_dim);
+    if (pcaDim && !pcaDim.success) {
+      return { status: 400, error: fromZodError(pcaDim.error, { prefix: "Invalid pca_dim" }).message };
+    }
+
+    if (gap_references !== undefined && (!Number.isInteger(gap_references) || gap_references < 0 || gap_references > 50)) {
+      return { status: 400, error: "gap_references must be an integer between 0 and 50" };
+    }
+
+    if (exclude_columns !== undefined && (!Array.isArray(exclude_columns) || exclude_columns.some(c => typeof c !== 'string'))) {
+      return { status: 400, error: "exclude_columns must be an array of column names" };
+    }
+
+    if (feature_columns !== undefined && (!Array.isArray(feature_columns) || feature_columns.some(c => typeof c !== 'string'))) {
+      return { status: 400, error: "feature_columns must be an array of column names" };
+    }
+
+    if (feature_weights !== undefined && (typeof feature_weights !== 'object' || feature_weights === null ||
+      Object.values(feature_weights).some(w => typeof w !== 'number' || w < 0 || w > 10))) {
+      return { status: 400, error: "feature_weights must map column names to numbers between 0 and 10" };
+    }
+
+    const preprocessing = body.preprocessing === undefined ? undefined : preprocessingSchema.safeParse(body.preprocessing);
+    if (preprocessing && !preprocessing.success) {
+      return { status: 400, error: fromZodError(preprocessing.error, { prefix: "Invalid preprocessing" }).message };
+    }
+
+    const inputs = await resolveDatasetInputs(body);
+    if (!inputs) {
+      return { status: 404, error: `Dataset ${body.dataset_id} not found` };
+    }
+
+    return {
+      request: {
+        ...inputs,
         lambda,
-        k_candidates: k_list,
-        best_k,
-        metrics_csv: `/files/metrics/${timestamp}/metrics.csv`,
-        metric_plots: {
-          elbow: `/files/metrics/${timestamp}/elbow.png`,
-          silhouette: `/files/metrics/${timestamp}/silhouette.png`
-        },
-        labels_csv: `/files/labels/${timestamp}/labels_k${best_k}.csv`,
-        projection_plots: {
-          pca2d: `/files/projections/${timestamp}/pca2d_k${best_k}.png`,
-          tsne2d: null
-        }
-      };
+        k_list,
+        pca_dim,
+        level_value,
+        id_column,
+        info_id_column,
+        embeddings_id_column,
+        seed,
+        gap_references,
+        exclude_columns,
+        feature_columns,
+        feature_weights,
+        preprocessing: preprocessing?.data,
+      },
+    };
+  };
+
+  // Local clustering engine. Also mounted at /cluster/run so "<origin>/api/clustering"
+  // can be used as an endpoint in the same way as the remote backend.
+  const runClusteringHandler = async (req: Request, res: Response) => {
+    try {
+      const parsed = await parseRunRequest(req.body);
+      if ("error" in parsed) {
+        return res.status(parsed.status).json({ error: parsed.error });
+      }
+
+      const { result, files } = await runLocalClustering(parsed.request);
+
+      await storage.saveRunFiles(files);
 
       res.json(result);
     } catch (error) {
+      if (error instanceof ClusteringInputError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error("Clustering error:", error);
       res.status(500).json({ error: "Internal clustering service error" });
     }
+  };
+
+  app.post("/api/clustering/run", runClusteringHandler);
+  app.post("/api/clustering/cluster/run", runClusteringHandler);
+
+  // Asynchronous runs: the job id is returned at once and progress is streamed
+  // on the jobs WebSocket (see server/jobs.ts)
+  app.post("/api/clustering/jobs", async (req, res) => {
+    try {
+      const parsed = await parseRunRequest(req.body);
+      if ("error" in parsed) {
+        return res.status(parsed.status).json({ error: parsed.error });
+      }
+
+      const job = jobs.submit(async ({ signal, progress }) => {
+        const { result, files } = await runLocalClustering(parsed.request, { onProgress: progress, signal });
+        await storage.saveRunFiles(files);
+        return { result };
+      });
+      console.log(`🧵 Clustering job ${job.job_id} queued`);
+
+      res.status(202).json({ job_id: job.job_id, status: job.status });
+    } catch (error) {
+      console.error("Job submission error:", error);
+      res.status(500).json({ error: "Failed to submit clustering job" });
+    }
+  });
+
+  app.get("/api/clustering/jobs/:id", (req, res) => {
+    const job = jobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  app.delete("/api/clustering/jobs/:id", (req, res) => {
+    const job = jobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    if (!jobs.cancel(req.params.id)) {
+      return res.status(409).json({ error: `Job already ${job.status}` });
+    }
+    res.json({ job_id: job.job_id, cancelled: true });
   });
 
-  // File download proxy (for accessing clustering results)
-  app.get("/api/files/*", async (req, res) => {
+  // Chunked uploads: announce a file, PUT its (optionally gzip-compressed) bytes
+  // in order, then turn the finished uploads into a dataset to run on
+  app.post("/api/clustering/uploads", (req, res) => {
+    const { name, size, encoding = "identity" } = req.body ?? {};
+    if (typeof name !== "string" || !name) {
+      return res.status(400).json({ error: "name is required" });
+    }
+    if (encoding !== "identity" && encoding !== "gzip") {
+      return res.status(400).json({ error: "encoding must be 'identity' or 'gzip'" });
+    }
+
     try {
-      const filePath = (req.params as { [key: string]: string })[0];
-      
-      // In a real implementation, this would proxy to the actual clustering service
-      // For now, return appropriate mock responses based on file type
-      
-      if (filePath.endsWith('.csv')) {
-        // Mock CSV data
-        if (filePath.includes('labels')) {
-          const labels = Array.from({ length: 1000 }, (_, i) => `${i},${(i % 6) + 1}`).join('\n');
-          res.setHeader('Content-Type', 'text/csv');
-          res.send(`id,cluster\n${labels}`);
-        } else if (filePath.includes('metrics')) {
-          const metrics = `k,inertia,silhouette_score\n${[3,4,5,6,7,8].map(k => 
-            `${k},${Math.random() * 1000},${Math.random()}`
-          ).join('\n')}`;
-          res.setHeader('Content-Type', 'text/csv');
-          res.send(metrics);
-        } else {
-          res.status(404).json({ error: "File not found" });
+      const upload = uploads.create(name, size, encoding);
+      console.log(`📤 Upload ${upload.upload_id} started: ${name} (${size} bytes, ${encoding})`);
+      res.status(201).json({ upload_id: upload.upload_id, received: 0, chunk_size: UPLOAD_CHUNK_BYTES });
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Upload create error:", error);
+      res.status(500).json({ error: "Failed to start upload" });
+    }
+  });
+
+  app.put(
+    "/api/clustering/uploads/:id",
+    express.raw({ type: "application/octet-stream", limit: UPLOAD_CHUNK_BYTES * 2 }),
+    (req, res) => {
+      const offset = Number(req.query.offset);
+      if (!Number.isInteger(offset) || offset < 0) {
+        return res.status(400).json({ error: "offset must be a non-negative integer" });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: "Send the chunk as application/octet-stream" });
+      }
+
+      try {
+        const upload = uploads.append(req.params.id, offset, req.body);
+        res.json({ upload_id: upload.upload_id, received: upload.received });
+      } catch (error) {
+        if (error instanceof UploadError) {
+          return res.status(error.status).json({ error: error.message });
         }
-      } else if (filePath.endsWith('.png') || filePath.endsWith('.jpg')) {
-        // Return a small placeholder image
-        res.setHeader('Content-Type', 'image/png');
-        res.status(404).json({ error: "Image file not implemented in mock" });
-      } else {
-        res.status(404).json({ error: "File not found" });
+        console.error("Upload chunk error:", error);
+        res.status(500).json({ error: "Failed to store chunk" });
       }
+    },
+  );
+
+  app.post("/api/clustering/uploads/dataset", async (req, res) => {
+    const { info_upload_id, embeddings_upload_id } = req.body ?? {};
+    if (!info_upload_id && !embeddings_upload_id) {
+      return res.status(400).json({ error: "info_upload_id or embeddings_upload_id is required" });
+    }
+
+    try {
+      const ids = [info_upload_id, embeddings_upload_id].filter((id): id is string => !!id);
+      const files = await uploads.take(ids);
+      const info = info_upload_id ? files[0] : undefined;
+      const embeddings = embeddings_upload_id ? files[files.length - 1] : undefined;
+      const dataset = await storage.createDataset({
+        ...(info && { info: { name: info.name, type: 'text/csv', content: info.content } }),
+        ...(embeddings && { embeddings: { name: embeddings.name, type: 'text/csv', content: embeddings.content } }),
+      });
+      console.log(`📦 Dataset ${dataset.dataset_id} created from uploads`);
+      res.status(201).json(dataset);
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Upload dataset error:", error);
+      res.status(500).json({ error: "Failed to store dataset" });
+    }
+  });
+
+  // Grid sweep batch job: one local run per lambda, each covering every k. Queued
+  // like single runs, so progress streams on the jobs WebSocket and it can be cancelled.
+  app.post("/api/clustering/sweep/jobs", async (req, res) => {
+    try {
+      const parsed = gridSweepSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const grid = parsed.data;
+
+      const inputs = await resolveDatasetInputs(req.body);
+      if (!inputs) {
+        return res.status(404).json({ error: `Dataset ${req.body.dataset_id} not found` });
+      }
+
+      const kValues = [...grid.k_values].sort((a, b) => a - b);
+      const lambdas = grid.lambda_values;
+      const job = jobs.submit(async ({ signal, progress, log }) => {
+        const results = [];
+        for (let index = 0; index < lambdas.length; index++) {
+          const lambda = lambdas[index];
+          const { result, files } = await runLocalClustering({
+            ...inputs,
+            lambda,
+            k_list: kValues,
+            pca_dim: grid.pca_dim,
+            level_value: grid.level_value,
+            id_column: req.body.id_column,
+            info_id_column: req.body.info_id_column,
+            embeddings_id_column: req.body.embeddings_id_column,
+            seed: req.body.seed,
+            exclude_columns: grid.exclude_columns,
+            feature_columns: grid.feature_columns,
+            feature_weights: grid.feature_weights,
+            preprocessing: grid.preprocessing,
+          }, {
+            signal,
+            onProgress: (stage, percent) =>
+              progress(`λ=${lambda} (${index + 1}/${lambdas.length}): ${stage}`, Math.round((index * 100 + percent) / lambdas.length)),
+          });
+          await storage.saveRunFiles(files);
+          results.push(result);
+          log("info", `λ=${lambda} done, best k=${result.best_k}`);
+        }
+        return { sweep: assembleGridSweep(lambdas, kValues, results) };
+      });
+      console.log(`🧮 Grid sweep job ${job.job_id} queued: ${lambdas.length} lambda x ${kValues.length} k`);
+
+      res.status(202).json({ job_id: job.job_id, status: job.status });
+    } catch (error) {
+      console.error("Grid sweep submission error:", error);
+      res.status(500).json({ error: "Failed to submit grid sweep job" });
+    }
+  });
+
+  // Dataset registry
+  app.get("/api/datasets", async (_req, res) => {
+    try {
+      res.json(await storage.listDatasets());
+    } catch (error) {
+      console.error("Dataset list error:", error);
+      res.status(500).json({ error: "Failed to list datasets" });
+    }
+  });
+
+  app.post("/api/datasets", async (req, res) => {
+    try {
+      const parsed = insertDatasetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const dataset = await storage.createDataset(parsed.data);
+      res.status(201).json(dataset);
+    } catch (error) {
+      console.error("Dataset upload error:", error);
+      res.status(500).json({ error: "Failed to store dataset" });
+    }
+  });
+
+  app.get("/api/datasets/:id", async (req, res) => {
+    try {
+      const dataset = await storage.getDataset(req.params.id);
+      if (!dataset) {
+        return res.status(404).json({ error: "Dataset not found" });
+      }
+      res.json(dataset);
+    } catch (error) {
+      console.error("Dataset get error:", error);
+      res.status(500).json({ error: "Failed to get dataset" });
+    }
+  });
+
+  app.get("/api/datasets/:id/files/:kind", async (req, res) => {
+    try {
+      const kind = datasetFileKindSchema.safeParse(req.params.kind);
+      if (!kind.success) {
+        return res.status(400).json({ error: "kind must be 'embeddings' or 'info'" });
+      }
+
+      const content = await storage.getDatasetFile(req.params.id, kind.data);
+      if (content === undefined) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.send(content);
+    } catch (error) {
+      console.error("Dataset file error:", error);
+      res.status(500).json({ error: "Failed to read dataset file" });
+    }
+  });
+
+  app.delete("/api/datasets/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteDataset(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Dataset not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Dataset delete error:", error);
+      res.status(500).json({ error: "Failed to delete dataset" });
+    }
+  });
+
+  // Run history
+  app.get("/api/runs", async (_req, res) => {
+    try {
+      res.json(await storage.listRuns());
+    } catch (error) {
+      console.error("Run list error:", error);
+      res.status(500).json({ error: "Failed to list runs" });
+    }
+  });
+
+  app.post("/api/runs", async (req, res) => {
+    try {
+      const parsed = insertClusteringRunSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const run = await storage.createRun(parsed.data);
+      res.status(201).json(summarizeRun(run));
+    } catch (error) {
+      console.error("Run save error:", error);
+      res.status(500).json({ error: "Failed to save run" });
+    }
+  });
+
+  app.get("/api/runs/:id", async (req, res) => {
+    try {
+      const run = await storage.getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Run get error:", error);
+      res.status(500).json({ error: "Failed to get run" });
+    }
+  });
+
+  app.delete("/api/runs/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteRun(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Run not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Run delete error:", error);
+      res.status(500).json({ error: "Failed to delete run" });
+    }
+  });
+
+  // Artifacts (metrics/labels CSV) produced by the local engine, kept with the run history
+  const fileHandler = async (req: Request, res: Response) => {
+    try {
+      const filePath = `/files/${(req.params as { [key: string]: string })[0]}`;
+      const content = await storage.getRunFile(filePath);
+
+      if (content === undefined) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      res.setHeader('Content-Type', filePath.endsWith('.csv') ? 'text/csv' : 'text/plain');
+      res.send(content);
     } catch (error) {
       console.error("File download error:", error);
       res.status(500).json({ error: "Failed to download file" });
     }
-  });
+  };
+
+  app.get("/api/files/*", fileHandler);
+  app.get("/api/clustering/files/*", fileHandler);
 
   const httpServer = createServer(app);
+  attachJobSocket(httpServer);
   return httpServer;
 }
@@ -1,5 +1,18 @@
-import { type User, type InsertUser } from "@shared/schema";
-import { randomUUID } from "crypto";
+import {
+  type User,
+  type InsertUser,
+  type Dataset,
+  type DatasetFileKind,
+  type InsertDataset,
+  type ClusteringRun,
+  type ClusteringRunSummary,
+  type InsertClusteringRun,
+  type ClusterResult,
+} from "@shared/schema";
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { describeCsv } from "./clustering";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,31 +21,321 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  listDatasets(): Promise<Dataset[]>;
+  getDataset(id: string): Promise<Dataset | undefined>;
+  getDatasetFile(id: string, kind: DatasetFileKind): Promise<string | undefined>;
+  findDatasetByContent(dataset: InsertDataset): Promise<Dataset | undefined>;
+  createDataset(dataset: InsertDataset): Promise<Dataset>;
+  deleteDataset(id: string): Promise<boolean>;
+
+  listRuns(): Promise<ClusteringRunSummary[]>;
+  getRun(id: string): Promise<ClusteringRun | undefined>;
+  createRun(run: InsertClusteringRun): Promise<ClusteringRun>;
+  deleteRun(id: string): Promise<boolean>;
+
+  saveRunFiles(files: Record<string, string>): Promise<void>;
+  getRunFile(filePath: string): Promise<string | undefined>;
+}
+
+// Metrics/labels CSVs of one local engine run and the saved runs referring to them
+interface RunFiles {
+  key: string;
+  createdAt: string;
+  run_ids: string[];
+}
+
+interface StorageIndex {
+  users: User[];
+  datasets: Dataset[];
+  runs: ClusteringRunSummary[];
+  runFiles: RunFiles[];
+}
+
+// Paths the local engine gives its files: /files/<metrics|labels>/<engine run id>/<name>.csv
+const RUN_FILE_PATH = /^\/files\/(?:metrics|labels)\/(local-[\w-]+)\/([\w.-]+\.csv)$/;
+
+// Files of runs never saved to history are dropped after a day
+const UNSAVED_RUN_FILES_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Engine run ids of the files a result refers to
+function runFileKeys(result: ClusterResult): Set<string> {
+  const paths = [result.metrics_csv, result.labels_csv, ...Object.values(result.labels_by_k ?? {})];
+  return new Set(paths.flatMap((filePath) => RUN_FILE_PATH.exec(filePath)?.[1] ?? []));
+}
+
+export function summarizeRun(run: ClusteringRun): ClusteringRunSummary {
+  const { result, logs, ...summary } = run;
+  return {
+    ...summary,
+    dataset_id: result.dataset_id,
+    mode: result.mode,
+    best_k: result.best_k,
+    n_samples: result.n_samples,
+  };
+}
+
+/**
+ * Hash of a dataset's file contents (names aside), so the same files sent inline
+ * again map to the dataset already stored
+ */
+export function datasetContentHash(dataset: InsertDataset): string {
+  const hash = createHash("sha256");
+  for (const kind of ["embeddings", "info"] as const) {
+    hash.update(`${kind}:${dataset[kind]?.content.length ?? -1}:`);
+    hash.update(dataset[kind]?.content ?? "");
+  }
+  return hash.digest("hex");
 }
 
-export class MemStorage implements IStorage {
-  private users: Map<string, User>;
+/**
+ * Storage persisted under `dataDir`: an index.json with users, dataset metadata
+ * and run summaries, one directory per dataset holding the raw uploaded files,
+ * one JSON file per clustering run, and the metrics/labels CSVs of local engine
+ * runs next to the run records.
+ */
+export class FileStorage implements IStorage {
+  private index: StorageIndex | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
 
-  constructor() {
-    this.users = new Map();
+  constructor(private readonly dataDir: string) {}
+
+  private get indexPath() {
+    return path.join(this.dataDir, "index.json");
+  }
+
+  private datasetDir(id: string) {
+    return path.join(this.dataDir, "datasets", id);
+  }
+
+  private runPath(id: string) {
+    return path.join(this.dataDir, "runs", `${id}.json`);
+  }
+
+  private runFilesDir(key: string) {
+    return path.join(this.dataDir, "runs", "files", key);
+  }
+
+  private async load(): Promise<StorageIndex> {
+    if (this.index) return this.index;
+
+    try {
+      const raw = await fs.readFile(this.indexPath, "utf8");
+      const parsed = JSON.parse(raw) as Partial<StorageIndex>;
+      this.index = {
+        users: parsed.users ?? [],
+        datasets: parsed.datasets ?? [],
+        runs: parsed.runs ?? [],
+        runFiles: parsed.runFiles ?? [],
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      this.index = { users: [], datasets: [], runs: [], runFiles: [] };
+    }
+    return this.index;
+  }
+
+  // Writes are serialized and go through a temp file so a crash never leaves a torn index.
+  // A failed write is reported to its caller only; later writes still run.
+  private persist(): Promise<void> {
+    const write = this.writeQueue.catch(() => {}).then(async () => {
+      await fs.mkdir(this.dataDir, { recursive: true });
+      const tmpPath = `${this.indexPath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(this.index, null, 2), "utf8");
+      await fs.rename(tmpPath, this.indexPath);
+    });
+    this.writeQueue = write;
+    return write;
   }
 
   async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
+    const { users } = await this.load();
+    return users.find((user) => user.id === id);
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
+    const { users } = await this.load();
+    return users.find(
       (user) => user.username === username,
     );
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    const index = await this.load();
     const id = randomUUID();
     const user: User = { ...insertUser, id };
-    this.users.set(id, user);
+    index.users.push(user);
+    await this.persist();
     return user;
   }
+
+  async listDatasets(): Promise<Dataset[]> {
+    const { datasets } = await this.load();
+    return [...datasets].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getDataset(id: string): Promise<Dataset | undefined> {
+    const { datasets } = await this.load();
+    return datasets.find((dataset) => dataset.dataset_id === id);
+  }
+
+  async getDatasetFile(id: string, kind: DatasetFileKind): Promise<string | undefined> {
+    const dataset = await this.getDataset(id);
+    if (!dataset?.files[kind]) return undefined;
+
+    try {
+      return await fs.readFile(path.join(this.datasetDir(id), `${kind}.csv`), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async findDatasetByContent(insertDataset: InsertDataset): Promise<Dataset | undefined> {
+    const { datasets } = await this.load();
+    const hash = datasetContentHash(insertDataset);
+    return datasets.find((dataset) => dataset.content_hash === hash);
+  }
+
+  async createDataset(insertDataset: InsertDataset): Promise<Dataset> {
+    const index = await this.load();
+    const id = randomUUID();
+    const dir = this.datasetDir(id);
+    await fs.mkdir(dir, { recursive: true });
+
+    const files: Dataset["files"] = {};
+    for (const kind of ["embeddings", "info"] as const) {
+      const upload = insertDataset[kind];
+      if (!upload) continue;
+      await fs.writeFile(path.join(dir, `${kind}.csv`), upload.content, "utf8");
+      files[kind] = describeCsv(upload.name, upload.type, upload.content);
+    }
+
+    const dataset: Dataset = {
+      dataset_id: id,
+      name: insertDataset.name ?? files.info?.name ?? files.embeddings?.name ?? id,
+      createdAt: new Date().toISOString(),
+      files,
+      content_hash: datasetContentHash(insertDataset),
+    };
+    index.datasets.push(dataset);
+    await this.persist();
+    return dataset;
+  }
+
+  async deleteDataset(id: string): Promise<boolean> {
+    const index = await this.load();
+    const before = index.datasets.length;
+    index.datasets = index.datasets.filter((dataset) => dataset.dataset_id !== id);
+    if (index.datasets.length === before) return false;
+
+    await this.persist();
+    await fs.rm(this.datasetDir(id), { recursive: true, force: true });
+    return true;
+  }
+
+  async listRuns(): Promise<ClusteringRunSummary[]> {
+    const { runs } = await this.load();
+    return [...runs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getRun(id: string): Promise<ClusteringRun | undefined> {
+    const { runs } = await this.load();
+    if (!runs.some((run) => run.run_id === id)) return undefined;
+
+    try {
+      return JSON.parse(await fs.readFile(this.runPath(id), "utf8")) as ClusteringRun;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async createRun(insertRun: InsertClusteringRun): Promise<ClusteringRun> {
+    const index = await this.load();
+    const run: ClusteringRun = {
+      ...insertRun,
+      run_id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(path.dirname(this.runPath(run.run_id)), { recursive: true });
+    await fs.writeFile(this.runPath(run.run_id), JSON.stringify(run), "utf8");
+
+    index.runs.push(summarizeRun(run));
+    const keys = runFileKeys(run.result);
+    for (const files of index.runFiles) {
+      if (keys.has(files.key)) files.run_ids.push(run.run_id);
+    }
+    await this.persist();
+    return run;
+  }
+
+  async deleteRun(id: string): Promise<boolean> {
+    const index = await this.load();
+    const before = index.runs.length;
+    index.runs = index.runs.filter((run) => run.run_id !== id);
+    if (index.runs.length === before) return false;
+
+    // Files no other saved run refers to go with the run
+    const orphaned: string[] = [];
+    for (const files of index.runFiles) {
+      if (!files.run_ids.includes(id)) continue;
+      files.run_ids = files.run_ids.filter((runId) => runId !== id);
+      if (files.run_ids.length === 0) orphaned.push(files.key);
+    }
+    index.runFiles = index.runFiles.filter((files) => !orphaned.includes(files.key));
+
+    await this.persist();
+    await fs.rm(this.runPath(id), { force: true });
+    for (const key of orphaned) {
+      await fs.rm(this.runFilesDir(key), { recursive: true, force: true });
+    }
+    return true;
+  }
+
+  /**
+   * Store the files of a local engine run, keyed by the paths in its result
+   * (see RUN_FILE_PATH). Also drops expired files of runs never saved.
+   */
+  async saveRunFiles(files: Record<string, string>): Promise<void> {
+    const index = await this.load();
+    const keys = new Set<string>();
+    for (const [filePath, content] of Object.entries(files)) {
+      const match = RUN_FILE_PATH.exec(filePath);
+      if (!match) throw new Error(`Unexpected run file path: ${filePath}`);
+      const [, key, name] = match;
+      await fs.mkdir(this.runFilesDir(key), { recursive: true });
+      await fs.writeFile(path.join(this.runFilesDir(key), name), content, "utf8");
+      keys.add(key);
+    }
+
+    const now = Date.now();
+    const cutoff = new Date(now - UNSAVED_RUN_FILES_TTL_MS).toISOString();
+    const expired = index.runFiles.filter((entry) => entry.run_ids.length === 0 && entry.createdAt < cutoff);
+    index.runFiles = [
+      ...index.runFiles.filter((entry) => !expired.includes(entry)),
+      ...Array.from(keys, (key) => ({ key, createdAt: new Date(now).toISOString(), run_ids: [] })),
+    ];
+    await this.persist();
+    for (const { key } of expired) {
+      await fs.rm(this.runFilesDir(key), { recursive: true, force: true });
+    }
+  }
+
+  async getRunFile(filePath: string): Promise<string | undefined> {
+    const match = RUN_FILE_PATH.exec(filePath);
+    if (!match) return undefined;
+
+    try {
+      return await fs.readFile(path.join(this.runFilesDir(match[1]), match[2]), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = new FileStorage(
+  process.env.DATA_DIR || path.resolve(process.cwd(), "data"),
+);
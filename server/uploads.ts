@@ -0,0 +1,152 @@
+import { randomUUID } from "crypto";
+import { promisify } from "util";
+import { gunzip as gunzipCallback } from "zlib";
+
+const gunzip = promisify(gunzipCallback);
+
+export type UploadEncoding = "identity" | "gzip";
+
+interface Upload {
+  upload_id: string;
+  name: string;
+  // Size of the (possibly compressed) bytes the client will send
+  size: number;
+  encoding: UploadEncoding;
+  chunks: Buffer[];
+  received: number;
+  updated_at: number;
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// Largest upload accepted, compressed size
+export const MAX_UPLOAD_BYTES = 512 * 1024 * 1024;
+// Largest file content after decompression; also keeps the text under V8's string length limit
+export const MAX_CONTENT_BYTES = 500 * 1024 * 1024;
+// Announced bytes of all open uploads together, as they are held in memory:
+// room for one largest info and embeddings pair
+export const MAX_OPEN_UPLOAD_BYTES = 2 * MAX_UPLOAD_BYTES;
+// Chunk size clients are asked to use; the raw body limit of the chunk route is above it
+export const UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024;
+
+// Unfinished uploads are dropped after this long without a chunk
+const UPLOAD_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Files sent to the local engine in chunks (optionally gzip-compressed) before
+ * they are turned into a dataset. Chunks carry their byte offset, so a chunk
+ * that is sent again after a lost response is acknowledged instead of appended
+ * twice. Uploads are held in memory, so the bytes announced by open uploads are
+ * capped at MAX_OPEN_UPLOAD_BYTES.
+ */
+export class UploadStore {
+  private uploads = new Map<string, Upload>();
+
+  create(name: string, size: number, encoding: UploadEncoding): Upload {
+    this.prune();
+    if (!Number.isInteger(size) || size <= 0 || size > MAX_UPLOAD_BYTES) {
+      throw new UploadError(`size must be between 1 and ${MAX_UPLOAD_BYTES} bytes`);
+    }
+    let open = 0;
+    this.uploads.forEach((upload) => { open += upload.size; });
+    if (open + size > MAX_OPEN_UPLOAD_BYTES) {
+      throw new UploadError("Too many uploads in progress on the server; try again once they finish", 429);
+    }
+    const upload: Upload = {
+      upload_id: `upload-${randomUUID()}`,
+      name,
+      size,
+      encoding,
+      chunks: [],
+      received: 0,
+      updated_at: Date.now(),
+    };
+    this.uploads.set(upload.upload_id, upload);
+    return upload;
+  }
+
+  append(id: string, offset: number, chunk: Buffer): Upload {
+    const upload = this.get(id);
+    // Repeat of the last chunk whose response was lost
+    if (offset + chunk.length === upload.received && offset < upload.received) return upload;
+    if (offset !== upload.received) {
+      throw new UploadError(`Expected offset ${upload.received}, got ${offset}`, 409);
+    }
+    if (upload.received + chunk.length > upload.size) {
+      throw new UploadError(`Upload is larger than the announced ${upload.size} bytes`);
+    }
+    upload.chunks.push(chunk);
+    upload.received += chunk.length;
+    upload.updated_at = Date.now();
+    return upload;
+  }
+
+  /**
+   * Remove complete uploads and return them as text, in the order of `ids`.
+   * Content must be UTF-8 and at most MAX_CONTENT_BYTES once decompressed; a
+   * byte order mark is dropped. Decompression runs off the event loop.
+   * Nothing is removed unless every upload is valid, apart from one whose
+   * content can never be used.
+   */
+  async take(ids: string[]): Promise<{ name: string; content: string }[]> {
+    const pending = ids.map((id) => this.get(id));
+    for (const upload of pending) {
+      if (upload.received !== upload.size) {
+        throw new UploadError(`Upload ${upload.upload_id} is incomplete (${upload.received} of ${upload.size} bytes)`, 409);
+      }
+    }
+
+    const files: { name: string; content: string }[] = [];
+    for (const upload of pending) {
+      try {
+        files.push({ name: upload.name, content: await this.decode(upload) });
+      } catch (error) {
+        this.uploads.delete(upload.upload_id);
+        throw error;
+      }
+    }
+    pending.forEach((upload) => this.uploads.delete(upload.upload_id));
+    return files;
+  }
+
+  private async decode(upload: Upload): Promise<string> {
+    let bytes = Buffer.concat(upload.chunks);
+    if (upload.encoding === "gzip") {
+      try {
+        bytes = await gunzip(bytes, { maxOutputLength: MAX_CONTENT_BYTES });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+          throw new UploadError(`${upload.name} is larger than ${MAX_CONTENT_BYTES} bytes once decompressed`, 413);
+        }
+        throw new UploadError(`${upload.name} is not valid gzip data`);
+      }
+    }
+    if (bytes.length > MAX_CONTENT_BYTES) {
+      throw new UploadError(`${upload.name} is larger than ${MAX_CONTENT_BYTES} bytes`, 413);
+    }
+    try {
+      return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    } catch {
+      throw new UploadError(`${upload.name} is not UTF-8 text; save it as CSV UTF-8 and upload it again`);
+    }
+  }
+
+  private get(id: string): Upload {
+    const upload = this.uploads.get(id);
+    if (!upload) throw new UploadError(`Upload ${id} not found`, 404);
+    return upload;
+  }
+
+  private prune() {
+    const cutoff = Date.now() - UPLOAD_TTL_MS;
+    this.uploads.forEach((upload, id) => {
+      if (upload.updated_at < cutoff) this.uploads.delete(id);
+    });
+  }
+}
+
+export const uploads = new UploadStore();
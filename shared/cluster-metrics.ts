@@ -0,0 +1,236 @@
+/**
+ * Cluster quality metrics shared by the local clustering engine and the client.
+ * Every function takes row-major points and one integer label per point.
+ */
+
+export function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return sum;
+}
+
+export function euclideanDistance(a: number[], b: number[]): number {
+  return Math.sqrt(squaredDistance(a, b));
+}
+
+/**
+ * Mean vector of every cluster, keyed by label
+ */
+export function computeCentroids(points: number[][], labels: number[]): Map<number, number[]> {
+  const sums = new Map<number, number[]>();
+  const counts = new Map<number, number>();
+
+  points.forEach((point, i) => {
+    const label = labels[i];
+    let sum = sums.get(label);
+    if (!sum) {
+      sum = new Array(point.length).fill(0);
+      sums.set(label, sum);
+    }
+    for (let d = 0; d < point.length; d++) {
+      sum[d] += point[d];
+    }
+    counts.set(label, (counts.get(label) || 0) + 1);
+  });
+
+  const centroids = new Map<number, number[]>();
+  sums.forEach((sum, label) => {
+    const count = counts.get(label) || 1;
+    centroids.set(label, sum.map(value => value / count));
+  });
+  return centroids;
+}
+
+/**
+ * Within-cluster sum of squared distances to the cluster centroid
+ */
+export function inertia(
+  points: number[][],
+  labels: number[],
+  centroids: Map<number, number[]> = computeCentroids(points, labels)
+): number {
+  let total = 0;
+  points.forEach((point, i) => {
+    const centroid = centroids.get(labels[i]);
+    if (centroid) total += squaredDistance(point, centroid);
+  });
+  return total;
+}
+
+/**
+ * Mean silhouette coefficient. Above `maxSamples` points the score is computed on
+ * an evenly strided subsample, since the exact score is quadratic in the input size.
+ * Returns NaN when there are fewer than two clusters.
+ */
+export function silhouetteScore(points: number[][], labels: number[], maxSamples = 2000): number {
+  let indices = points.map((_, i) => i);
+  if (indices.length > maxSamples) {
+    const stride = indices.length / maxSamples;
+    indices = Array.from({ length: maxSamples }, (_, i) => Math.floor(i * stride));
+  }
+
+  const clusterIds = Array.from(new Set(indices.map(i => labels[i])));
+  if (clusterIds.length < 2) return NaN;
+
+  let total = 0;
+  for (const i of indices) {
+    const sums = new Map<number, number>();
+    const counts = new Map<number, number>();
+    for (const j of indices) {
+      if (i === j) continue;
+      const label = labels[j];
+      sums.set(label, (sums.get(label) || 0) + euclideanDistance(points[i], points[j]));
+      counts.set(label, (counts.get(label) || 0) + 1);
+    }
+
+    const ownLabel = labels[i];
+    const ownCount = counts.get(ownLabel) || 0;
+    // Singleton clusters score 0 by convention
+    if (ownCount === 0) continue;
+
+    const a = (sums.get(ownLabel) || 0) / ownCount;
+    let b = Infinity;
+    sums.forEach((sum, label) => {
+      if (label !== ownLabel) b = Math.min(b, sum / (counts.get(label) || 1));
+    });
+
+    const denominator = Math.max(a, b);
+    total += denominator > 0 ? (b - a) / denominator : 0;
+  }
+
+  return total / indices.length;
+}
+
+/**
+ * Calinski-Harabasz index: between-cluster dispersion over within-cluster dispersion
+ */
+export function calinskiHarabasz(points: number[][], labels: number[]): number {
+  const n = points.length;
+  const centroids = computeCentroids(points, labels);
+  const k = centroids.size;
+  if (k < 2 || n <= k) return NaN;
+
+  const overall = new Array(points[0].length).fill(0);
+  points.forEach(point => point.forEach((value, d) => { overall[d] += value / n; }));
+
+  const counts = new Map<number, number>();
+  labels.forEach(label => counts.set(label, (counts.get(label) || 0) + 1));
+
+  let between = 0;
+  centroids.forEach((centroid, label) => {
+    between += (counts.get(label) || 0) * squaredDistance(centroid, overall);
+  });
+  const within = inertia(points, labels, centroids);
+
+  if (within === 0) return Infinity;
+  return (between / (k - 1)) / (within / (n - k));
+}
+
+/**
+ * Davies-Bouldin index: mean worst-case ratio of cluster spread to centroid separation
+ * (lower is better)
+ */
+export function daviesBouldin(points: number[][], labels: number[]): number {
+  const centroids = computeCentroids(points, labels);
+  if (centroids.size < 2) return NaN;
+
+  const spreadSums = new Map<number, number>();
+  const counts = new Map<number, number>();
+  points.forEach((point, i) => {
+    const label = labels[i];
+    spreadSums.set(label, (spreadSums.get(label) || 0) + euclideanDistance(point, centroids.get(label)!));
+    counts.set(label, (counts.get(label) || 0) + 1);
+  });
+
+  const ids = Array.from(centroids.keys());
+  const spread = new Map(ids.map(id => [id, (spreadSums.get(id) || 0) / (counts.get(id) || 1)]));
+
+  let total = 0;
+  for (const i of ids) {
+    let worst = 0;
+    for (const j of ids) {
+      if (i === j) continue;
+      const separation = euclideanDistance(centroids.get(i)!, centroids.get(j)!);
+      const ratio = separation > 0 ? (spread.get(i)! + spread.get(j)!) / separation : Infinity;
+      worst = Math.max(worst, ratio);
+    }
+    total += worst;
+  }
+
+  return total / ids.length;
+}
+
+/**
+ * Adjusted Rand index between two labelings of the same points
+ * (1 = identical partitions, ~0 = chance agreement)
+ */
+export function adjustedRandIndex(labelsA: number[], labelsB: number[]): number {
+  const n = labelsA.length;
+  if (n !== labelsB.length || n < 2) return NaN;
+
+  const choose2 = (x: number) => (x * (x - 1)) / 2;
+  const contingency = new Map<string, number>();
+  const rowSums = new Map<number, number>();
+  const colSums = new Map<number, number>();
+
+  for (let i = 0; i < n; i++) {
+    const key = `${labelsA[i]}|${labelsB[i]}`;
+    contingency.set(key, (contingency.get(key) || 0) + 1);
+    rowSums.set(labelsA[i], (rowSums.get(labelsA[i]) || 0) + 1);
+    colSums.set(labelsB[i], (colSums.get(labelsB[i]) || 0) + 1);
+  }
+
+  let index = 0;
+  contingency.forEach(count => { index += choose2(count); });
+  let sumRows = 0;
+  rowSums.forEach(count => { sumRows += choose2(count); });
+  let sumCols = 0;
+  colSums.forEach(count => { sumCols += choose2(count); });
+
+  const expected = (sumRows * sumCols) / choose2(n);
+  const max = (sumRows + sumCols) / 2;
+  if (max === expected) return 1;
+  return (index - expected) / (max - expected);
+}
+
+export interface ClusterSpread {
+  id: number;
+  size: number;
+  centroid: number[];
+  avgDistance: number;
+  maxDistance: number;
+}
+
+/**
+ * Size, centroid and distance-to-centroid spread of every cluster, ordered by label
+ */
+export function clusterSpread(points: number[][], labels: number[]): ClusterSpread[] {
+  const centroids = computeCentroids(points, labels);
+  const stats = new Map<number, { size: number; total: number; max: number }>();
+
+  points.forEach((point, i) => {
+    const label = labels[i];
+    const distance = euclideanDistance(point, centroids.get(label)!);
+    const entry = stats.get(label) ?? { size: 0, total: 0, max: 0 };
+    entry.size++;
+    entry.total += distance;
+    entry.max = Math.max(entry.max, distance);
+    stats.set(label, entry);
+  });
+
+  return Array.from(centroids.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([id, centroid]) => {
+      const entry = stats.get(id)!;
+      return {
+        id,
+        size: entry.size,
+        centroid,
+        avgDistance: entry.total / entry.size,
+        maxDistance: entry.max,
+      };
+    });
+}
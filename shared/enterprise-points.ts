@@ -0,0 +1,139 @@
+/**
+ * One enterprise of a clustering result, flattened from `companies[].enterprise[]`
+ * (or the legacy `embedding` / `labels` arrays). Every view reads these points so
+ * that a point means the same thing everywhere.
+ */
+import type { ClusterResult, Enterprise } from "./schema";
+
+export interface EnterprisePoint {
+  // Stable across runs: "<taxcode>:<yearreport>", or "row-<index>" without a taxcode.
+  // Repeated keys in one result get a "#2", "#3", ... suffix.
+  id: string;
+  // Position in the flattened payload
+  index: number;
+  cluster: number;
+  // 2D projection: pca2_x/pca2_y, else emb_x/emb_y; NaN when the row has neither
+  x: number;
+  y: number;
+  located: boolean;
+  name: string;
+  taxcode: string;
+  yearreport: string;
+  sectorName: string;
+  sectorId: string;
+  employees: number | null;
+  // Standardized size indicators: revenue, employees, total assets, equity
+  s_DT_TTM: number | null;
+  s_EMPL: number | null;
+  s_TTS: number | null;
+  s_VCSH: number | null;
+  // Marker size from the employee count: max(0.1, 0.5 * log10(employees + 1))
+  markerSize: number;
+  // Height in 3D views: 0.3 * (s_DT_TTM + s_TTS + s_VCSH) + 0.1 * s_EMPL
+  sizeScore: number;
+  // Every field the backend sent for this enterprise
+  row: Enterprise;
+}
+
+/**
+ * Key of an enterprise-year, shared with the labels CSVs and run comparison
+ */
+export function enterpriseKey(taxcode: unknown, yearreport: unknown): string {
+  return `${taxcode}:${yearreport ?? ""}`;
+}
+
+function finiteOrNull(value: unknown): number | null {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value);
+}
+
+export function markerSizeFor(employees: number | null): number {
+  return employees !== null && employees > 0 ? Math.max(0.1, Math.log10(employees + 1) * 0.5) : 0.1;
+}
+
+function coordinates(row: Enterprise): [number, number] {
+  const pairs: [unknown, unknown][] = [[row.pca2_x, row.pca2_y], [row.emb_x, row.emb_y]];
+  for (const [x, y] of pairs) {
+    const px = finiteOrNull(x);
+    const py = finiteOrNull(y);
+    if (px !== null && py !== null) return [px, py];
+  }
+  return [NaN, NaN];
+}
+
+function fromEnterprise(row: Enterprise, sectorId: unknown, index: number): Omit<EnterprisePoint, "id"> {
+  const [x, y] = coordinates(row);
+  const employees = finiteOrNull(row.empl_qtty);
+  const s_DT_TTM = finiteOrNull(row.s_DT_TTM);
+  const s_EMPL = finiteOrNull(row.s_EMPL);
+  const s_TTS = finiteOrNull(row.s_TTS);
+  const s_VCSH = finiteOrNull(row.s_VCSH);
+  return {
+    index,
+    cluster: Number(row.cluster ?? row.Label ?? 0),
+    x,
+    y,
+    located: Number.isFinite(x) && Number.isFinite(y),
+    name: text(row.name) || "Unknown Company",
+    taxcode: text(row.taxcode),
+    yearreport: text(row.yearreport),
+    sectorName: text(row.sector_name),
+    sectorId: text(row.sector_unique_id ?? sectorId),
+    employees,
+    s_DT_TTM,
+    s_EMPL,
+    s_TTS,
+    s_VCSH,
+    markerSize: markerSizeFor(employees),
+    sizeScore: ((s_DT_TTM ?? 0) + (s_TTS ?? 0) + (s_VCSH ?? 0)) * 0.3 + (s_EMPL ?? 0) * 0.1,
+    row,
+  };
+}
+
+function build(result: ClusterResult): EnterprisePoint[] {
+  const points: Omit<EnterprisePoint, "id">[] = [];
+  if (result.companies) {
+    result.companies.forEach((company) => {
+      company.enterprise?.forEach((row) => {
+        points.push(fromEnterprise(row, company.sector_unique_id, points.length));
+      });
+    });
+  } else if (result.embedding && result.labels) {
+    result.embedding.forEach(([x, y], index) => {
+      points.push({
+        ...fromEnterprise({}, undefined, index),
+        cluster: result.labels![index] ?? 0,
+        x,
+        y,
+        located: Number.isFinite(x) && Number.isFinite(y),
+      });
+    });
+  }
+
+  const seen = new Map<string, number>();
+  return points.map((point) => {
+    const key = point.taxcode ? enterpriseKey(point.taxcode, point.yearreport) : `row-${point.index}`;
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    return { ...point, id: count > 1 ? `${key}#${count}` : key };
+  });
+}
+
+// Results are replaced, never mutated, so a result object always maps to the same points
+const cache = new WeakMap<ClusterResult, EnterprisePoint[]>();
+
+/**
+ * The enterprise points of a result, built once per result object
+ */
+export function enterprisePoints(result: ClusterResult): EnterprisePoint[] {
+  let points = cache.get(result);
+  if (!points) {
+    points = build(result);
+    cache.set(result, points);
+  }
+  return points;
+}
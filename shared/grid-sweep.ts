@@ -0,0 +1,41 @@
+import type { ClusterResult, GridSweepCell, GridSweepResult } from "./schema";
+
+/**
+ * Build the (lambda x k) results matrix from one ClusterResult per lambda, each
+ * covering every k and carrying its per-k `metrics`
+ */
+export function assembleGridSweep(
+  lambdaValues: number[],
+  kValues: number[],
+  results: ClusterResult[],
+): GridSweepResult {
+  const cells: GridSweepCell[] = [];
+  results.forEach((result, index) => {
+    const lambda = lambdaValues[index];
+    const rows = result.metrics ?? [];
+    kValues.forEach((k) => {
+      const row = rows.find((m) => m.k === k);
+      cells.push({
+        lambda,
+        k,
+        inertia: row?.inertia ?? null,
+        silhouette: row?.silhouette ?? null,
+        calinski_harabasz: row?.calinski_harabasz ?? null,
+        davies_bouldin: row?.davies_bouldin ?? null,
+      });
+    });
+  });
+
+  const scored = cells.filter((cell) => cell.silhouette !== null);
+  const best = scored.length > 0
+    ? scored.reduce((a, b) => (b.silhouette! > a.silhouette! ? b : a))
+    : null;
+
+  return {
+    lambda_values: lambdaValues,
+    k_values: kValues,
+    cells,
+    best: best ? { lambda: best.lambda, k: best.k } : null,
+    results,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Preprocessing of info features before clustering, shared by the local engine
+ * and the client. Each column goes through: log transform, winsorization,
+ * imputation of missing values, scaling.
+ */
+import type { FeaturePreprocessing, Preprocessing } from "./schema";
+
+export type ImputeStrategy = NonNullable<FeaturePreprocessing["impute"]>;
+export type ScaleStrategy = NonNullable<FeaturePreprocessing["scale"]>;
+
+export interface ResolvedPreprocessing {
+  impute: ImputeStrategy;
+  scale: ScaleStrategy;
+  winsorize: [number, number] | null;
+  log: boolean;
+}
+
+// What the engine did before preprocessing was configurable
+export const DEFAULT_PREPROCESSING: ResolvedPreprocessing = {
+  impute: "mean",
+  scale: "zscore",
+  winsorize: null,
+  log: false,
+};
+
+/**
+ * Steps for one column: the column override, then the config defaults, then
+ * DEFAULT_PREPROCESSING
+ */
+export function resolvePreprocessing(config: Preprocessing | undefined, column: string): ResolvedPreprocessing {
+  const defaults = config?.defaults ?? {};
+  const override = config?.columns?.[column] ?? {};
+  return {
+    impute: override.impute ?? defaults.impute ?? DEFAULT_PREPROCESSING.impute,
+    scale: override.scale ?? defaults.scale ?? DEFAULT_PREPROCESSING.scale,
+    winsorize: override.winsorize !== undefined
+      ? override.winsorize
+      : defaults.winsorize ?? DEFAULT_PREPROCESSING.winsorize,
+    log: override.log ?? defaults.log ?? DEFAULT_PREPROCESSING.log,
+  };
+}
+
+// Linear interpolation between the closest ranks; `q` in [0, 1]
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function signedLog1p(value: number): number {
+  return Math.sign(value) * Math.log1p(Math.abs(value));
+}
+
+/**
+ * Transform one column, with null for missing values. Imputation and scaling
+ * statistics come from the observed values only, so the default steps match a
+ * plain z-score where missing values end up at 0.
+ * Returns null when nothing is observed or the column has no spread left.
+ */
+export function preprocessColumn(values: (number | null)[], steps: ResolvedPreprocessing): number[] | null {
+  let column = steps.log ? values.map(v => (v === null ? null : signedLog1p(v))) : values;
+  let observed = column.filter((v): v is number => v !== null).sort((a, b) => a - b);
+  if (observed.length === 0) return null;
+
+  if (steps.winsorize) {
+    const low = quantile(observed, steps.winsorize[0] / 100);
+    const high = quantile(observed, steps.winsorize[1] / 100);
+    column = column.map(v => (v === null ? null : Math.min(high, Math.max(low, v))));
+    observed = observed.map(v => Math.min(high, Math.max(low, v)));
+  }
+
+  const mean = observed.reduce((sum, v) => sum + v, 0) / observed.length;
+  const std = Math.sqrt(observed.reduce((sum, v) => sum + (v - mean) ** 2, 0) / observed.length);
+  if (std === 0) return null;
+
+  const fill = steps.impute === "median" ? quantile(observed, 0.5) : steps.impute === "zero" ? 0 : mean;
+  const filled = column.map(v => (v === null ? fill : v));
+
+  let center = 0;
+  let spread = 1;
+  if (steps.scale === "zscore") {
+    center = mean;
+    spread = std;
+  } else if (steps.scale === "robust") {
+    // Sparse columns (mostly one value) have no interquartile range; fall back to std
+    const iqr = quantile(observed, 0.75) - quantile(observed, 0.25);
+    center = quantile(observed, 0.5);
+    spread = iqr > 0 ? iqr : std;
+  } else if (steps.scale === "minmax") {
+    center = observed[0];
+    spread = observed[observed.length - 1] - observed[0];
+  }
+  return filled.map(v => (v - center) / spread);
+}
+
+/**
+ * Short description of a column's steps for logs, e.g.
+ * "log1p, clip p1-p99, median, robust"
+ */
+export function describePreprocessing(steps: ResolvedPreprocessing): string {
+  const parts: string[] = [];
+  if (steps.log) parts.push("log1p");
+  if (steps.winsorize) parts.push(`clip p${steps.winsorize[0]}-p${steps.winsorize[1]}`);
+  parts.push(`${steps.impute} imputation`, steps.scale === "none" ? "unscaled" : steps.scale);
+  return parts.join(", ");
+}
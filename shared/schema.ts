@@ -19,6 +19,53 @@ export const fileMetadataSchema = z.object({
   preview: z.array(z.record(z.string(), z.any())),
 });
 
+// Datasets registered on the server (uploaded embeddings/info files)
+export const datasetFileKindSchema = z.enum(['embeddings', 'info']);
+
+export const datasetSchema = z.object({
+  dataset_id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  files: z.object({
+    embeddings: fileMetadataSchema.optional(),
+    info: fileMetadataSchema.optional(),
+  }),
+  // SHA-256 of the file contents; identical inline CSVs reuse the dataset
+  content_hash: z.string().optional(),
+});
+
+const datasetFileUploadSchema = z.object({
+  name: z.string().min(1),
+  type: z.string().default('text/csv'),
+  content: z.string().min(1),
+});
+
+export const insertDatasetSchema = z.object({
+  name: z.string().min(1).optional(),
+  embeddings: datasetFileUploadSchema.optional(),
+  info: datasetFileUploadSchema.optional(),
+}).refine(data => data.embeddings || data.info, {
+  message: "Upload at least one of embeddings or info",
+});
+
+// Preprocessing of info features before clustering. Steps run in order:
+// log transform, winsorization, imputation, scaling.
+export const featurePreprocessingSchema = z.object({
+  impute: z.enum(["mean", "median", "zero"]).optional(),
+  scale: z.enum(["zscore", "robust", "minmax", "none"]).optional(),
+  // Clip values to these percentiles, e.g. [1, 99]; null turns a default clip off
+  winsorize: z.tuple([z.number().min(0).max(50), z.number().min(50).max(100)]).nullable().optional(),
+  // sign(x) * log1p(|x|), for skewed money columns such as revenue
+  log: z.boolean().optional(),
+});
+
+export const preprocessingSchema = z.object({
+  // Applied to every info feature
+  defaults: featurePreprocessingSchema,
+  // Per-column overrides, merged over the defaults
+  columns: z.record(z.string(), featurePreprocessingSchema).optional(),
+});
+
 // Clustering parameters
 export const clusteringParamsSchema = z.object({
   lambda: z.number().min(0).max(100),
@@ -28,12 +75,28 @@ export const clusteringParamsSchema = z.object({
   ]),
   pca_dim: z.number().int().min(2).max(512).default(128),
   level_value: z.union([z.string().min(1), z.array(z.string().min(1))]),
+  // Info columns left out of the features (see the data quality report)
+  exclude_columns: z.array(z.string().min(1)).optional(),
+  // Info columns used as features; omitted: every numeric info column
+  feature_columns: z.array(z.string().min(1)).optional(),
+  // Weight of an info feature after preprocessing (default 1), multiplied with lambda
+  feature_weights: z.record(z.string(), z.number().min(0).max(10)).optional(),
+  // Omitted: mean imputation and z-score scaling of every info feature
+  preprocessing: preprocessingSchema.optional(),
 });
 
 // API configuration
 export const apiConfigSchema = z.object({
   endpoint: z.string().url(),
   apiKey: z.string().min(1).optional(),
+  // How apiKey is sent: an X-API-Key header (default) or "Authorization: Bearer"
+  authType: z.enum(["api_key", "bearer"]).optional(),
+});
+
+// Saved backend (e.g. local, staging, prod) the client can switch between
+export const backendProfileSchema = apiConfigSchema.extend({
+  id: z.string().min(1),
+  name: z.string().min(1),
 });
 
 // Data processing schemas
@@ -56,15 +119,16 @@ export const enterpriseSchema = z.object({
   taxcode: z.string().optional(),
   sector_name: z.string().optional(),
   sector_unique_id: z.union([z.string(), z.number()]).optional(),
-  empl_qtty: z.number().optional(),
-  yearreport: z.number().optional(),
+  // Numeric info fields are null where the info file has no value
+  empl_qtty: z.number().nullable().optional(),
+  yearreport: z.number().nullable().optional(),
   embedding: z.array(z.number()).optional(),
-  pca2_x: z.number().optional(),
-  pca2_y: z.number().optional(),
-  s_DT_TTM: z.number().optional(),
-  s_EMPL: z.number().optional(),
-  s_TTS: z.number().optional(),
-  s_VCSH: z.number().optional(),
+  pca2_x: z.number().nullable().optional(),
+  pca2_y: z.number().nullable().optional(),
+  s_DT_TTM: z.number().nullable().optional(),
+  s_EMPL: z.number().nullable().optional(),
+  s_TTS: z.number().nullable().optional(),
+  s_VCSH: z.number().nullable().optional(),
 }).passthrough(); // Allow additional fields
 
 export const companySchema = z.object({
@@ -72,6 +136,18 @@ export const companySchema = z.object({
   enterprise: z.array(enterpriseSchema).optional(),
 });
 
+// Quality metrics for one k of a k sweep
+export const kMetricsSchema = z.object({
+  k: z.number(),
+  inertia: z.number().nullable(),
+  silhouette: z.number().nullable(),
+  calinski_harabasz: z.number().nullable(),
+  davies_bouldin: z.number().nullable(),
+  // Gap statistic and its standard error, when the engine was asked for it
+  gap: z.number().nullable().optional(),
+  gap_sk: z.number().nullable().optional(),
+});
+
 export const clusterResultSchema = z.object({
   dataset_id: z.string(),
   mode: z.string().optional(),
@@ -88,6 +164,8 @@ export const clusterResultSchema = z.object({
     silhouette: z.string().optional(),
   }).optional(),
   labels_csv: z.string(),
+  // Labels CSV path for every k in k_candidates, keyed by k
+  labels_by_k: z.record(z.string()).optional(),
   labels: z.array(z.number()).optional(),
   scatter_plot_b64: z.string().optional(),
   embedding: z.array(z.array(z.number())).optional(),
@@ -99,11 +177,116 @@ export const clusterResultSchema = z.object({
   }).optional(),
   // New field for companies array
   companies: z.array(companySchema).optional(),
+  // Per-k metrics and input warnings (returned by the local engine)
+  metrics: z.array(kMetricsSchema).optional(),
+  warnings: z.array(z.string()).optional(),
+  // Preprocessing the backend applied to the info features, and the features it used
+  preprocessing: preprocessingSchema.optional(),
+  info_features: z.array(z.string()).optional(),
+});
+
+// Persisted clustering runs
+export const runLogEntrySchema = z.object({
+  type: z.enum(["info", "success", "error", "warning"]),
+  message: z.string(),
+  timestamp: z.string(),
+});
+
+export const clusteringRunSchema = z.object({
+  run_id: z.string(),
+  createdAt: z.string(),
+  startedAt: z.string(),
+  completedAt: z.string(),
+  endpoint: z.string(),
+  parameters: clusteringParamsSchema,
+  result: clusterResultSchema,
+  logs: z.array(runLogEntrySchema),
+});
+
+// Results are stored as returned by the backend; they are not re-validated here
+export const insertClusteringRunSchema = clusteringRunSchema
+  .omit({ run_id: true, createdAt: true })
+  .extend({
+    result: z.custom<z.infer<typeof clusterResultSchema>>(
+      (value) => typeof value === "object" && value !== null,
+      "result must be a ClusterResult object",
+    ),
+  });
+
+export const clusteringRunSummarySchema = clusteringRunSchema
+  .omit({ result: true, logs: true })
+  .extend({
+    dataset_id: z.string(),
+    mode: z.string().optional(),
+    best_k: z.number(),
+    n_samples: z.number().optional(),
+  });
+
+// Grid sweep: every (lambda, k) pair is clustered in one batch job
+export const gridSweepSchema = clusteringParamsSchema
+  .omit({ lambda: true, k: true })
+  .extend({
+    lambda_values: z.array(clusteringParamsSchema.shape.lambda).min(1, "At least one lambda value").max(10, "At most 10 lambda values"),
+    k_values: z.array(z.number().int().min(2).max(20)).min(1, "At least one k value"),
+  })
+  .refine((grid) => new Set(grid.lambda_values).size === grid.lambda_values.length, "Lambda values must be unique")
+  .refine((grid) => new Set(grid.k_values).size === grid.k_values.length, "k values must be unique");
+
+export const gridSweepCellSchema = kMetricsSchema.extend({
+  lambda: z.number(),
 });
 
+export const gridSweepResultSchema = z.object({
+  lambda_values: z.array(z.number()),
+  k_values: z.array(z.number()),
+  cells: z.array(gridSweepCellSchema),
+  // Cell with the highest silhouette
+  best: z.object({ lambda: z.number(), k: z.number() }).nullable(),
+  // One result per lambda (covering every k), in lambda_values order
+  results: z.array(clusterResultSchema),
+});
+
+// Server-side clustering jobs, with progress streamed over the jobs WebSocket
+export const jobStatusSchema = z.enum(["queued", "running", "succeeded", "failed", "cancelled"]);
+
+export const clusteringJobSchema = z.object({
+  job_id: z.string(),
+  status: jobStatusSchema,
+  // Current step, e.g. "Clustering k=4"
+  stage: z.string(),
+  percent: z.number().min(0).max(100),
+  logs: z.array(runLogEntrySchema),
+  error: z.string().optional(),
+  // Present once the job has succeeded: `result` for a run, `sweep` for a grid sweep
+  result: clusterResultSchema.optional(),
+  sweep: gridSweepResultSchema.optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export const jobEventSchema = z.discriminatedUnion("type", [
+  // Sent on subscribe (and so on every reconnect) with the logs so far
+  z.object({ type: z.literal("snapshot"), job: clusteringJobSchema.omit({ result: true, sweep: true }) }),
+  z.object({ type: z.literal("progress"), job_id: z.string(), stage: z.string(), percent: z.number() }),
+  z.object({ type: z.literal("log"), job_id: z.string(), entry: runLogEntrySchema }),
+  z.object({ type: z.literal("done"), job_id: z.string(), status: jobStatusSchema, error: z.string().optional() }),
+  z.object({ type: z.literal("error"), message: z.string() }),
+]);
+
+// Where a metric value came from: the clustering backend or computed in the browser
+export const metricSourceSchema = z.enum(["backend", "local"]);
+
 export const clusterMetricsSchema = z.object({
-  silhouetteScore: z.number(),
-  inertia: z.number(),
+  silhouetteScore: z.number().nullable(),
+  inertia: z.number().nullable(),
+  calinskiHarabasz: z.number().nullable(),
+  daviesBouldin: z.number().nullable(),
+  sources: z.object({
+    silhouetteScore: metricSourceSchema,
+    inertia: metricSourceSchema,
+    calinskiHarabasz: metricSourceSchema,
+    daviesBouldin: metricSourceSchema,
+  }),
   clusters: z.array(z.object({
     id: z.number(),
     size: z.number(),
@@ -112,19 +295,51 @@ export const clusterMetricsSchema = z.object({
       y: z.number(),
     }),
     avgDistance: z.number(),
+    maxDistance: z.number(),
   })),
 });
 
+// Named set of enterprises picked in the cluster space, kept in this browser.
+// Ids are enterprise point ids (taxcode:yearreport), so a cohort can be
+// reopened on another run over the same data.
+export const cohortSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  createdAt: z.string(),
+  // Run the cohort was selected in, if it had been saved to history
+  runId: z.string().nullable(),
+  enterpriseIds: z.array(z.string().min(1)).min(1),
+});
+
 // Export types
 export type FileUpload = z.infer<typeof fileUploadSchema>;
 export type FileMetadata = z.infer<typeof fileMetadataSchema>;
+export type DatasetFileKind = z.infer<typeof datasetFileKindSchema>;
+export type Dataset = z.infer<typeof datasetSchema>;
+export type InsertDataset = z.infer<typeof insertDatasetSchema>;
+export type FeaturePreprocessing = z.infer<typeof featurePreprocessingSchema>;
+export type Preprocessing = z.infer<typeof preprocessingSchema>;
 export type ClusteringParams = z.infer<typeof clusteringParamsSchema>;
 export type ApiConfig = z.infer<typeof apiConfigSchema>;
+export type BackendProfile = z.infer<typeof backendProfileSchema>;
 export type DataPoint = z.infer<typeof dataPointSchema>;
 export type Enterprise = z.infer<typeof enterpriseSchema>;
 export type Company = z.infer<typeof companySchema>;
+export type KMetrics = z.infer<typeof kMetricsSchema>;
 export type ClusterResult = z.infer<typeof clusterResultSchema>;
+export type MetricSource = z.infer<typeof metricSourceSchema>;
 export type ClusterMetrics = z.infer<typeof clusterMetricsSchema>;
+export type RunLogEntry = z.infer<typeof runLogEntrySchema>;
+export type ClusteringRun = z.infer<typeof clusteringRunSchema>;
+export type InsertClusteringRun = z.infer<typeof insertClusteringRunSchema>;
+export type ClusteringRunSummary = z.infer<typeof clusteringRunSummarySchema>;
+export type GridSweep = z.infer<typeof gridSweepSchema>;
+export type GridSweepCell = z.infer<typeof gridSweepCellSchema>;
+export type GridSweepResult = z.infer<typeof gridSweepResultSchema>;
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+export type ClusteringJob = z.infer<typeof clusteringJobSchema>;
+export type JobEvent = z.infer<typeof jobEventSchema>;
+export type Cohort = z.infer<typeof cohortSchema>;
 
 export interface ClusteringResults {
   dataPoints: DataPoint[];